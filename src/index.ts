@@ -1,29 +1,94 @@
 #!/usr/bin/env node
-import * as cron from 'node-cron';
-import { log, error, setCliMode, cliSuccess, cliInfo, cliError, cliHeader, getLogDirectory, getTodayLogFilePath, cleanupOldLogs, enableConsoleCapture, logJobExecution } from './utils/logger';
-import { runTemplatedJob, SimpleJobConfig, JobTemplateManager } from './jobs/templatedJob';
+import { log, logToStderr, error, warn, setCliMode, cliSuccess, cliInfo, cliError, cliHeader, getLogDirectory, getTodayLogFilePath, cleanupOldLogs, enableConsoleCapture, disableConsoleCapture, logJobExecution, configureLogging, setLogStream, getLogFormat, LoggingConfig, LogEntry, LogLevel, renderLogEntry } from './utils/logger';
+import { LogReader, LogFilter } from './utils/logReader';
+import { parseTimeOption } from './utils/timeOption';
+import { runTemplatedJob, SimpleJobConfig, buildJobPrompt } from './jobs/templatedJob';
 import { EnvConfigLoader } from './utils/envConfigLoader';
-import { JobMemory } from './utils/jobMemory';
+import { JobMemory, MemoryConfig, MemoryRevision } from './utils/jobMemory';
+import { RunHistory, RunStatus } from './utils/runHistory';
+import { ScheduleState } from './utils/scheduleState';
+import { NotificationsConfig, Notifier } from './utils/notifier';
+import { JobScheduler, SchedulerConfig } from './jobs/jobScheduler';
+import { ControlServer } from './jobs/controlServer';
+import { DashboardServer, DEFAULT_DASHBOARD_PORT } from './jobs/dashboardServer';
+import { JobPipeline } from './jobs/jobPipeline';
+import { ConfigValidator } from './utils/configValidator';
+import { formatSchemaIssues } from './utils/jsonSchema';
+import { ConfigWatcher } from './utils/configWatcher';
+import { RetryPolicy, resolveRetryPolicy } from './utils/retryPolicy';
+import { DEFAULT_GEMINI_MODEL, DEFAULT_GEMINI_TIMEOUT_MS } from './utils/geminiCliCore';
+import { LlmProviderConfig } from './utils/llmProviders';
+import { ContextSources } from './utils/contextSources';
+import { Workspace, WorkspaceConfig, DEFAULT_CONFIG_DIR } from './utils/workspace';
+import { CronSchedule, formatDateTime } from './utils/cronSchedule';
+import { ConfigEditor, JsonPath } from './utils/configEditor';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import yargs from 'yargs';
+import yargs, { Argv } from 'yargs';
 import { hideBin } from 'yargs/helpers';
 
 interface Config {
   googleCloudProject?: string;
+  timezone?: string; // IANA timezone for schedules of jobs without their own, defaults to the host timezone
   geminiOptions?: {
     model?: string;
     temperature?: number;
     maxTokens?: number;
+    timeoutMs?: number;
   };
+  provider?: LlmProviderConfig;
+  notifications?: NotificationsConfig;
+  retry?: RetryPolicy;
+  memory?: MemoryConfig;
+  scheduler?: SchedulerConfig;
+  workspace?: WorkspaceConfig;
+  logging?: LoggingConfig;
   jobs: SimpleJobConfig[];
 }
 
 // Global config directory - can be overridden via CLI or environment variable
-let configDirectory = path.join(os.homedir(), '.gemini-cli-job');
+let configDirectory = DEFAULT_CONFIG_DIR;
 let configPath = path.join(configDirectory, 'config.json');
 
+// Runs to cancel and wait for on SIGINT/SIGTERM
+let activeScheduler: JobScheduler | undefined;
+let manualRun: Promise<unknown> | undefined;
+const manualRunController = new AbortController();
+const SHUTDOWN_TIMEOUT_MS = 30_000;
+
+/**
+ * Parse and validate config.json content, throwing with path-specific messages
+ */
+function parseConfiguration(content: string, checkContextFiles = false): Config {
+  const config: Config = JSON.parse(content);
+  
+  // Reject invalid configs before anything is scheduled or run
+  const validation = ConfigValidator.validateConfig(config, { configDir: configDirectory, checkContextFiles });
+  validation.warnings.forEach(issue => warn(`${configPath}: ${issue.path}: ${issue.message}`));
+  if (validation.errors.length > 0) {
+    throw new Error(`Invalid configuration in ${configPath}:\n${formatSchemaIssues(validation.errors)}\nRun 'gjob validate' for details.`);
+  }
+  
+  warnAboutLegacyMemory(config.jobs);
+  return config;
+}
+
+/**
+ * Warn when jobs still have memory where every config kept it before workspaces, since it is no longer read
+ */
+function warnAboutLegacyMemory(jobs: SimpleJobConfig[]): void {
+  const jobNames = JobMemory.findLegacyMemory(jobs.map(job => job.jobName));
+  if (jobNames.length === 0) {
+    return;
+  }
+  const legacy = Workspace.getLegacyPaths();
+  const paths = Workspace.getPaths();
+  warn(`Memory of ${jobNames.join(', ')} is in ${legacy.memoryDir}, where it was kept before each config had its own workspace. ` +
+    `This config keeps memory in ${paths.memoryDir} and run history in ${paths.historyDir}. ` +
+    `Move the files there, or set "workspace": { "dir": "${legacy.root}" } in ${configPath} to keep using the old location.`);
+}
+
 async function loadConfigurationQuietly(): Promise<Config> {
   try {
     // Load environment configuration (quietly)
@@ -37,7 +102,7 @@ async function loadConfigurationQuietly(): Promise<Config> {
     // Load JSON configuration or create default
     let config: Config;
     if (fs.existsSync(configPath)) {
-      config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      config = parseConfiguration(fs.readFileSync(configPath, 'utf8'));
     } else {
       config = { jobs: [] };
       fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
@@ -49,6 +114,282 @@ async function loadConfigurationQuietly(): Promise<Config> {
   }
 }
 
+/**
+ * Files the scheduler watches for hot reload: config.json plus all context files
+ */
+function getWatchedConfigFiles(config: Config): string[] {
+  const contextFiles = config.jobs
+    .flatMap((job: SimpleJobConfig) => job.promptConfig.contextFiles)
+    .flatMap(source => ContextSources.getWatchedFiles(source, configDirectory));
+  return Array.from(new Set([configPath, ...contextFiles]));
+}
+
+/**
+ * Logs go to stderr while any of these jobs prints its result to stdout, so the result can be piped
+ */
+function routeLogsForStdoutOutputs(jobs: SimpleJobConfig[]): void {
+  const printsResult = jobs.some(job => job.outputs?.some(output => output.type === 'stdout'));
+  setLogStream(printsResult ? 'stderr' : 'stdout');
+}
+
+/**
+ * Logging settings from config.json, read before the config is validated so early output uses them
+ */
+function readLoggingConfig(): LoggingConfig | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8')).logging;
+  } catch {
+    return undefined;
+  }
+}
+
+const MEMORY_EXPORT_FORMAT = 'gjob-memory-export';
+
+/**
+ * Apply an edit to config.json without saving it, throwing when the result is not a valid configuration
+ * `save` writes the result; untouched parts of the file keep their formatting and key order.
+ */
+function prepareConfigEdit(edit: (editor: ConfigEditor, config: Config) => void): { config: Config; save: () => void } {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Config file not found: ${configPath}. Run: gjob setup`);
+  }
+  const editor = new ConfigEditor(fs.readFileSync(configPath, 'utf8'));
+  const validationOptions = { configDir: configDirectory, checkContextFiles: true };
+  // Problems the file already had (e.g. a missing context file of another job) don't block the edit
+  const existingErrors = new Set(ConfigValidator.validateConfig(editor.getValue(), validationOptions).errors.map(issue => issue.message));
+  edit(editor, editor.getValue());
+  
+  const updated: Config = editor.getValue();
+  const validation = ConfigValidator.validateConfig(updated, validationOptions);
+  const newErrors = validation.errors.filter(issue => !existingErrors.has(issue.message));
+  if (newErrors.length > 0) {
+    throw new Error(`Not saved, the result would be invalid:\n${formatSchemaIssues(newErrors)}`);
+  }
+  [...validation.errors, ...validation.warnings].forEach(issue => console.log(`⚠️  ${issue.path}: ${issue.message}`));
+  
+  const save = () => {
+    const tempPath = `${configPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, editor.getText());
+    fs.renameSync(tempPath, configPath);
+  };
+  return { config: updated, save };
+}
+
+/**
+ * Apply an edit to config.json and save it, only when the result is still a valid configuration
+ */
+function editConfiguration(edit: (editor: ConfigEditor, config: Config) => void): Config {
+  const { config, save } = prepareConfigEdit(edit);
+  save();
+  return config;
+}
+
+/**
+ * Index of a job in config.jobs (case-insensitive), throwing when it doesn't exist
+ */
+function findJobIndex(config: Config, jobName: string): number {
+  const index = config.jobs.findIndex(job => job.jobName.toLowerCase() === jobName.toLowerCase());
+  if (index === -1) {
+    throw new Error(`Job not found: ${jobName}`);
+  }
+  return index;
+}
+
+/**
+ * Value of a --since / --until option, exiting on an invalid time
+ */
+function readTimeOption(value: string | undefined, option: 'since' | 'until'): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = parseTimeOption(value, option);
+  if (!date) {
+    cliError(`Invalid time for --${option}: ${value}`);
+    process.exit(1);
+  }
+  return date;
+}
+
+/**
+ * Places where jobs refer to a job by name (onSuccess, dependsOn, promptConfig.inputs), in document order
+ */
+function findJobReferences(config: Config, jobName: string): Array<{ jobName: string; field: string; path: JsonPath }> {
+  const references: Array<{ jobName: string; field: string; path: JsonPath }> = [];
+  config.jobs.forEach((job, jobIndex) => {
+    for (const key of ['onSuccess', 'dependsOn'] as const) {
+      job[key]?.forEach((name, nameIndex) => {
+        if (name === jobName) {
+          references.push({ jobName: job.jobName, field: key, path: ['jobs', jobIndex, key, nameIndex] });
+        }
+      });
+    }
+    job.promptConfig?.inputs?.forEach((input, inputIndex) => {
+      if (input.job === jobName) {
+        references.push({ jobName: job.jobName, field: 'promptConfig.inputs', path: ['jobs', jobIndex, 'promptConfig', 'inputs', inputIndex] });
+      }
+    });
+  });
+  return references;
+}
+
+/**
+ * Set (or with `undefined`, remove) a value inside a job, creating missing parent objects
+ */
+function setJobValue(editor: ConfigEditor, jobIndex: number, job: any, jobPath: string[], value: any): void {
+  let parent = job;
+  for (let depth = 0; depth < jobPath.length - 1; depth++) {
+    const next = parent[jobPath[depth]];
+    if (typeof next !== 'object' || next === null) {
+      if (value !== undefined) {
+        // Create the rest of the path as one nested object
+        const created = jobPath.slice(depth + 1).reduceRight((inner: any, key) => ({ [key]: inner }), value);
+        editor.set(['jobs', jobIndex, ...jobPath.slice(0, depth + 1)], created);
+      }
+      return;
+    }
+    parent = next;
+  }
+  const fullPath: JsonPath = ['jobs', jobIndex, ...jobPath];
+  if (value === undefined) {
+    editor.remove(fullPath);
+  } else {
+    editor.set(fullPath, value);
+  }
+}
+
+/**
+ * Handler for `job enable` and `job disable`
+ */
+function setJobEnabled(jobName: string, enabled: boolean): void {
+  try {
+    let configuredName = jobName;
+    editConfiguration((editor, config) => {
+      const index = findJobIndex(config, jobName);
+      configuredName = config.jobs[index].jobName;
+      editor.set(['jobs', index, 'enabled'], enabled);
+    });
+    console.log(`✅ ${enabled ? 'Enabled' : 'Disabled'} job: ${configuredName}`);
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+    process.exit(1);
+  }
+}
+
+interface JobFieldOptions {
+  schedule?: string[];
+  manual?: boolean;
+  context?: string[];
+  prompt?: string;
+  model?: string;
+  timeout?: number;
+  timezone?: string;
+}
+
+/**
+ * Flags shared by `job add`, `job update` and `job clone`
+ */
+function withJobFieldOptions<T>(yargs: Argv<T>) {
+  return yargs
+    .option('schedule', {
+      alias: 's',
+      type: 'string',
+      array: true,
+      description: 'Cron schedule; repeat for several. Replaces the existing schedules'
+    })
+    .option('manual', {
+      type: 'boolean',
+      description: 'Remove all schedules, so the job only runs manually or in a pipeline'
+    })
+    .option('context', {
+      alias: 'x',
+      type: 'string',
+      array: true,
+      description: 'Context file or glob, relative to the config directory; repeat for several. Replaces the existing context files'
+    })
+    .option('prompt', {
+      alias: 'p',
+      type: 'string',
+      description: 'Custom prompt appended to the context ("" removes it)'
+    })
+    .option('model', {
+      alias: 'm',
+      type: 'string',
+      description: 'Gemini model ("" falls back to the global model)'
+    })
+    .option('timeout', {
+      type: 'number',
+      description: 'Gemini timeout in milliseconds (0 falls back to the global timeout)'
+    })
+    .option('timezone', {
+      type: 'string',
+      description: 'IANA timezone of the schedules, e.g. Europe/London ("" falls back to the global timezone)'
+    });
+}
+
+/**
+ * Job fields changed by the shared flags, as [path within the job, value or undefined to remove]
+ */
+function getJobFieldChanges(options: JobFieldOptions): Array<[string[], any]> {
+  const changes: Array<[string[], any]> = [];
+  if (options.manual) {
+    changes.push([['schedules'], []]);
+  } else if (options.schedule) {
+    changes.push([['schedules'], options.schedule]);
+  }
+  if (options.context) {
+    changes.push([['promptConfig', 'contextFiles'], options.context]);
+  }
+  if (options.prompt !== undefined) {
+    changes.push([['promptConfig', 'customPrompt'], options.prompt || undefined]);
+  }
+  if (options.model !== undefined) {
+    changes.push([['geminiOptions', 'model'], options.model || undefined]);
+  }
+  if (options.timeout !== undefined) {
+    changes.push([['geminiOptions', 'timeoutMs'], options.timeout || undefined]);
+  }
+  if (options.timezone !== undefined) {
+    changes.push([['timezone'], options.timezone || undefined]);
+  }
+  return changes;
+}
+
+/**
+ * Snapshot retention for a job from config.json (read directly, so memory commands work without a full environment)
+ */
+function getMemoryHistoryLimit(jobName: string): number | undefined {
+  try {
+    const config: Config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    const job = config.jobs?.find(configJob => configJob.jobName.toLowerCase() === jobName.toLowerCase());
+    return job?.memory?.historyLimit ?? config.memory?.historyLimit;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Name of a job as written in config.json, matched regardless of case; the input when no job matches
+ */
+function resolveJobName(jobName: string): string {
+  try {
+    const config: Config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    return config.jobs?.find(configJob => configJob.jobName.toLowerCase() === jobName.toLowerCase())?.jobName || jobName;
+  } catch {
+    return jobName;
+  }
+}
+
+/**
+ * Parse a `memory set` value: JSON when valid (numbers, booleans, null, arrays, objects, quoted strings), otherwise the raw string
+ */
+function parseMemoryValue(raw: string): any {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
 async function main() {
   // Enable console capture for comprehensive logging
   enableConsoleCapture();
@@ -68,21 +409,26 @@ async function main() {
     })
     .middleware((argv) => {
       // Set config file path with proper precedence: CLI > Environment > Default
+      const source = argv['config'] ? 'CLI' : process.env.GJOB_CONFIG_FILE ? 'environment' : undefined;
       if (argv['config']) {
         // CLI option takes highest precedence
-        const configFilePath = path.resolve(argv['config'] as string);
-        configPath = configFilePath;
-        configDirectory = path.dirname(configFilePath);
-        log(`Using CLI config file: ${configPath}`);
-        log(`Config directory: ${configDirectory}`);
+        configPath = path.resolve(argv['config'] as string);
+        configDirectory = path.dirname(configPath);
       } else if (process.env.GJOB_CONFIG_FILE) {
         // Environment variable as fallback
         configPath = path.resolve(process.env.GJOB_CONFIG_FILE);
         configDirectory = path.dirname(configPath);
-        log(`Using environment config file: ${configPath}`);
-        log(`Config directory: ${configDirectory}`);
       }
       // If neither CLI nor environment variable is set, use default (already set above)
+      
+      // Memory, logs and history live in this config's workspace, so resolve it before logging anything
+      Workspace.configure(configPath, Workspace.readWorkspaceConfig(configPath));
+      configureLogging(readLoggingConfig());
+      if (source) {
+        // stderr, so output such as `gjob logs --json` or `gjob memory export` stays parseable
+        logToStderr(`Using ${source} config file: ${configPath}`);
+        logToStderr(`Config directory: ${configDirectory}`);
+      }
     })
     .command('setup', 'Run the interactive setup wizard', () => {}, async () => {
       const { spawn } = await import('child_process');
@@ -101,27 +447,93 @@ async function main() {
         }
       });
     })
-    .command('list', 'List all configured jobs', () => {}, async () => {
-      const config = await loadConfigurationQuietly();
+    .command('list', 'List all configured jobs',
+      (yargs) => {
+        return yargs.option('next', {
+          alias: 'n',
+          type: 'number',
+          default: 3,
+          description: 'Number of upcoming fire times to show per enabled job (0 to hide)'
+        });
+      },
+      async (argv) => {
+        const config = await loadConfigurationQuietly();
+        
+        console.log('\n📄 Configured Jobs\n' + '='.repeat(18));
+        if (config.jobs.length === 0) {
+          console.log('📇 No jobs configured. Run: gjob setup');
+          return;
+        }
+        const localTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        config.jobs.forEach((job: SimpleJobConfig) => {
+          const status = job.enabled ? '✅ enabled' : '⏸️  disabled';
+          const timezone = job.timezone || config.timezone;
+          const schedules = job.schedules?.length > 0 ? ` (${job.schedules.join(', ')}${timezone ? `, ${timezone}` : ''})` : ' (manual)';
+          console.log(`📋 ${job.jobName} - ${status}${schedules}`);
+          
+          if (!job.enabled || argv.next <= 0) {
+            return;
+          }
+          // Show each fire time in the job's timezone and, when that differs, in local time
+          let fireTime: Date | undefined = new Date();
+          for (let i = 0; i < argv.next && (fireTime = CronSchedule.nextFireTime(job.schedules || [], fireTime, timezone)); i++) {
+            const inJobZone = timezone && timezone !== localTimezone ? `${formatDateTime(fireTime, timezone)} ${timezone}, ` : '';
+            console.log(`     ⏰ ${inJobZone}${formatDateTime(fireTime)} local`);
+          }
+        });
+        console.log();
+      }
+    )
+    .command('validate', 'Validate config.json, cron schedules and context files', () => {}, async () => {
+      console.log(`\n🔍 Validating ${configPath}\n` + '='.repeat(14 + configPath.length));
       
-      console.log('\n📄 Configured Jobs\n' + '='.repeat(18));
-      if (config.jobs.length === 0) {
-        console.log('📇 No jobs configured. Run: gjob setup');
-        return;
+      if (!fs.existsSync(configPath)) {
+        cliError(`Config file not found: ${configPath}`);
+        process.exit(1);
       }
-      config.jobs.forEach((job: SimpleJobConfig) => {
-        const status = job.enabled ? '✅ enabled' : '⏸️  disabled';
-        const schedules = job.schedules?.length > 0 ? ` (${job.schedules.join(', ')})` : ' (manual)';
-        console.log(`📋 ${job.jobName} - ${status}${schedules}`);
-      });
+      
+      let config: unknown;
+      try {
+        config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      } catch (err: any) {
+        cliError(`Invalid JSON: ${err.message}`);
+        process.exit(1);
+      }
+      
+      const result = ConfigValidator.validateConfig(config, { configDir: configDirectory, checkContextFiles: true });
+      
+      result.errors.forEach(issue => console.log(`❌ ${issue.path}: ${issue.message}`));
+      result.warnings.forEach(issue => console.log(`⚠️  ${issue.path}: ${issue.message}`));
+      
+      if (result.errors.length > 0) {
+        console.log(`\n${result.errors.length} error(s), ${result.warnings.length} warning(s)\n`);
+        process.exit(1);
+      }
+      
+      const jobCount = (config as Config).jobs.length;
+      cliSuccess(`Configuration is valid (${jobCount} job(s), ${result.warnings.length} warning(s))`);
       console.log();
     })
     .command('run <jobName>', 'Run a specific job immediately', 
       (yargs) => {
-        return yargs.positional('jobName', {
-          describe: 'Name of the job to run',
-          type: 'string'
-        });
+        return yargs
+          .positional('jobName', {
+            describe: 'Name of the job to run',
+            type: 'string'
+          })
+          .option('pipeline', {
+            type: 'boolean',
+            description: 'Also run downstream jobs (onSuccess / dependsOn) after a successful run'
+          })
+          .option('dry-run', {
+            type: 'boolean',
+            description: 'Print the prompt that would be sent without calling Gemini or updating memory'
+          })
+          .option('output', {
+            alias: 'o',
+            type: 'string',
+            description: 'Save the prompt to a file instead of printing it (implies --dry-run)'
+          });
       }, 
       async (argv) => {
         const config = await loadConfigurationQuietly();
@@ -130,12 +542,65 @@ async function main() {
           job.jobName.toLowerCase() === (argv.jobName as string).toLowerCase()
         );
         
-        if (jobToRun) {
+        if (jobToRun && (argv.dryRun || argv.output)) {
+          const { prompt, sections } = await buildJobPrompt(jobToRun, configDirectory, {
+            memoryUpdateMode: jobToRun.memory?.updateMode ?? config.memory?.updateMode,
+            dryRun: true
+          });
+          const geminiOptions = { ...config.geminiOptions, ...jobToRun.geminiOptions };
+          const retryPolicy = resolveRetryPolicy(config.retry, jobToRun.retry);
+          const providerConfig = jobToRun.provider || config.provider;
+          const approxTokens = (text: string) => Math.ceil(text.length / 4);
+          
+          console.log(`\n🧪 Dry run: ${jobToRun.jobName} (Gemini is not called, memory is not modified)\n`);
+          console.log('Resolved options:');
+          console.log(`  provider: ${providerConfig?.type || 'gemini-cli'}${providerConfig?.command ? ` (${providerConfig.command})` : ''}`);
+          console.log(`  model: ${geminiOptions.model || process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL}`);
+          console.log(`  timeoutMs: ${geminiOptions.timeoutMs || DEFAULT_GEMINI_TIMEOUT_MS}`);
+          console.log(`  googleCloudProject: ${config.googleCloudProject || process.env.GOOGLE_CLOUD_PROJECT || '(not set)'}`);
+          console.log(`  retry: ${retryPolicy.maxAttempts} attempt(s), retryOn: ${retryPolicy.retryOn.join(', ')}`);
+          console.log(`  outputs: ${jobToRun.outputs?.map(output => output.path ? `${output.type}:${output.path}` : output.type).join(', ') || '(none)'}`);
+          
+          console.log('\nPrompt sections:');
+          sections.forEach(section => {
+            console.log(`  ${section.name.padEnd(40)} ${String(section.content.length).padStart(8)} chars  ~${approxTokens(section.content)} tokens`);
+          });
+          console.log(`  ${'total'.padEnd(40)} ${String(prompt.length).padStart(8)} chars  ~${approxTokens(prompt)} tokens`);
+          
+          if (argv.output) {
+            const outputPath = path.resolve(argv.output);
+            fs.writeFileSync(outputPath, prompt, 'utf8');
+            cliSuccess(`Prompt saved to ${outputPath}`);
+          } else {
+            sections.forEach(section => {
+              console.log(`\n───── BEGIN ${section.name} ─────`);
+              console.log(section.content);
+              console.log(`───── END ${section.name} ─────`);
+            });
+          }
+          console.log();
+        } else if (jobToRun) {
+          routeLogsForStdoutOutputs(argv.pipeline ? [jobToRun, ...config.jobs.filter((job: SimpleJobConfig) => job.enabled)] : [jobToRun]);
           logJobExecution(jobToRun.jobName, 'Starting manual job execution');
           console.log(`\n🚀 Running job: ${jobToRun.jobName}\n`);
           // Disable CLI mode for job execution to get detailed logs
           setCliMode(false);
-          await runTemplatedJob(jobToRun, configDirectory, config.geminiOptions, config.googleCloudProject);
+          try {
+            if (argv.pipeline) {
+              const scheduler = new JobScheduler((job, runContext) => {
+                return runTemplatedJob(job, configDirectory, config.geminiOptions, config.googleCloudProject, { ...runContext, notifications: config.notifications, retry: config.retry, provider: config.provider, memory: config.memory, timezone: config.timezone });
+              }, config.scheduler);
+              scheduler.setJobs(config.jobs);
+              activeScheduler = scheduler;
+              await scheduler.triggerJob(jobToRun, { trigger: 'manual' });
+            } else {
+              manualRun = runTemplatedJob(jobToRun, configDirectory, config.geminiOptions, config.googleCloudProject, { trigger: 'manual', signal: manualRunController.signal, notifications: config.notifications, retry: config.retry, provider: config.provider, memory: config.memory, timezone: config.timezone });
+              await manualRun;
+            }
+          } finally {
+            // Runs send notifications in the background; deliver them before the CLI exits
+            await Notifier.waitForPending();
+          }
           logJobExecution(jobToRun.jobName, 'Manual job execution completed');
         } else {
           console.log(`\n❌ Job not found: ${argv.jobName}`);
@@ -147,13 +612,31 @@ async function main() {
         }
       }
     )
-    .command('start', 'Start the job scheduler', () => {}, async () => {
-        const config = await loadConfigurationQuietly();
+    .command('start', 'Start the job scheduler',
+      (yargs) => {
+        return yargs
+          .option('watch', {
+            type: 'boolean',
+            default: true,
+            description: 'Reload config.json and context files when they change (disable with --no-watch)'
+          })
+          .option('api', {
+            type: 'boolean',
+            description: 'Start the local control API (overrides scheduler.api.enabled)'
+          })
+          .option('dashboard', {
+            type: 'boolean',
+            description: 'Serve the web dashboard (overrides scheduler.dashboard.enabled)'
+          });
+      },
+      async (argv) => {
+        let config = await loadConfigurationQuietly();
+        routeLogsForStdoutOutputs(config.jobs.filter((job: SimpleJobConfig) => job.enabled));
         
         console.log('\n🚀 Starting Gemini CLI Job Scheduler\n' + '='.repeat(36));
         console.log(`📁 Configuration: ${configPath}`);
         
-        if (config.jobs.length === 0) {
+        if (config.jobs.length === 0 && !argv.watch) {
           console.log('📝 No jobs configured. Run: gjob setup');
           return;
         }
@@ -164,25 +647,111 @@ async function main() {
         
         console.log(`\n📅 Scheduling ${scheduledJobs.length} job(s) (${enabledJobs.length} enabled, ${config.jobs.length} total):`);
         
+        // The executor reads `config` at run time, so reloaded global options apply to the next run
+        const scheduler = new JobScheduler(async (job, runContext) => {
+          const reason = runContext.trigger === 'pipeline' ? `after ${runContext.upstream?.jobName}`
+            : runContext.trigger === 'catch-up' ? `catch-up for ${runContext.scheduledFor}`
+            : runContext.schedule;
+          logJobExecution(job.jobName, `Starting scheduled execution (${reason})`);
+          console.log(`\n⏰ Executing scheduled job: ${job.jobName}`);
+          // Disable CLI mode for job execution
+          setCliMode(false);
+          try {
+            return await runTemplatedJob(job, configDirectory, config.geminiOptions, config.googleCloudProject, { ...runContext, notifications: config.notifications, retry: config.retry, provider: config.provider, memory: config.memory, timezone: config.timezone });
+          } finally {
+            setCliMode(true);
+            logJobExecution(job.jobName, 'Scheduled execution completed');
+          }
+        }, config.scheduler);
+        activeScheduler = scheduler;
+        
+        scheduler.setTimezone(config.timezone);
+        if (config.timezone) {
+          console.log(`🌍 Timezone: ${config.timezone}`);
+        }
+        if (config.scheduler?.maxConcurrentJobs) {
+          console.log(`🔒 Max concurrent jobs: ${config.scheduler.maxConcurrentJobs}`);
+        }
+        
         // Schedule jobs
         enabledJobs.forEach((job: SimpleJobConfig) => {
-          const schedulesList = job.schedules?.join(', ') || 'manual';
-          console.log(`📋 ${job.jobName}: ${schedulesList}`);
-          
-          if (job.schedules && job.schedules.length > 0) {
-            job.schedules.forEach((schedule: string) => {
-              cron.schedule(schedule, async () => {
-                logJobExecution(job.jobName, `Starting scheduled execution (${schedule})`);
-                console.log(`\n⏰ Executing scheduled job: ${job.jobName}`);
-                // Disable CLI mode for job execution
-                setCliMode(false);
-                await runTemplatedJob(job, configDirectory, config.geminiOptions, config.googleCloudProject);
-                setCliMode(true);
-                logJobExecution(job.jobName, 'Scheduled execution completed');
-              });
-            });
-          }
+          const schedulesList = job.schedules?.length > 0
+            ? `${job.schedules.join(', ')}${job.timezone && job.timezone !== config.timezone ? ` (${job.timezone})` : ''}`
+            : 'manual';
+          const downstream = JobPipeline.getDownstreamJobNames(job.jobName, config.jobs);
+          console.log(`📋 ${job.jobName}: ${schedulesList}${downstream.length > 0 ? ` → ${downstream.join(', ')}` : ''}`);
         });
+        const catchUpPlans = scheduler.scheduleJobs(config.jobs);
+        catchUpPlans.forEach(plan => {
+          console.log(plan.runs.length > 0
+            ? `⏪ ${plan.jobName}: missed ${plan.missed} run(s) while stopped, catching up ${plan.runs.length} (${plan.policy})`
+            : `⏭️  ${plan.jobName}: missed ${plan.missed} run(s) while stopped (catchUp: none)`);
+        });
+        
+        const apiConfig = config.scheduler?.api || {};
+        if (argv.api ?? apiConfig.enabled) {
+          const controlServer = new ControlServer(scheduler, apiConfig, {
+            tokenFile: path.join(Workspace.getPaths().root, 'api-token'),
+            getGlobalMemoryConfig: () => config.memory
+          });
+          try {
+            const address = await controlServer.start(configDirectory);
+            console.log(`🌐 Control API listening on ${address}`);
+            console.log(`🔑 Token: ${process.env.GJOB_API_TOKEN ? 'GJOB_API_TOKEN' : apiConfig.token ? 'scheduler.api.token' : path.join(Workspace.getPaths().root, 'api-token')}`);
+          } catch (err: any) {
+            error(`Control API failed to start: ${err.message}`);
+            console.log(`❌ Control API failed to start: ${err.message}`);
+          }
+        }
+        
+        const dashboardConfig = config.scheduler?.dashboard || {};
+        if (argv.dashboard ?? dashboardConfig.enabled) {
+          const dashboard = new DashboardServer({
+            getJobs: () => scheduler.getJobs(),
+            getTimezone: (job) => scheduler.getTimezone(job),
+            getActiveRuns: () => scheduler.getActiveRuns()
+          }, dashboardConfig);
+          try {
+            console.log(`📊 Dashboard: ${await dashboard.start()}`);
+          } catch (err: any) {
+            error(`Dashboard failed to start: ${err.message}`);
+            console.log(`❌ Dashboard failed to start: ${err.message}`);
+          }
+        }
+        
+        if (argv.watch) {
+          const watcher = new ConfigWatcher((changedFiles) => {
+            log(`Detected changes in: ${changedFiles.join(', ')}`);
+            
+            let newConfig: Config;
+            try {
+              if (!fs.existsSync(configPath)) {
+                throw new Error(`Config file not found: ${configPath}`);
+              }
+              newConfig = parseConfiguration(fs.readFileSync(configPath, 'utf8'), true);
+            } catch (err: any) {
+              error(`Config reload rejected, keeping current configuration: ${err.message}`);
+              return;
+            }
+            
+            scheduler.setTimezone(newConfig.timezone);
+            const changes = scheduler.updateJobs(newConfig.jobs);
+            scheduler.setConfig(newConfig.scheduler);
+            configureLogging(newConfig.logging);
+            routeLogsForStdoutOutputs(newConfig.jobs.filter((job: SimpleJobConfig) => job.enabled));
+            config = newConfig;
+            watcher.setWatchedFiles(getWatchedConfigFiles(config));
+            
+            const summary = [
+              changes.added.length > 0 ? `added: ${changes.added.join(', ')}` : '',
+              changes.removed.length > 0 ? `removed: ${changes.removed.join(', ')}` : '',
+              changes.rescheduled.length > 0 ? `rescheduled: ${changes.rescheduled.join(', ')}` : ''
+            ].filter(Boolean).join('; ');
+            log(`Configuration reloaded${summary ? ` (${summary})` : ' (no schedule changes)'}`);
+          });
+          watcher.setWatchedFiles(getWatchedConfigFiles(config));
+          console.log('👀 Watching config and context files for changes');
+        }
         
         console.log('\n✅ Scheduler started. Press Ctrl+C to stop.\n');
         
@@ -190,6 +759,123 @@ async function main() {
         process.stdin.resume();
       }
     )
+    .command('dashboard', 'Serve a read-only web dashboard of jobs, runs, results and memory',
+      (yargs) => {
+        return yargs
+          .option('host', {
+            type: 'string',
+            description: 'Address to bind (default: scheduler.dashboard.host or 127.0.0.1)'
+          })
+          .option('port', {
+            alias: 'p',
+            type: 'number',
+            description: `Port to listen on (default: scheduler.dashboard.port or ${DEFAULT_DASHBOARD_PORT})`
+          });
+      },
+      async (argv) => {
+        let config = await loadConfigurationQuietly();
+        let configMtime = fs.statSync(configPath).mtimeMs;
+        
+        // Re-read config.json when it changes so the job list stays current; keep the last valid one on errors
+        const getJobs = (): SimpleJobConfig[] => {
+          try {
+            const mtime = fs.statSync(configPath).mtimeMs;
+            if (mtime !== configMtime) {
+              configMtime = mtime;
+              config = parseConfiguration(fs.readFileSync(configPath, 'utf8'));
+            }
+          } catch (err: any) {
+            warn(`Dashboard keeps the previous configuration: ${err.message}`);
+          }
+          return config.jobs;
+        };
+        
+        const dashboard = new DashboardServer({ getJobs, getTimezone: (job) => job.timezone || config.timezone }, {
+          ...config.scheduler?.dashboard,
+          ...(argv.host !== undefined ? { host: argv.host } : {}),
+          ...(argv.port !== undefined ? { port: argv.port } : {})
+        });
+        try {
+          const url = await dashboard.start();
+          cliSuccess(`Dashboard running at ${url}`);
+          cliInfo('Press Ctrl+C to stop.');
+        } catch (err: any) {
+          cliError(`Failed to start dashboard: ${err.message}`);
+          process.exit(1);
+        }
+      }
+    )
+    .command('history [jobName]', 'Show past job runs',
+      (yargs) => {
+        return yargs
+          .positional('jobName', {
+            describe: 'Only show runs of this job',
+            type: 'string'
+          })
+          .option('status', {
+            type: 'string',
+            choices: ['success', 'failure', 'timeout', 'cancelled', 'skipped'],
+            description: 'Only show runs with this status'
+          })
+          .option('since', {
+            type: 'string',
+            description: 'Only show runs started on or after this time (e.g. 2025-09-01, 2025-09-01T10:00, 30m, 2h, 7d)'
+          })
+          .option('until', {
+            type: 'string',
+            description: 'Only show runs started on or before this time (a date includes the whole day)'
+          })
+          .option('limit', {
+            type: 'number',
+            default: 20,
+            description: 'Maximum number of runs to show'
+          })
+          .option('json', {
+            type: 'boolean',
+            description: 'Output runs as JSON'
+          });
+      },
+      async (argv) => {
+        const jobName = argv.jobName && resolveJobName(argv.jobName);
+        const runs = RunHistory.loadRuns({
+          jobName,
+          status: argv.status as RunStatus | undefined,
+          since: readTimeOption(argv.since, 'since'),
+          until: readTimeOption(argv.until, 'until'),
+          limit: argv.limit
+        });
+
+        if (argv.json) {
+          console.log(JSON.stringify(runs, null, 2));
+          return;
+        }
+
+        console.log(`\n📜 Run History${jobName ? ` (${jobName})` : ''}\n` + '='.repeat(13));
+        if (runs.length === 0) {
+          console.log('No runs found.');
+          console.log();
+          return;
+        }
+
+        const statusIcons: Record<RunStatus, string> = {
+          success: '✅',
+          failure: '❌',
+          timeout: '⏱️ ',
+          cancelled: '🛑',
+          skipped: '⏭️ '
+        };
+        runs.forEach((run) => {
+          const duration = `${(run.durationMs / 1000).toFixed(1)}s`;
+          const attempts = run.attempts && run.attempts > 1 ? `${run.attempts} attempts` : undefined;
+          const details = [run.trigger, duration, run.model, run.responseType, attempts].filter(Boolean).join(', ');
+          console.log(`${statusIcons[run.status]} ${run.startTime}  ${run.jobName}  [${run.runId}] (${details})`);
+          if (run.error) {
+            console.log(`     ${run.error.split('\n')[0]}`);
+          }
+        });
+        console.log();
+      }
+    )
     .command(
       'memory',
       'Manage job memory',
@@ -199,30 +885,25 @@ async function main() {
             'list',
             'List all jobs with memory',
             {},
-            async () => {
+            () => {
               try {
-                const memoryDir = JobMemory.getMemoryDirectory();
-                const fs = await import('fs');
-                const path = await import('path');
-                
-                if (!fs.existsSync(memoryDir)) {
-                  console.log('No job memories found.');
-                  return;
-                }
-                
-                const files = fs.readdirSync(memoryDir).filter(file => file.endsWith('.json'));
+                const jobNames = JobMemory.listJobsWithMemory();
                 
-                if (files.length === 0) {
+                if (jobNames.length === 0) {
                   console.log('No job memories found.');
                   return;
                 }
                 
                 console.log('\n📝 Jobs with memory:');
-                for (const file of files) {
-                  const jobName = path.basename(file, '.json');
-                  const filePath = path.join(memoryDir, file);
-                  const stats = fs.statSync(filePath);
-                  console.log(`  ${jobName} (last modified: ${stats.mtime.toLocaleDateString()})`);
+                for (const jobName of jobNames) {
+                  const stats = fs.statSync(JobMemory.getMemoryFilePathForJob(jobName));
+                  let keyCount = '?';
+                  try {
+                    keyCount = String(Object.keys(JobMemory.readJobMemory(jobName) || {}).filter(key => key !== '_metadata').length);
+                  } catch {
+                    keyCount = 'unreadable';
+                  }
+                  console.log(`  ${jobName} (${keyCount} keys, last modified: ${stats.mtime.toLocaleString()})`);
                 }
                 console.log();
               } catch (err: any) {
@@ -235,26 +916,36 @@ async function main() {
             'show <jobName>',
             'Show memory content for a specific job',
             (yargs) => {
-              return yargs.positional('jobName', {
-                describe: 'Name of the job to show memory for',
-                type: 'string',
-                demandOption: true
-              });
+              return yargs
+                .positional('jobName', {
+                  describe: 'Name of the job to show memory for',
+                  type: 'string',
+                  demandOption: true
+                })
+                .option('json', {
+                  type: 'boolean',
+                  description: 'Print the raw memory file as JSON'
+                });
             },
-            async (argv) => {
+            (argv) => {
               try {
-                const memory = await JobMemory.loadJobMemory(argv.jobName);
+                const memory = JobMemory.readJobMemory(argv.jobName);
                 
-                if (Object.keys(memory).length === 0) {
+                if (!memory) {
                   console.log(`No memory found for job: ${argv.jobName}`);
                   return;
                 }
                 
+                if (argv.json) {
+                  console.log(JSON.stringify(memory, null, 2));
+                  return;
+                }
+                
                 console.log(`\n📋 Memory for job: ${argv.jobName}`);
                 console.log('─'.repeat(40));
                 
                 for (const [key, value] of Object.entries(memory)) {
-                  console.log(`${key}: ${value}`);
+                  console.log(`${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
                 }
                 console.log();
               } catch (err: any) {
@@ -273,32 +964,742 @@ async function main() {
                 demandOption: true
               });
             },
+            async (argv) => {
+              if (!JobMemory.hasJobMemory(argv.jobName)) {
+                console.log(`No memory found for job: ${argv.jobName}`);
+                return;
+              }
+              
+              await JobMemory.clearJobMemory(argv.jobName);
+              if (JobMemory.hasJobMemory(argv.jobName)) {
+                console.error(`❌ Failed to clear memory for job: ${argv.jobName}`);
+                process.exit(1);
+              }
+              console.log(`✅ Memory cleared for job: ${argv.jobName} (restore with 'gjob memory rollback')`);
+            }
+          )
+          .command(
+            'set <jobName> <assignments..>',
+            'Set memory values (key=value, values are parsed as JSON when possible)',
+            (yargs) => {
+              return yargs
+                .positional('jobName', {
+                  describe: 'Name of the job',
+                  type: 'string',
+                  demandOption: true
+                })
+                .positional('assignments', {
+                  describe: 'One or more key=value pairs, e.g. lastProcessedVersion=v1.2.3 count=5 tags=\'["a","b"]\'',
+                  type: 'string',
+                  array: true,
+                  demandOption: true
+                });
+            },
             async (argv) => {
               try {
-                const fs = await import('fs');
-                const path = await import('path');
-                const memoryDir = JobMemory.getMemoryDirectory();
-                const memoryFile = path.join(memoryDir, `${argv.jobName}.json`);
-                
-                if (fs.existsSync(memoryFile)) {
-                  fs.unlinkSync(memoryFile);
-                  console.log(`✅ Memory cleared for job: ${argv.jobName}`);
-                } else {
-                  console.log(`No memory found for job: ${argv.jobName}`);
+                const updates: Record<string, any> = {};
+                for (const assignment of argv.assignments as string[]) {
+                  const separator = assignment.indexOf('=');
+                  if (separator <= 0) {
+                    throw new Error(`Invalid assignment "${assignment}", expected key=value`);
+                  }
+                  const key = assignment.slice(0, separator);
+                  if (key === '_metadata') {
+                    throw new Error('_metadata is managed automatically and cannot be set');
+                  }
+                  updates[key] = parseMemoryValue(assignment.slice(separator + 1));
                 }
+                
+                await JobMemory.updateJobMemory(argv.jobName, updates);
+                JobMemory.snapshotJobMemory(argv.jobName, { reason: 'memory set', historyLimit: getMemoryHistoryLimit(argv.jobName) });
+                Object.entries(updates).forEach(([key, value]) => console.log(value === null ? `  ${key} (removed)` : `  ${key} = ${JSON.stringify(value)}`));
+                console.log(`✅ Updated ${Object.keys(updates).length} key(s) for job: ${argv.jobName}`);
               } catch (err: any) {
-                error(`Failed to clear memory for job ${argv.jobName}:`, err.message);
+                console.error(`❌ ${err.message}`);
                 process.exit(1);
               }
             }
           )
-          .demandCommand(1, 'You need to specify a memory command')
-          .help();
-      }
-    )
+          .command(
+            'unset <jobName> <keys..>',
+            'Remove keys from a job\'s memory',
+            (yargs) => {
+              return yargs
+                .positional('jobName', {
+                  describe: 'Name of the job',
+                  type: 'string',
+                  demandOption: true
+                })
+                .positional('keys', {
+                  describe: 'Keys to remove',
+                  type: 'string',
+                  array: true,
+                  demandOption: true
+                });
+            },
+            async (argv) => {
+              try {
+                const keys = argv.keys as string[];
+                const removed = await JobMemory.unsetJobMemoryKeys(argv.jobName, keys);
+                const missing = keys.filter(key => !removed.includes(key));
+                if (missing.length > 0) {
+                  console.log(`ℹ️  Not present: ${missing.join(', ')}`);
+                }
+                if (removed.length > 0) {
+                  JobMemory.snapshotJobMemory(argv.jobName, { reason: 'memory unset', historyLimit: getMemoryHistoryLimit(argv.jobName) });
+                  console.log(`✅ Removed ${removed.join(', ')} from job: ${argv.jobName}`);
+                }
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'edit <jobName>',
+            'Edit a job\'s memory in $VISUAL / $EDITOR',
+            (yargs) => {
+              return yargs.positional('jobName', {
+                describe: 'Name of the job',
+                type: 'string',
+                demandOption: true
+              });
+            },
+            async (argv) => {
+              const { spawnSync } = await import('child_process');
+              const readline = await import('readline');
+              const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+              const current = JobMemory.readJobMemory(argv.jobName) || {};
+              const { _metadata, ...editable } = current;
+              const originalContent = JSON.stringify(editable, null, 2) + '\n';
+              // Private directory with an unpredictable name: the file holds the job's memory
+              const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-memory-'));
+              const tempFile = path.join(tempDir, `${argv.jobName.replace(/[^a-zA-Z0-9-_]/g, '_')}.json`);
+              fs.writeFileSync(tempFile, originalContent, { mode: 0o600 });
+              // Edits that couldn't be saved stay in the temp file for the user to recover
+              let keepEdits = false;
+              
+              const askToRetry = (message: string): Promise<boolean> => {
+                if (!process.stdin.isTTY) {
+                  return Promise.resolve(false);
+                }
+                const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+                return new Promise(resolve => rl.question(`${message} Re-open the editor? [Y/n] `, answer => {
+                  rl.close();
+                  resolve(!/^n/i.test(answer.trim()));
+                }));
+              };
+              
+              const editLoop = async (): Promise<void> => {
+                for (;;) {
+                  const result = spawnSync(`${editor} "${tempFile}"`, { stdio: 'inherit', shell: true });
+                  if (result.status !== 0) {
+                    throw new Error(`Editor "${editor}" exited with code ${result.status}`);
+                  }
+                  
+                  const content = fs.readFileSync(tempFile, 'utf8');
+                  if (content === originalContent) {
+                    console.log('No changes made.');
+                    return;
+                  }
+                  
+                  let edited: any;
+                  try {
+                    edited = JSON.parse(content);
+                    if (typeof edited !== 'object' || edited === null || Array.isArray(edited)) {
+                      throw new Error('memory must be a JSON object');
+                    }
+                  } catch (parseError: any) {
+                    if (await askToRetry(`❌ Invalid memory: ${parseError.message}.`)) {
+                      continue;
+                    }
+                    keepEdits = true;
+                    throw new Error(`Memory not saved (invalid JSON). Your edits are kept in ${tempFile}`);
+                  }
+                  
+                  delete edited._metadata;
+                  JobMemory.snapshotJobMemory(argv.jobName, { reason: 'before edit', historyLimit: getMemoryHistoryLimit(argv.jobName) });
+                  // Only the edited keys are written, so changes made by runs during the edit are kept
+                  const changes = await JobMemory.applyMemoryEdit(argv.jobName, editable, edited).catch((conflictError: Error) => {
+                    keepEdits = true;
+                    throw new Error(`${conflictError.message}. Memory not saved; your edits are kept in ${tempFile}`);
+                  });
+                  JobMemory.snapshotJobMemory(argv.jobName, { reason: 'memory edit', historyLimit: getMemoryHistoryLimit(argv.jobName) });
+                  console.log(`✅ Memory saved for job: ${argv.jobName} (${changes.length} key(s) changed)`);
+                  return;
+                }
+              };
+              
+              try {
+                try {
+                  await editLoop();
+                } finally {
+                  if (!keepEdits) {
+                    fs.rmSync(tempDir, { recursive: true, force: true });
+                  }
+                }
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'export [jobNames..]',
+            'Export job memory as JSON (all jobs by default)',
+            (yargs) => {
+              return yargs
+                .positional('jobNames', {
+                  describe: 'Jobs to export',
+                  type: 'string',
+                  array: true
+                })
+                .option('output', {
+                  alias: 'o',
+                  type: 'string',
+                  description: 'Write to a file instead of stdout'
+                });
+            },
+            (argv) => {
+              try {
+                const jobNames = (argv.jobNames as string[] | undefined)?.length ? argv.jobNames as string[] : JobMemory.listJobsWithMemory();
+                const jobs: Record<string, Record<string, any>> = {};
+                for (const jobName of jobNames) {
+                  const memory = JobMemory.readJobMemory(jobName);
+                  if (!memory) {
+                    throw new Error(`No memory found for job: ${jobName}`);
+                  }
+                  const { _metadata, ...values } = memory;
+                  jobs[jobName] = values;
+                }
+                
+                const exported = { format: MEMORY_EXPORT_FORMAT, version: 1, exportedAt: new Date().toISOString(), jobs };
+                const content = JSON.stringify(exported, null, 2) + '\n';
+                if (argv.output) {
+                  fs.writeFileSync(argv.output, content);
+                  console.log(`✅ Exported memory for ${Object.keys(jobs).length} job(s) to ${argv.output}`);
+                } else {
+                  process.stdout.write(content);
+                }
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'import <file>',
+            'Import job memory from an export file (or a plain memory object with --job)',
+            (yargs) => {
+              return yargs
+                .positional('file', {
+                  describe: 'File created by `gjob memory export`',
+                  type: 'string',
+                  demandOption: true
+                })
+                .option('job', {
+                  type: 'string',
+                  description: 'Only import this job; required when the file is a plain memory object'
+                })
+                .option('merge', {
+                  type: 'boolean',
+                  description: 'Merge into existing memory instead of replacing it'
+                });
+            },
+            async (argv) => {
+              try {
+                const data = JSON.parse(fs.readFileSync(argv.file, 'utf8'));
+                if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+                  throw new Error('Import file must contain a JSON object');
+                }
+                
+                let jobs: Record<string, Record<string, any>>;
+                if (data.format === MEMORY_EXPORT_FORMAT) {
+                  jobs = data.jobs || {};
+                  if (argv.job) {
+                    if (!jobs[argv.job]) {
+                      throw new Error(`Job ${argv.job} not found in ${argv.file} (contains: ${Object.keys(jobs).join(', ') || 'none'})`);
+                    }
+                    jobs = { [argv.job]: jobs[argv.job] };
+                  }
+                } else if (argv.job) {
+                  jobs = { [argv.job]: data };
+                } else {
+                  throw new Error('Not a gjob memory export; use --job <name> to import a plain memory object');
+                }
+                
+                for (const [jobName, values] of Object.entries(jobs)) {
+                  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+                    throw new Error(`Memory for job ${jobName} must be a JSON object`);
+                  }
+                  const historyLimit = getMemoryHistoryLimit(jobName);
+                  const { _metadata: importedMetadata, ...imported } = values;
+                  JobMemory.snapshotJobMemory(jobName, { reason: 'before import', historyLimit });
+                  await JobMemory.updateJobMemory(jobName, imported, argv.merge ? 'merge' : 'replace');
+                  JobMemory.snapshotJobMemory(jobName, { reason: argv.merge ? 'memory import (merge)' : 'memory import', historyLimit });
+                  console.log(`  ${jobName}: ${Object.keys(imported).length} key(s)`);
+                }
+                console.log(`✅ Imported memory for ${Object.keys(jobs).length} job(s)${argv.merge ? ' (merged)' : ''}`);
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'history <jobName>',
+            'List stored memory revisions for a job',
+            (yargs) => {
+              return yargs.positional('jobName', {
+                describe: 'Name of the job',
+                type: 'string',
+                demandOption: true
+              });
+            },
+            (argv) => {
+              const revisions = JobMemory.listMemoryRevisions(argv.jobName);
+              if (revisions.length === 0) {
+                console.log(`No memory revisions found for job: ${argv.jobName}`);
+                return;
+              }
+              
+              console.log(`\n🕘 Memory revisions for job: ${argv.jobName} (newest first)`);
+              console.log('─'.repeat(60));
+              revisions.forEach((revision, index) => {
+                const previous = revisions[index + 1];
+                const changes = previous ? JobMemory.diffMemory(previous.memory, revision.memory) : [];
+                const counts = ['added', 'changed', 'removed']
+                  .map(type => [type, changes.filter(change => change.type === type).length] as const)
+                  .filter(([, count]) => count > 0)
+                  .map(([type, count]) => `${type === 'added' ? '+' : type === 'removed' ? '-' : '~'}${count}`)
+                  .join(' ');
+                const keyCount = Object.keys(revision.memory).filter(key => key !== '_metadata').length;
+                const run = revision.runId ? ` [${revision.runId}]` : '';
+                console.log(`#${String(revision.revision).padEnd(5)} ${revision.savedAt}  ${revision.reason}${run}  (${keyCount} keys${counts ? `, ${counts}` : ''})`);
+              });
+              console.log();
+            }
+          )
+          .command(
+            'diff <jobName> [revA] [revB]',
+            'Show memory changes between two revisions (defaults: previous revision → current memory)',
+            (yargs) => {
+              return yargs
+                .positional('jobName', {
+                  describe: 'Name of the job',
+                  type: 'string',
+                  demandOption: true
+                })
+                .positional('revA', {
+                  describe: 'Older revision number, or "current"',
+                  type: 'string'
+                })
+                .positional('revB', {
+                  describe: 'Newer revision number, or "current" (default)',
+                  type: 'string'
+                });
+            },
+            async (argv) => {
+              const revisions = JobMemory.listMemoryRevisions(argv.jobName);
+              const resolveState = async (rev: string): Promise<{ label: string; memory: Record<string, any> }> => {
+                if (rev === 'current') {
+                  return { label: 'current', memory: await JobMemory.loadJobMemory(argv.jobName, { readOnly: true }) };
+                }
+                const revision = JobMemory.loadMemoryRevision(argv.jobName, parseInt(rev.replace(/^#/, ''), 10));
+                if (!revision) {
+                  throw new Error(`Memory revision ${rev} not found for job: ${argv.jobName}`);
+                }
+                return { label: `#${revision.revision}`, memory: revision.memory };
+              };
+              
+              try {
+                // Default to the change introduced by the latest revision
+                const defaultRevA = revisions[1] ? String(revisions[1].revision) : revisions[0] ? String(revisions[0].revision) : undefined;
+                if (!argv.revA && !defaultRevA) {
+                  console.log(`No memory revisions found for job: ${argv.jobName}`);
+                  return;
+                }
+                const before = await resolveState(argv.revA || defaultRevA!);
+                const after = await resolveState(argv.revB || 'current');
+                const changes = JobMemory.diffMemory(before.memory, after.memory);
+                
+                console.log(`\n🔍 Memory diff for ${argv.jobName}: ${before.label} → ${after.label}`);
+                console.log('─'.repeat(60));
+                if (changes.length === 0) {
+                  console.log('No differences.');
+                }
+                changes.forEach(change => {
+                  if (change.type === 'added') {
+                    console.log(`+ ${change.key}: ${JSON.stringify(change.after)}`);
+                  } else if (change.type === 'removed') {
+                    console.log(`- ${change.key}: ${JSON.stringify(change.before)}`);
+                  } else {
+                    console.log(`~ ${change.key}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`);
+                  }
+                });
+                console.log();
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'rollback <jobName> <revision>',
+            'Restore job memory from a stored revision',
+            (yargs) => {
+              return yargs
+                .positional('jobName', {
+                  describe: 'Name of the job',
+                  type: 'string',
+                  demandOption: true
+                })
+                .positional('revision', {
+                  describe: 'Revision number to restore (see `gjob memory history`)',
+                  type: 'string',
+                  demandOption: true
+                });
+            },
+            async (argv) => {
+              try {
+                const historyLimit = getMemoryHistoryLimit(argv.jobName);
+                const revisionNumber = parseInt(argv.revision.replace(/^#/, ''), 10);
+                const restored: MemoryRevision = await JobMemory.rollbackJobMemory(argv.jobName, revisionNumber, historyLimit);
+                console.log(`✅ Memory for job ${argv.jobName} restored to revision #${restored.revision} (${restored.savedAt})`);
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .demandCommand(1, 'You need to specify a memory command')
+          .help();
+      }
+    )
+    .command(
+      'workspace',
+      'Show where job state is stored',
+      (yargs) => {
+        return yargs
+          .command(
+            'info',
+            'Show the resolved workspace locations',
+            (yargs) => {
+              return yargs.option('json', {
+                type: 'boolean',
+                description: 'Output the locations as JSON'
+              });
+            },
+            (argv) => {
+              const paths = Workspace.getPaths();
+              const configured = Workspace.readWorkspaceConfig(configPath) || {};
+              if (argv.json) {
+                console.log(JSON.stringify(paths, null, 2));
+                return;
+              }
+              
+              const rows: Array<[string, string, keyof WorkspaceConfig | undefined]> = [
+                ['Config file', paths.configFile, undefined],
+                ['Workspace root', paths.root, 'dir'],
+                ['Memory', paths.memoryDir, 'memoryDir'],
+                ['Logs', paths.logDir, 'logDir'],
+                ['Run history', paths.historyDir, 'historyDir'],
+                ['Context', paths.contextDir, 'contextDir']
+              ];
+              console.log('\n🗂️  Workspace\n' + '='.repeat(13));
+              rows.forEach(([label, location, key]) => {
+                const exists = fs.existsSync(location) ? '' : ' (not created yet)';
+                const origin = key && configured[key] ? ` ← workspace.${key}` : '';
+                console.log(`  ${label.padEnd(15)} ${location}${exists}${origin}`);
+              });
+              console.log();
+            }
+          )
+          .demandCommand(1, 'You need to specify a workspace command')
+          .help();
+      }
+    )
+    .command(
+      'job',
+      'Add, change and remove jobs in config.json',
+      (yargs) => {
+        return yargs
+          .command(
+            'add <jobName>',
+            'Add a new job',
+            (yargs) => {
+              return withJobFieldOptions(yargs)
+                .positional('jobName', {
+                  describe: 'Name of the new job',
+                  type: 'string',
+                  demandOption: true
+                })
+                .option('disabled', {
+                  type: 'boolean',
+                  description: 'Add the job disabled'
+                });
+            },
+            (argv) => {
+              try {
+                if (!argv.context && !argv.prompt) {
+                  throw new Error('A job needs --context files, a --prompt, or both');
+                }
+                editConfiguration((editor, config) => {
+                  if (config.jobs.some(job => job.jobName.toLowerCase() === argv.jobName.toLowerCase())) {
+                    throw new Error(`Job already exists: ${argv.jobName}`);
+                  }
+                  const job: any = {
+                    jobName: argv.jobName,
+                    enabled: !argv.disabled,
+                    schedules: [],
+                    promptConfig: { contextFiles: [] }
+                  };
+                  for (const [jobPath, value] of getJobFieldChanges(argv)) {
+                    let parent = job;
+                    jobPath.slice(0, -1).forEach(key => { parent = parent[key] = parent[key] || {}; });
+                    parent[jobPath[jobPath.length - 1]] = value;
+                  }
+                  editor.append(['jobs'], job);
+                });
+                console.log(`✅ Added job: ${argv.jobName}${argv.disabled ? ' (disabled)' : ''}`);
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'update <jobName>',
+            'Change the schedules, context, prompt, model, timeout or timezone of a job',
+            (yargs) => {
+              return withJobFieldOptions(yargs).positional('jobName', {
+                describe: 'Name of the job',
+                type: 'string',
+                demandOption: true
+              });
+            },
+            (argv) => {
+              try {
+                const changes = getJobFieldChanges(argv);
+                if (changes.length === 0) {
+                  throw new Error('Nothing to update; see gjob job update --help');
+                }
+                let jobName = argv.jobName;
+                editConfiguration((editor, config) => {
+                  const index = findJobIndex(config, argv.jobName);
+                  jobName = config.jobs[index].jobName;
+                  for (const [jobPath, value] of changes) {
+                    setJobValue(editor, index, editor.getValue().jobs[index], jobPath, value);
+                  }
+                });
+                console.log(`✅ Updated job: ${jobName}`);
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'enable <jobName>',
+            'Enable a job',
+            (yargs) => {
+              return yargs.positional('jobName', {
+                describe: 'Name of the job',
+                type: 'string',
+                demandOption: true
+              });
+            },
+            (argv) => setJobEnabled(argv.jobName, true)
+          )
+          .command(
+            'disable <jobName>',
+            'Disable a job, keeping its configuration and memory',
+            (yargs) => {
+              return yargs.positional('jobName', {
+                describe: 'Name of the job',
+                type: 'string',
+                demandOption: true
+              });
+            },
+            (argv) => setJobEnabled(argv.jobName, false)
+          )
+          .command(
+            'remove <jobName>',
+            'Remove a job',
+            (yargs) => {
+              return yargs
+                .positional('jobName', {
+                  describe: 'Name of the job',
+                  type: 'string',
+                  demandOption: true
+                })
+                .option('delete-memory', {
+                  type: 'boolean',
+                  description: 'Also clear the job memory (restorable with gjob memory rollback)'
+                })
+                .option('remove-references', {
+                  type: 'boolean',
+                  description: 'Also remove the job from other jobs\' onSuccess, dependsOn and inputs'
+                });
+            },
+            async (argv) => {
+              try {
+                let jobName = argv.jobName;
+                const references: string[] = [];
+                editConfiguration((editor, config) => {
+                  const index = findJobIndex(config, argv.jobName);
+                  jobName = config.jobs[index].jobName;
+                  const otherReferences = findJobReferences(config, jobName).filter(reference => reference.path[1] !== index);
+                  const referencingFields = [...new Set(otherReferences.map(reference => `${reference.jobName}.${reference.field}`))];
+                  if (otherReferences.length > 0 && !argv.removeReferences) {
+                    throw new Error(`Job ${jobName} is used by: ${referencingFields.join(', ')}. Remove those references first, or pass --remove-references`);
+                  }
+                  // Last to first, so earlier indexes in the same array stay valid
+                  otherReferences.reverse().forEach(reference => editor.remove(reference.path));
+                  references.push(...referencingFields);
+                  editor.remove(['jobs', index]);
+                });
+                console.log(`✅ Removed job: ${jobName}`);
+                if (references.length > 0) {
+                  console.log(`🔗 Removed references in: ${references.join(', ')}`);
+                }
+                
+                if (argv.deleteMemory && JobMemory.hasJobMemory(jobName)) {
+                  await JobMemory.clearJobMemory(jobName);
+                  console.log(`🧠 Cleared memory for job: ${jobName}`);
+                } else if (JobMemory.hasJobMemory(jobName)) {
+                  console.log(`💡 Memory kept; remove it with: gjob memory clear ${jobName}`);
+                }
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'rename <jobName> <newName>',
+            'Rename a job, updating pipeline references and moving its memory',
+            (yargs) => {
+              return yargs
+                .positional('jobName', {
+                  describe: 'Current name of the job',
+                  type: 'string',
+                  demandOption: true
+                })
+                .positional('newName', {
+                  describe: 'New name of the job',
+                  type: 'string',
+                  demandOption: true
+                });
+            },
+            async (argv) => {
+              try {
+                let oldName = argv.jobName;
+                const references: string[] = [];
+                const { save } = prepareConfigEdit((editor, config) => {
+                  const index = findJobIndex(config, argv.jobName);
+                  oldName = config.jobs[index].jobName;
+                  if (config.jobs.some((job, other) => other !== index && job.jobName.toLowerCase() === argv.newName.toLowerCase())) {
+                    throw new Error(`Job already exists: ${argv.newName}`);
+                  }
+                  // Checked before anything moves, so a name with its own state is refused up front
+                  JobMemory.assertCanRenameJobMemory(oldName, argv.newName);
+                  RunHistory.assertCanRenameJob(oldName, argv.newName);
+                  editor.set(['jobs', index, 'jobName'], argv.newName);
+                  
+                  // Pipelines refer to jobs by name
+                  findJobReferences(config, oldName).forEach(reference => {
+                    editor.set(reference.field === 'promptConfig.inputs' ? [...reference.path, 'job'] : reference.path, argv.newName);
+                    references.push(`${reference.jobName}.${reference.field}`);
+                  });
+                });
+                
+                // Move the job's state before saving the config; on failure, put back what was moved,
+                // so the config and the state never end up under different names
+                const movedMemory = await JobMemory.renameJobMemory(oldName, argv.newName);
+                let movedHistory = false;
+                try {
+                  movedHistory = RunHistory.renameJob(oldName, argv.newName);
+                  ScheduleState.renameJob(oldName, argv.newName);
+                  save();
+                } catch (err: any) {
+                  ScheduleState.renameJob(argv.newName, oldName);
+                  if (movedHistory) {
+                    RunHistory.renameJob(argv.newName, oldName);
+                  }
+                  if (movedMemory) {
+                    await JobMemory.renameJobMemory(argv.newName, oldName);
+                  }
+                  throw new Error(`Job not renamed: ${err.message}`);
+                }
+                
+                console.log(`✅ Renamed job: ${oldName} → ${argv.newName}`);
+                if (references.length > 0) {
+                  console.log(`🔗 Updated references in: ${[...new Set(references)].join(', ')}`);
+                }
+                if (movedMemory) {
+                  console.log(`🧠 Moved memory and revisions to: ${argv.newName}`);
+                }
+                if (movedHistory) {
+                  console.log(`📜 Moved run history and stored results to: ${argv.newName}`);
+                }
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .command(
+            'clone <jobName> <newName>',
+            'Copy a job under a new name, optionally changing it',
+            (yargs) => {
+              return withJobFieldOptions(yargs)
+                .positional('jobName', {
+                  describe: 'Name of the job to copy',
+                  type: 'string',
+                  demandOption: true
+                })
+                .positional('newName', {
+                  describe: 'Name of the new job',
+                  type: 'string',
+                  demandOption: true
+                })
+                .option('disabled', {
+                  type: 'boolean',
+                  description: 'Add the copy disabled'
+                });
+            },
+            (argv) => {
+              try {
+                let sourceName = argv.jobName;
+                editConfiguration((editor, config) => {
+                  const index = findJobIndex(config, argv.jobName);
+                  sourceName = config.jobs[index].jobName;
+                  if (config.jobs.some(job => job.jobName.toLowerCase() === argv.newName.toLowerCase())) {
+                    throw new Error(`Job already exists: ${argv.newName}`);
+                  }
+                  const copy = { ...config.jobs[index], jobName: argv.newName, ...(argv.disabled ? { enabled: false } : {}) };
+                  editor.append(['jobs'], copy);
+                  
+                  const copyIndex = config.jobs.length;
+                  for (const [jobPath, value] of getJobFieldChanges(argv)) {
+                    setJobValue(editor, copyIndex, editor.getValue().jobs[copyIndex], jobPath, value);
+                  }
+                });
+                console.log(`✅ Cloned job: ${sourceName} → ${argv.newName}${argv.disabled ? ' (disabled)' : ''}`);
+              } catch (err: any) {
+                console.error(`❌ ${err.message}`);
+                process.exit(1);
+              }
+            }
+          )
+          .demandCommand(1, 'You need to specify a job command')
+          .help();
+      }
+    )
     .command(
       'logs',
-      'Manage log files',
+      'Query, follow and manage log files',
       (yargs) => {
         return yargs
           .option('path', {
@@ -313,6 +1714,42 @@ async function main() {
             type: 'number',
             description: 'Clean up log files older than specified days'
           })
+          .option('job', {
+            alias: 'j',
+            type: 'string',
+            description: 'Only show entries of this job'
+          })
+          .option('run', {
+            type: 'string',
+            description: 'Show the complete log of a single run'
+          })
+          .option('level', {
+            type: 'string',
+            choices: ['debug', 'info', 'warn', 'error'],
+            description: 'Only show entries at or above this level'
+          })
+          .option('since', {
+            type: 'string',
+            description: 'Only show entries on or after this time (e.g. 2025-09-01, 2025-09-01T10:00, 30m, 2h, 7d)'
+          })
+          .option('until', {
+            type: 'string',
+            description: 'Only show entries on or before this time (a date includes the whole day)'
+          })
+          .option('limit', {
+            alias: 'n',
+            type: 'number',
+            description: 'Show only the last N matching entries (default: 200, all with --run, 0 for all)'
+          })
+          .option('follow', {
+            alias: 'f',
+            type: 'boolean',
+            description: 'Keep printing new matching entries as they are written'
+          })
+          .option('json', {
+            type: 'boolean',
+            description: 'Output entries as JSON lines'
+          })
           .check((argv) => {
             // Only allow one option at a time
             const options = [argv.path, argv.today, argv.cleanup !== undefined];
@@ -326,6 +1763,9 @@ async function main() {
           });
       },
       async (argv) => {
+        const isQuery = [argv.job, argv.run, argv.level, argv.since, argv.until, argv.limit, argv.follow, argv.json]
+          .some(value => value !== undefined);
+        
         if (argv.path) {
           // Show log directory path
           const logDir = getLogDirectory();
@@ -345,48 +1785,91 @@ async function main() {
           cliHeader(`Cleaning up log files older than ${days} days`);
           cleanupOldLogs(days);
           cliSuccess('Log cleanup completed');
+        } else if (isQuery) {
+          // Printed entries must not be captured back into the log being read
+          disableConsoleCapture();
+          // Stop quietly when piped into head or similar
+          process.stdout.on('error', (err: any) => {
+            if (err.code === 'EPIPE') {
+              process.exit(0);
+            }
+          });
+          
+          const filter: LogFilter = {
+            jobName: argv.job,
+            runId: argv.run,
+            level: argv.level as LogLevel | undefined,
+            since: readTimeOption(argv.since, 'since'),
+            until: readTimeOption(argv.until, 'until')
+          };
+          
+          // A recorded run's start time skips the daily files written before it
+          const run = argv.run ? RunHistory.findRun(argv.run) : undefined;
+          if (run && !filter.since) {
+            filter.since = new Date(new Date(run.startTime).getTime() - 1000);
+          }
+          
+          const printEntry = (entry: LogEntry) => console.log(argv.json ? JSON.stringify(entry) : renderLogEntry(entry));
+          const entries = LogReader.readEntries(filter);
+          const limit = argv.limit ?? (argv.run ? 0 : 200);
+          const shown = limit > 0 ? entries.slice(-limit) : entries;
+          
+          if (argv.run && !argv.json) {
+            console.log(run
+              ? `\n📜 Run ${run.runId} of ${run.jobName} (${run.trigger}, ${run.status}, ${new Date(run.startTime).toLocaleString()})\n`
+              : `\n📜 Run ${argv.run} (not found in run history)\n`);
+          }
+          shown.forEach(printEntry);
+          if (!argv.json) {
+            if (entries.length === 0) {
+              console.log(!argv.run ? 'No matching log entries.'
+                : getLogFormat() === 'legacy'
+                  ? 'No log entries found for this run. The legacy log format has no run IDs; set "logging": { "format": "text" } in config.json to log them.'
+                  : 'No log entries found for this run. Runs logged before run IDs were added to the logs cannot be matched.');
+            } else if (shown.length < entries.length) {
+              console.log(`\n(showing the last ${shown.length} of ${entries.length} entries, use --limit 0 for all)`);
+            }
+          }
+          
+          if (argv.follow) {
+            if (!argv.json) {
+              console.log(`\n👀 Following ${getLogDirectory()}. Press Ctrl+C to stop.\n`);
+            }
+            LogReader.follow(filter, printEntry);
+          }
         } else {
           // Default: Display log information dashboard
           const logDir = getLogDirectory();
           const todayLogFile = getTodayLogFilePath();
           
           cliHeader('Log Information Dashboard');
-          console.error('DEBUG: About to call log() functions');
-          console.error(`DEBUG: logDir = "${logDir}"`);
-          console.error(`DEBUG: todayLogFile = "${todayLogFile}"`);
-          log('TESTING-SIMPLE-LOG');
-          log('TESTING-LOG-CAPTURE-LOGDIR', logDir);
-          log('TESTING-LOG-CAPTURE-TODAY', todayLogFile);
-          console.error('DEBUG: All log() calls completed');
+          log(`📁 Log directory: ${logDir}`);
+          log(`📄 Today's log file: ${todayLogFile}`);
           
           // Show recent log files
           try {
-            if (fs.existsSync(logDir)) {
-              const files = fs.readdirSync(logDir)
-                .filter(file => file.endsWith('.log'))
-                .map(file => {
-                  const filePath = path.join(logDir, file);
-                  const stats = fs.statSync(filePath);
-                  return {
-                    name: file,
-                    path: filePath,
-                    size: stats.size,
-                    modified: stats.mtime
-                  };
-                })
-                .sort((a, b) => b.modified.getTime() - a.modified.getTime())
-                .slice(0, 5); // Show last 5 files
-              
-              if (files.length > 0) {
-                log('\n📋 Recent Log Files:');
-                files.forEach(file => {
-                  const sizeKB = Math.round(file.size / 1024);
-                  const modifiedDate = file.modified.toLocaleDateString();
-                  log(`  📄 ${file.name} (${sizeKB} KB, ${modifiedDate})`);
-                });
-              } else {
-                log('\n📝 No log files found');
-              }
+            const files = LogReader.listLogFiles()
+              .map(filePath => {
+                const stats = fs.statSync(filePath);
+                return {
+                  name: path.basename(filePath),
+                  path: filePath,
+                  size: stats.size,
+                  modified: stats.mtime
+                };
+              })
+              .sort((a, b) => b.modified.getTime() - a.modified.getTime())
+              .slice(0, 5); // Show last 5 files
+            
+            if (files.length > 0) {
+              log('\n📋 Recent Log Files:');
+              files.forEach(file => {
+                const sizeKB = Math.round(file.size / 1024);
+                const modifiedDate = file.modified.toLocaleDateString();
+                log(`  📄 ${file.name} (${sizeKB} KB, ${modifiedDate})`);
+              });
+            } else if (fs.existsSync(logDir)) {
+              log('\n📝 No log files found');
             } else {
               log('\n📝 Log directory does not exist yet');
             }
@@ -398,6 +1881,9 @@ async function main() {
           log('  gjob logs --path     Show log directory path');
           log('  gjob logs --today    Show today\'s log file path');
           log('  gjob logs --cleanup <days>  Clean up old log files');
+          log('  gjob logs --job <name> --level warn --since 2h   Query entries');
+          log('  gjob logs --run <run-id>   Show the complete log of a run');
+          log('  gjob logs --follow   Print new entries as they are written');
           log('');
         }
       }
@@ -407,16 +1893,37 @@ async function main() {
     .parseAsync();
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-  log('Received SIGINT. Shutting down gracefully...');
+/**
+ * Cancel active runs and deliver their notifications before exiting, for at most SHUTDOWN_TIMEOUT_MS
+ * A second signal exits right away.
+ */
+let shuttingDown = false;
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  if (shuttingDown) {
+    warn(`Received ${signal} again. Exiting without waiting for runs and notifications`);
+    process.exit(1);
+  }
+  shuttingDown = true;
+  log(`Received ${signal}. Shutting down gracefully...`);
+  
+  manualRunController.abort();
+  const finished = (async () => {
+    await Promise.all([activeScheduler?.shutdown(), manualRun?.catch(() => undefined)]);
+    await Notifier.waitForPending();
+    return true;
+  })().catch((err: any) => {
+    error('Shutdown failed:', err.message);
+    return true;
+  });
+  const timedOut = new Promise<false>(resolve => setTimeout(() => resolve(false), SHUTDOWN_TIMEOUT_MS).unref());
+  if (!await Promise.race([finished, timedOut])) {
+    warn(`Runs or notifications still pending after ${SHUTDOWN_TIMEOUT_MS / 1000}s, exiting anyway`);
+  }
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', () => {
-  log('Received SIGTERM. Shutting down gracefully...');
-  process.exit(0);
-});
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
 
 // Start the application
 if (require.main === module) {
@@ -0,0 +1,376 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { createLogger } from '../utils/logger';
+import { RunHistory, RunStatus } from '../utils/runHistory';
+import { JobMemory, MemoryConfig } from '../utils/jobMemory';
+import { JobScheduler } from './jobScheduler';
+import { SimpleJobConfig } from './templatedJob';
+
+const { log, error, warn } = createLogger('scheduler');
+
+/**
+ * Local control API settings (config.json → scheduler.api)
+ */
+export interface ControlApiConfig {
+  enabled?: boolean;
+  host?: string; // Loopback address to bind, defaults to 127.0.0.1
+  port?: number; // Defaults to 7420
+  socketPath?: string; // Unix socket to listen on instead of host/port, relative to the config directory
+  token?: string; // Bearer token, defaults to GJOB_API_TOKEN or a generated token saved in the workspace
+}
+
+export interface ControlServerOptions {
+  tokenFile: string; // Where a generated token is stored
+  getGlobalMemoryConfig?: () => MemoryConfig | undefined; // For snapshot retention on memory writes
+}
+
+/**
+ * Error with the HTTP status to respond with
+ */
+class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type RouteHandler = (params: string[], body: any, query: URLSearchParams) => Promise<any> | any;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+export const DEFAULT_API_PORT = 7420;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+const MAX_BODY_BYTES = 1_000_000;
+const RUN_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Control Server
+ * Opt-in HTTP API inside the scheduler process for listing, triggering and cancelling jobs,
+ * reading results and reading or patching job memory. Every request needs the bearer token.
+ */
+export class ControlServer {
+  private server?: http.Server;
+  private token = '';
+  private removeSocketOnExit?: () => void;
+  private readonly routes: Route[];
+
+  constructor(private scheduler: JobScheduler, private config: ControlApiConfig, private options: ControlServerOptions) {
+    this.routes = [
+      { method: 'GET', pattern: /^\/api\/health$/, handler: () => ({ status: 'ok', pid: process.pid, uptimeSeconds: Math.round(process.uptime()) }) },
+      { method: 'GET', pattern: /^\/api\/jobs$/, handler: () => this.scheduler.getJobs().map(job => this.describeJob(job)) },
+      { method: 'GET', pattern: /^\/api\/jobs\/([^/]+)$/, handler: ([name]) => this.describeJob(this.findJob(name)) },
+      { method: 'POST', pattern: /^\/api\/jobs\/([^/]+)\/trigger$/, handler: ([name]) => this.triggerJob(this.findJob(name)) },
+      { method: 'GET', pattern: /^\/api\/jobs\/([^/]+)\/results$/, handler: ([name], _body, query) => this.listResults(this.findJob(name), query) },
+      { method: 'GET', pattern: /^\/api\/jobs\/([^/]+)\/memory$/, handler: ([name]) => this.readMemory(this.findJob(name)) },
+      { method: 'PATCH', pattern: /^\/api\/jobs\/([^/]+)\/memory$/, handler: ([name], body) => this.writeMemory(this.findJob(name), body, 'merge') },
+      { method: 'PUT', pattern: /^\/api\/jobs\/([^/]+)\/memory$/, handler: ([name], body) => this.writeMemory(this.findJob(name), body, 'replace') },
+      { method: 'GET', pattern: /^\/api\/runs$/, handler: (_params, _body, query) => this.listRuns(query) },
+      { method: 'GET', pattern: /^\/api\/runs\/active$/, handler: () => this.scheduler.getActiveRuns() },
+      { method: 'GET', pattern: /^\/api\/runs\/([^/]+)$/, handler: ([runId]) => this.findRun(runId) },
+      { method: 'GET', pattern: /^\/api\/runs\/([^/]+)\/result$/, handler: ([runId]) => this.readResult(runId) },
+      { method: 'POST', pattern: /^\/api\/runs\/([^/]+)\/cancel$/, handler: ([runId]) => this.cancelRun(runId) }
+    ];
+  }
+
+  /**
+   * Start listening; resolves with a description of the address
+   */
+  async start(configDir: string): Promise<string> {
+    this.token = this.resolveToken();
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((err: any) => {
+        error(`Control API request failed: ${err.message}`);
+        this.sendJson(res, 500, { error: 'Internal error' });
+      });
+    });
+
+    if (this.config.socketPath) {
+      const socketPath = path.resolve(configDir, this.config.socketPath);
+      await this.removeStaleSocket(socketPath);
+      // Created owner-only: a chmod after listen would leave the socket open to other users until then
+      const previousUmask = process.umask(0o177);
+      try {
+        await this.listen(socketPath);
+      } finally {
+        process.umask(previousUmask);
+      }
+      this.removeSocketOnExit = () => fs.rmSync(socketPath, { force: true });
+      process.on('exit', this.removeSocketOnExit);
+      return `unix:${socketPath}`;
+    }
+
+    const host = this.config.host || '127.0.0.1';
+    if (!LOOPBACK_HOSTS.includes(host)) {
+      throw new Error(`Control API host must be a loopback address (${LOOPBACK_HOSTS.join(', ')}), got "${host}"`);
+    }
+    const port = this.config.port ?? DEFAULT_API_PORT;
+    await this.listen(port, host);
+    return `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+  }
+
+  /**
+   * Stop accepting requests
+   */
+  stop(): Promise<void> {
+    if (this.removeSocketOnExit) {
+      process.removeListener('exit', this.removeSocketOnExit);
+      this.removeSocketOnExit = undefined;
+    }
+    return new Promise(resolve => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  private listen(portOrPath: number | string, host?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      const onListening = () => {
+        this.server!.off('error', reject);
+        resolve();
+      };
+      if (typeof portOrPath === 'string') {
+        this.server!.listen(portOrPath, onListening);
+      } else {
+        this.server!.listen(portOrPath, host, onListening);
+      }
+    });
+  }
+
+  /**
+   * Remove a socket file left by a scheduler that didn't shut down cleanly
+   */
+  private async removeStaleSocket(socketPath: string): Promise<void> {
+    if (!fs.existsSync(socketPath)) {
+      return;
+    }
+    const inUse = await new Promise<boolean>(resolve => {
+      const probe = http.get({ socketPath, path: '/api/health' }, res => {
+        res.resume();
+        resolve(true);
+      });
+      probe.on('error', () => resolve(false));
+    });
+    if (inUse) {
+      throw new Error(`Control API socket ${socketPath} is in use by another scheduler`);
+    }
+    fs.rmSync(socketPath, { force: true });
+  }
+
+  /**
+   * Token from GJOB_API_TOKEN or the config, otherwise one generated once and kept in the workspace
+   */
+  private resolveToken(): string {
+    const configured = process.env.GJOB_API_TOKEN || this.config.token;
+    if (configured) {
+      return configured;
+    }
+    if (fs.existsSync(this.options.tokenFile)) {
+      this.restrictTokenFile();
+      const saved = fs.readFileSync(this.options.tokenFile, 'utf8').trim();
+      if (saved) {
+        return saved;
+      }
+    }
+    const generated = crypto.randomBytes(24).toString('hex');
+    fs.mkdirSync(path.dirname(this.options.tokenFile), { recursive: true });
+    fs.writeFileSync(this.options.tokenFile, `${generated}\n`, { mode: 0o600 });
+    // `mode` only applies when the file is created
+    this.restrictTokenFile();
+    log(`Generated control API token in ${this.options.tokenFile}`);
+    return generated;
+  }
+
+  /**
+   * Make the token file readable by the owner only, if other users can access it
+   */
+  private restrictTokenFile(): void {
+    if (process.platform === 'win32') {
+      return;
+    }
+    const mode = fs.statSync(this.options.tokenFile).mode & 0o777;
+    if (mode & 0o077) {
+      fs.chmodSync(this.options.tokenFile, 0o600);
+      warn(`Control API token file ${this.options.tokenFile} was accessible by other users (mode ${mode.toString(8)}); restricted it to 600`);
+    }
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    if (!match) {
+      return false;
+    }
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.token);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (!this.isAuthorized(req)) {
+      warn(`Control API rejected unauthenticated ${req.method} ${url.pathname}`);
+      this.sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    const pathMatches = this.routes.filter(route => route.pattern.test(url.pathname));
+    const route = pathMatches.find(candidate => candidate.method === req.method);
+    if (!route) {
+      this.sendJson(res, pathMatches.length > 0 ? 405 : 404, { error: pathMatches.length > 0 ? `Method ${req.method} not allowed` : 'Not found' });
+      return;
+    }
+
+    try {
+      const params = route.pattern.exec(url.pathname)!.slice(1).map(param => decodeURIComponent(param));
+      const body = ['POST', 'PATCH', 'PUT'].includes(req.method!) ? await this.readBody(req) : undefined;
+      const result = await route.handler(params, body, url.searchParams);
+      this.sendJson(res, req.method === 'POST' && result?.accepted ? 202 : 200, result);
+    } catch (err: any) {
+      if (err instanceof ApiError) {
+        this.sendJson(res, err.status, { error: err.message });
+        return;
+      }
+      throw err;
+    }
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new ApiError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8').trim();
+        if (!text) {
+          resolve(undefined);
+          return;
+        }
+        try {
+          resolve(JSON.parse(text));
+        } catch (err: any) {
+          reject(new ApiError(400, `Invalid JSON body: ${err.message}`));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: any): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(`${JSON.stringify(body, null, 2)}\n`);
+  }
+
+  private findJob(name: string): SimpleJobConfig {
+    const job = this.scheduler.getJobs().find(candidate => candidate.jobName.toLowerCase() === name.toLowerCase());
+    if (!job) {
+      throw new ApiError(404, `Job not found: ${name}`);
+    }
+    return job;
+  }
+
+  private describeJob(job: SimpleJobConfig) {
+    const activeRun = this.scheduler.getActiveRuns().find(run => run.jobName === job.jobName);
+    const lastRun = RunHistory.loadRuns({ jobName: job.jobName, limit: 1 })[0];
+    return {
+      jobName: job.jobName,
+      enabled: job.enabled,
+      schedules: job.schedules || [],
+      timezone: this.scheduler.getTimezone(job) ?? null,
+      nextRunAt: this.scheduler.getNextFireTime(job)?.toISOString() ?? null,
+      activeRun: activeRun || null,
+      lastRun: lastRun ? { runId: lastRun.runId, status: lastRun.status, trigger: lastRun.trigger, endTime: lastRun.endTime } : null
+    };
+  }
+
+  private triggerJob(job: SimpleJobConfig) {
+    const runId = RunHistory.generateRunId();
+    log(`Control API triggered job ${job.jobName} (run ${runId})`);
+    this.scheduler.triggerJob(job, { trigger: 'api', runId }).catch((err: any) => {
+      error(`API-triggered execution of ${job.jobName} failed:`, err.message);
+    });
+    return { accepted: true, jobName: job.jobName, runId };
+  }
+
+  private cancelRun(runId: string) {
+    if (!this.scheduler.cancelRun(runId)) {
+      throw new ApiError(404, `No active run with ID ${runId}`);
+    }
+    return { cancelled: true, runId };
+  }
+
+  private listRuns(query: URLSearchParams) {
+    const jobName = query.get('job') || undefined;
+    return RunHistory.loadRuns({
+      jobName: jobName ? this.findJob(jobName).jobName : undefined,
+      status: (query.get('status') || undefined) as RunStatus | undefined,
+      limit: this.parseLimit(query, 20)
+    });
+  }
+
+  private findRun(runId: string) {
+    const run = RUN_ID_PATTERN.test(runId) ? RunHistory.findRun(runId) : undefined;
+    if (!run) {
+      throw new ApiError(404, `Run not found: ${runId}`);
+    }
+    return run;
+  }
+
+  private readResult(runId: string) {
+    const run = this.findRun(runId);
+    const result = RunHistory.loadRunResult(run.jobName, run.runId);
+    if (result === undefined) {
+      throw new ApiError(404, `No stored result for run ${runId}`);
+    }
+    return { runId: run.runId, jobName: run.jobName, endTime: run.endTime, result };
+  }
+
+  private listResults(job: SimpleJobConfig, query: URLSearchParams) {
+    return RunHistory.loadRuns({ jobName: job.jobName, status: 'success', limit: this.parseLimit(query, 5) })
+      .map(run => ({ runId: run.runId, endTime: run.endTime, result: RunHistory.loadRunResult(job.jobName, run.runId) }))
+      .filter(entry => entry.result !== undefined);
+  }
+
+  private readMemory(job: SimpleJobConfig) {
+    try {
+      return JobMemory.readJobMemory(job.jobName) || {};
+    } catch (err: any) {
+      throw new ApiError(409, `Memory file of ${job.jobName} is not valid JSON: ${err.message}`);
+    }
+  }
+
+  /**
+   * merge (PATCH): keys are set, null deletes a key. replace (PUT): the body becomes the memory.
+   */
+  private async writeMemory(job: SimpleJobConfig, body: any, mode: 'merge' | 'replace') {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new ApiError(400, 'Request body must be a JSON object of memory keys');
+    }
+    if ('_metadata' in body) {
+      throw new ApiError(400, '_metadata is managed automatically and cannot be set');
+    }
+
+    const historyLimit = job.memory?.historyLimit ?? this.options.getGlobalMemoryConfig?.()?.historyLimit;
+    JobMemory.snapshotJobMemory(job.jobName, { reason: 'before api update', historyLimit });
+    const memory = await JobMemory.updateJobMemory(job.jobName, body, mode);
+    JobMemory.snapshotJobMemory(job.jobName, { reason: mode === 'merge' ? 'api patch' : 'api replace', historyLimit });
+    return memory;
+  }
+
+  private parseLimit(query: URLSearchParams, fallback: number): number {
+    const limit = parseInt(query.get('limit') || '', 10);
+    return isNaN(limit) || limit <= 0 ? fallback : Math.min(limit, 500);
+  }
+}
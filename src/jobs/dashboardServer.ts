@@ -0,0 +1,376 @@
+import * as http from 'http';
+import { createLogger, getLogFormat, renderLogEntry } from '../utils/logger';
+import { LogReader } from '../utils/logReader';
+import { RunHistory, JobRunRecord, RunStatus } from '../utils/runHistory';
+import { JobMemory } from '../utils/jobMemory';
+import { CronSchedule } from '../utils/cronSchedule';
+import { MarkdownRenderer, escapeHtml } from '../utils/markdownRenderer';
+import { SimpleJobConfig } from './templatedJob';
+import { ActiveRunInfo } from './jobScheduler';
+
+const { log, error, warn } = createLogger('cli');
+
+/**
+ * Web dashboard settings (config.json → scheduler.dashboard)
+ */
+export interface DashboardConfig {
+  enabled?: boolean; // Serve the dashboard from the scheduler process
+  host?: string; // Defaults to 127.0.0.1
+  port?: number; // Defaults to 7421
+}
+
+/**
+ * Where the dashboard reads live state from
+ */
+export interface DashboardSource {
+  getJobs: () => SimpleJobConfig[]; // Configured jobs, read on every request so edits show up
+  getTimezone?: (job: SimpleJobConfig) => string | undefined; // Timezone of a job's schedules, host timezone when omitted
+  getActiveRuns?: () => ActiveRunInfo[]; // Only available inside the scheduler
+}
+
+export const DEFAULT_DASHBOARD_PORT = 7421;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+const RECENT_RUNS = 25;
+const JOB_RUNS = 15;
+const JOB_LOG_ENTRIES = 300;
+const JOB_LOG_DAYS = 14;
+const REFRESH_SECONDS = 30;
+
+const STATUS_LABELS: Record<RunStatus, string> = {
+  success: 'success',
+  failure: 'failed',
+  timeout: 'timed out',
+  cancelled: 'cancelled',
+  skipped: 'skipped'
+};
+
+const STYLES = `
+  :root { color-scheme: light dark; --fg: #1f2328; --muted: #656d76; --bg: #fff; --panel: #f6f8fa; --border: #d0d7de; --link: #0969da; }
+  @media (prefers-color-scheme: dark) { :root { --fg: #e6edf3; --muted: #8d96a0; --bg: #0d1117; --panel: #161b22; --border: #30363d; --link: #4493f8; } }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: var(--fg); background: var(--bg); }
+  header { padding: 12px 24px; border-bottom: 1px solid var(--border); background: var(--panel); display: flex; gap: 24px; align-items: baseline; }
+  header strong { font-size: 16px; }
+  main { padding: 16px 24px 48px; max-width: 1200px; }
+  a { color: var(--link); text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  h1 { font-size: 22px; margin: 8px 0 16px; }
+  h2 { font-size: 17px; margin: 28px 0 8px; }
+  table { border-collapse: collapse; width: 100%; margin: 8px 0; }
+  th, td { border: 1px solid var(--border); padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: var(--panel); font-weight: 600; }
+  pre { background: var(--panel); border: 1px solid var(--border); border-radius: 6px; padding: 12px; overflow: auto; font-size: 12px; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+  .muted { color: var(--muted); }
+  .badge { display: inline-block; padding: 0 8px; border-radius: 10px; font-size: 12px; font-weight: 600; color: #fff; background: #6e7781; }
+  .badge.success { background: #1a7f37; }
+  .badge.failure, .badge.timeout { background: #cf222e; }
+  .badge.cancelled, .badge.skipped { background: #9a6700; }
+  .badge.running { background: #0969da; }
+  .result { border: 1px solid var(--border); border-radius: 6px; padding: 4px 16px; }
+  .result table { width: auto; }
+  dl { display: grid; grid-template-columns: max-content auto; gap: 4px 16px; }
+  dt { color: var(--muted); }
+  dd { margin: 0; }
+`;
+
+/**
+ * Error with the HTTP status to respond with
+ */
+class PageError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function formatTime(iso: string | undefined): string {
+  if (!iso) {
+    return '<span class="muted">-</span>';
+  }
+  const date = new Date(iso);
+  return `<time datetime="${escapeHtml(iso)}" title="${escapeHtml(iso)}">${escapeHtml(date.toLocaleString())}</time>`;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function statusBadge(status: RunStatus): string {
+  return `<span class="badge ${status}">${STATUS_LABELS[status]}</span>`;
+}
+
+function jobLink(jobName: string): string {
+  return `<a href="/jobs/${encodeURIComponent(jobName)}">${escapeHtml(jobName)}</a>`;
+}
+
+function runLink(run: JobRunRecord, text: string = run.runId): string {
+  return `<a href="/runs/${encodeURIComponent(run.runId)}">${escapeHtml(text)}</a>`;
+}
+
+/**
+ * Dashboard Server
+ * Read-only web UI over the config, run history, stored results, job memory and logs.
+ * Pages are rendered on the server with inline styles, so no external assets are needed.
+ */
+export class DashboardServer {
+  private server?: http.Server;
+
+  constructor(private source: DashboardSource, private config: DashboardConfig = {}) {}
+
+  /**
+   * Start listening; resolves with the dashboard URL
+   */
+  async start(): Promise<string> {
+    const host = this.config.host || '127.0.0.1';
+    const port = this.config.port ?? DEFAULT_DASHBOARD_PORT;
+    if (!LOOPBACK_HOSTS.includes(host)) {
+      warn(`Dashboard is bound to ${host} and has no authentication; anyone who can reach it can read job results and memory`);
+    }
+
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const url = `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+    log(`Dashboard listening on ${url}`);
+    return url;
+  }
+
+  /**
+   * Stop accepting requests
+   */
+  stop(): Promise<void> {
+    return new Promise(resolve => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      this.send(res, 405, this.page('Not allowed', '<p>The dashboard is read-only.</p>'));
+      return;
+    }
+
+    try {
+      const segments = url.pathname.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+      let html: string;
+      if (segments.length === 0) {
+        html = this.renderOverview();
+      } else if (segments[0] === 'jobs' && segments.length === 2) {
+        html = this.renderJob(this.findJob(segments[1]));
+      } else if (segments[0] === 'jobs' && segments.length === 3 && segments[2] === 'logs') {
+        html = this.renderLogs({ jobName: segments[1] });
+      } else if (segments[0] === 'runs' && segments.length === 2) {
+        html = this.renderRun(this.findRun(segments[1]));
+      } else if (segments[0] === 'runs' && segments.length === 3 && segments[2] === 'logs') {
+        html = this.renderLogs({ run: this.findRun(segments[1]) });
+      } else {
+        throw new PageError(404, 'Page not found');
+      }
+      this.send(res, 200, html);
+    } catch (err: any) {
+      if (!(err instanceof PageError)) {
+        error(`Dashboard request ${url.pathname} failed: ${err.message}`);
+      }
+      const status = err instanceof PageError ? err.status : 500;
+      this.send(res, status, this.page('Error', `<h1>${status === 404 ? 'Not found' : 'Error'}</h1><p>${escapeHtml(err.message)}</p><p><a href="/">Back to jobs</a></p>`));
+    }
+  }
+
+  private send(res: http.ServerResponse, status: number, html: string): void {
+    res.writeHead(status, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+      // Results are model output: allow no scripts and no external resources
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; img-src data:"
+    });
+    res.end(html);
+  }
+
+  private page(title: string, body: string, refresh = false): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${refresh ? `<meta http-equiv="refresh" content="${REFRESH_SECONDS}">\n` : ''}<title>${escapeHtml(title)} - gjob</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header><strong><a href="/">gjob dashboard</a></strong><span class="muted">Rendered ${escapeHtml(new Date().toLocaleString())}</span></header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+  }
+
+  private findJob(name: string): SimpleJobConfig {
+    const job = this.source.getJobs().find(candidate => candidate.jobName.toLowerCase() === name.toLowerCase());
+    if (!job) {
+      throw new PageError(404, `Job "${name}" is not configured`);
+    }
+    return job;
+  }
+
+  private findRun(runId: string): JobRunRecord {
+    const run = RunHistory.findRun(runId);
+    if (!run) {
+      throw new PageError(404, `Run ${runId} not found`);
+    }
+    return run;
+  }
+
+  private activeRunOf(jobName: string): ActiveRunInfo | undefined {
+    return this.source.getActiveRuns?.().find(run => run.jobName === jobName);
+  }
+
+  private renderRunsTable(runs: JobRunRecord[], showJob: boolean): string {
+    if (runs.length === 0) {
+      return '<p class="muted">No runs recorded yet.</p>';
+    }
+    const rows = runs.map(run => `<tr>
+  <td>${runLink(run)}</td>
+  ${showJob ? `<td>${jobLink(run.jobName)}</td>` : ''}
+  <td>${statusBadge(run.status)}</td>
+  <td>${escapeHtml(run.trigger)}</td>
+  <td>${formatTime(run.startTime)}</td>
+  <td>${formatDuration(run.durationMs)}</td>
+  <td>${run.error ? escapeHtml(run.error.split('\n')[0]) : ''}</td>
+</tr>`).join('\n');
+    return `<table>
+<thead><tr><th>Run</th>${showJob ? '<th>Job</th>' : ''}<th>Status</th><th>Trigger</th><th>Started</th><th>Duration</th><th>Error</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+  }
+
+  private renderOverview(): string {
+    const jobs = this.source.getJobs();
+    const rows = jobs.map(job => {
+      const lastRun = RunHistory.loadRuns({ jobName: job.jobName, limit: 1 })[0];
+      const active = this.activeRunOf(job.jobName);
+      const nextRun = job.enabled ? CronSchedule.nextFireTime(job.schedules || [], new Date(), this.source.getTimezone?.(job)) : undefined;
+      return `<tr>
+  <td>${jobLink(job.jobName)}</td>
+  <td>${job.enabled ? 'yes' : '<span class="muted">no</span>'}</td>
+  <td>${job.schedules?.length ? job.schedules.map(schedule => `<code>${escapeHtml(schedule)}</code>`).join('<br>') : '<span class="muted">manual</span>'}</td>
+  <td>${formatTime(nextRun?.toISOString())}</td>
+  <td>${active ? '<span class="badge running">running</span>' : lastRun ? `${statusBadge(lastRun.status)} ${runLink(lastRun, new Date(lastRun.startTime).toLocaleString())}` : '<span class="muted">never run</span>'}</td>
+</tr>`;
+    }).join('\n');
+
+    const jobsTable = jobs.length === 0
+      ? '<p class="muted">No jobs configured. Run <code>gjob setup</code>.</p>'
+      : `<table>
+<thead><tr><th>Job</th><th>Enabled</th><th>Schedules</th><th>Next run</th><th>Last run</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+
+    return this.page('Jobs', `<h1>Jobs</h1>
+${jobsTable}
+<h2>Recent runs</h2>
+${this.renderRunsTable(RunHistory.loadRuns({ limit: RECENT_RUNS }), true)}`, true);
+  }
+
+  private renderJob(job: SimpleJobConfig): string {
+    const runs = RunHistory.loadRuns({ jobName: job.jobName, limit: JOB_RUNS });
+    const latestSuccess = RunHistory.loadRuns({ jobName: job.jobName, status: 'success', limit: 1 })[0];
+    const latestResult = latestSuccess ? RunHistory.loadRunResult(job.jobName, latestSuccess.runId) : undefined;
+    const active = this.activeRunOf(job.jobName);
+    const nextRun = job.enabled ? CronSchedule.nextFireTime(job.schedules || [], new Date(), this.source.getTimezone?.(job)) : undefined;
+
+    let memoryHtml: string;
+    try {
+      const memory = JobMemory.readJobMemory(job.jobName);
+      memoryHtml = memory === undefined
+        ? '<p class="muted">No memory stored.</p>'
+        : `<pre><code>${escapeHtml(JSON.stringify(memory, null, 2))}</code></pre>`;
+    } catch (err: any) {
+      memoryHtml = `<p>Memory file is not valid JSON: ${escapeHtml(err.message)}</p>`;
+    }
+
+    const details = [
+      ['Enabled', job.enabled ? 'yes' : 'no'],
+      ['Schedules', job.schedules?.length ? job.schedules.map(schedule => `<code>${escapeHtml(schedule)}</code>`).join(', ') : 'manual'],
+      ['Timezone', escapeHtml(this.source.getTimezone?.(job) || 'host timezone')],
+      ['Next run', formatTime(nextRun?.toISOString())],
+      ['Running', active ? `<span class="badge running">${escapeHtml(active.runId)}</span> since ${formatTime(active.startedAt || active.requestedAt)}` : 'no'],
+      ['Overlap policy', escapeHtml(job.overlapPolicy || 'skip')],
+      ['Logs', `<a href="/jobs/${encodeURIComponent(job.jobName)}/logs">Recent log entries</a>`]
+    ].map(([term, value]) => `<dt>${term}</dt><dd>${value}</dd>`).join('\n');
+
+    return this.page(job.jobName, `<h1>${escapeHtml(job.jobName)}</h1>
+<dl>
+${details}
+</dl>
+<h2>Latest result${latestSuccess ? ` <span class="muted">(${runLink(latestSuccess)}, ${formatTime(latestSuccess.endTime)})</span>` : ''}</h2>
+${latestResult !== undefined ? `<div class="result">${MarkdownRenderer.toHtml(latestResult)}</div>` : '<p class="muted">No stored result yet.</p>'}
+<h2>Recent runs</h2>
+${this.renderRunsTable(runs, false)}
+<h2>Memory</h2>
+${memoryHtml}`, true);
+  }
+
+  private renderRun(run: JobRunRecord): string {
+    const result = RunHistory.loadRunResult(run.jobName, run.runId);
+    const details: Array<[string, string | undefined]> = [
+      ['Job', jobLink(run.jobName)],
+      ['Status', statusBadge(run.status)],
+      ['Trigger', escapeHtml(run.trigger) + (run.schedule ? ` <code>${escapeHtml(run.schedule)}</code>` : '') + (run.upstreamJob ? ` after ${jobLink(run.upstreamJob)}` : '')],
+      ['Scheduled for', run.scheduledFor ? formatTime(run.scheduledFor) : undefined],
+      ['Started', formatTime(run.startTime)],
+      ['Finished', formatTime(run.endTime)],
+      ['Duration', formatDuration(run.durationMs)],
+      ['Queued', run.queuedMs !== undefined ? formatDuration(run.queuedMs) : undefined],
+      ['Provider', run.provider ? escapeHtml(run.provider) : undefined],
+      ['Model', run.model ? escapeHtml(run.model) : undefined],
+      ['Attempts', run.attempts !== undefined ? String(run.attempts) : undefined],
+      ['Response', run.responseType ? escapeHtml(run.responseType) : undefined],
+      ['Logs', `<a href="/runs/${encodeURIComponent(run.runId)}/logs">Log entries of this run</a>`]
+    ];
+
+    return this.page(`Run ${run.runId}`, `<h1>${escapeHtml(run.jobName)} <span class="muted">run ${escapeHtml(run.runId)}</span></h1>
+<dl>
+${details.filter(([, value]) => value !== undefined).map(([term, value]) => `<dt>${term}</dt><dd>${value}</dd>`).join('\n')}
+</dl>
+${run.error ? `<h2>Error</h2>\n<pre><code>${escapeHtml(run.error)}</code></pre>` : ''}
+<h2>Result</h2>
+${result !== undefined ? `<div class="result">${MarkdownRenderer.toHtml(result)}</div>` : '<p class="muted">No stored result for this run.</p>'}`);
+  }
+
+  /**
+   * Log excerpt of a run, or the recent entries of a job
+   */
+  private renderLogs(target: { run?: JobRunRecord; jobName?: string }): string {
+    const { run } = target;
+    // Bounded by time, so a page never reads the whole log directory
+    const entries = run
+      ? LogReader.readEntries({
+        runId: run.runId,
+        since: new Date(new Date(run.startTime).getTime() - 1000),
+        until: new Date(new Date(run.endTime).getTime() + 60_000)
+      })
+      : LogReader.readLatestEntries({
+        jobName: this.findJob(target.jobName!).jobName,
+        since: new Date(Date.now() - JOB_LOG_DAYS * 86_400_000)
+      }, JOB_LOG_ENTRIES);
+    const title = run ? `Logs of run ${run.runId}` : `Logs of ${target.jobName}`;
+    const back = run ? runLink(run, `Back to run ${run.runId}`) : `<a href="/jobs/${encodeURIComponent(target.jobName!)}">Back to ${escapeHtml(target.jobName!)}</a>`;
+    const body = entries.length === 0
+      ? `<p class="muted">No log entries found.${run && getLogFormat() === 'legacy' ? ' The legacy log format has no run IDs; set "logging": { "format": "text" } to log them.' : ''}</p>`
+      : `<pre><code>${escapeHtml(entries.map(entry => renderLogEntry(entry)).join('\n'))}</code></pre>`;
+
+    return this.page(title, `<h1>${escapeHtml(title)}</h1>
+<p>${back}${run ? '' : ` <span class="muted">(last ${JOB_LOG_ENTRIES} entries of the last ${JOB_LOG_DAYS} days)</span>`}</p>
+${body}`);
+  }
+}
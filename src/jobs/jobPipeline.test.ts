@@ -0,0 +1,124 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobPipeline } from './jobPipeline';
+import { JobScheduler } from './jobScheduler';
+import { SimpleJobConfig } from './templatedJob';
+import { Workspace } from '../utils/workspace';
+import { RunHistory, JobRunRecord } from '../utils/runHistory';
+
+function job(jobName: string, extra: Partial<SimpleJobConfig> = {}): SimpleJobConfig {
+  return { jobName, enabled: true, schedules: [], promptConfig: { contextFiles: [] }, ...extra };
+}
+
+describe('JobPipeline', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-pipeline-test-'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    // A fresh workspace per test, so run history doesn't leak between tests
+    Workspace.configure(path.join(fs.mkdtempSync(path.join(tempDir, 'ws-')), 'config.json'));
+  });
+
+  describe('validatePipelines', () => {
+    it('accepts a valid pipeline', () => {
+      assert.doesNotThrow(() => JobPipeline.validatePipelines([
+        job('gather', { onSuccess: ['report'] }),
+        job('report', { promptConfig: { contextFiles: [], inputs: [{ job: 'gather' }] } }),
+        job('rollup', { dependsOn: ['gather', 'report'] })
+      ]));
+    });
+
+    it('rejects references to unknown jobs', () => {
+      assert.throws(() => JobPipeline.validatePipelines([job('a', { onSuccess: ['missing'] })]),
+        /Job "a" references unknown job "missing" in onSuccess/);
+      assert.throws(() => JobPipeline.validatePipelines([job('a', { dependsOn: ['missing'] })]),
+        /in dependsOn/);
+      assert.throws(() => JobPipeline.validatePipelines([job('a', { promptConfig: { contextFiles: [], inputs: [{ job: 'missing' }] } })]),
+        /in promptConfig.inputs/);
+    });
+
+    it('rejects cycles across onSuccess and dependsOn', () => {
+      assert.throws(() => JobPipeline.validatePipelines([
+        job('a', { onSuccess: ['b'] }),
+        job('b'),
+        job('c', { dependsOn: ['b'], onSuccess: ['a'] })
+      ]), /Job pipeline cycle detected: a → b → c → a/);
+      assert.throws(() => JobPipeline.validatePipelines([job('self', { onSuccess: ['self'] })]), /self → self/);
+    });
+  });
+
+  it('combines onSuccess and dependsOn into downstream jobs', () => {
+    const jobs = [job('a', { onSuccess: ['b'] }), job('b'), job('c', { dependsOn: ['a', 'b'] })];
+    assert.deepEqual(JobPipeline.getDownstreamJobNames('a', jobs), ['b', 'c']);
+    assert.deepEqual(JobPipeline.getDownstreamJobNames('b', jobs), ['c']);
+    assert.deepEqual(JobPipeline.getDownstreamJobNames('c', jobs), []);
+  });
+
+  describe('dependsOn', () => {
+    const jobs = [job('gather-a'), job('gather-b'), job('rollup', { dependsOn: ['gather-a', 'gather-b'] })];
+
+    function createScheduler(executed: string[]): JobScheduler {
+      const scheduler = new JobScheduler(async (runJob, runContext) => {
+        executed.push(runJob.jobName);
+        const now = new Date().toISOString();
+        const record: JobRunRecord = {
+          runId: runContext.runId!,
+          jobName: runJob.jobName,
+          trigger: runContext.trigger || 'manual',
+          startTime: now,
+          endTime: now,
+          durationMs: 0,
+          status: 'success'
+        };
+        RunHistory.recordRun(record);
+        return record;
+      });
+      scheduler.setJobs(jobs);
+      return scheduler;
+    }
+
+    it('waits for every dependency to succeed', async () => {
+      const executed: string[] = [];
+      const scheduler = createScheduler(executed);
+
+      await scheduler.triggerJob(jobs[0]);
+      assert.deepEqual(executed, ['gather-a']);
+      assert.deepEqual(JobPipeline.getPendingDependencies(jobs[2]), ['gather-b']);
+
+      await scheduler.triggerJob(jobs[1]);
+      assert.deepEqual(executed, ['gather-a', 'gather-b', 'rollup']);
+    });
+
+    it('runs again only after all dependencies succeed again', async () => {
+      const executed: string[] = [];
+      const scheduler = createScheduler(executed);
+      await scheduler.triggerJob(jobs[0]);
+      await scheduler.triggerJob(jobs[1]);
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      await scheduler.triggerJob(jobs[1]);
+      assert.deepEqual(JobPipeline.getPendingDependencies(jobs[2]), ['gather-a']);
+      await scheduler.triggerJob(jobs[0]);
+      assert.deepEqual(executed, ['gather-a', 'gather-b', 'rollup', 'gather-b', 'gather-a', 'rollup']);
+    });
+
+    it('runs onSuccess jobs after every upstream success', async () => {
+      const executed: string[] = [];
+      const scheduler = createScheduler(executed);
+      scheduler.setJobs([job('gather', { onSuccess: ['report'] }), job('report')]);
+      await scheduler.triggerJob(job('gather', { onSuccess: ['report'] }));
+      await scheduler.triggerJob(job('gather', { onSuccess: ['report'] }));
+      assert.deepEqual(executed, ['gather', 'report', 'gather', 'report']);
+    });
+  });
+});
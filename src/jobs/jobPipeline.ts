@@ -0,0 +1,120 @@
+import { logJobExecution } from '../utils/logger';
+import { JobMemory } from '../utils/jobMemory';
+import { RunHistory } from '../utils/runHistory';
+import { SimpleJobConfig } from './templatedJob';
+
+/**
+ * Upstream data to include in a job's prompt (promptConfig.inputs)
+ * - source "jobResult": the upstream job's latest stored result (default)
+ * - source "memory":    selected keys (or all keys) of the upstream job's memory
+ */
+export interface PipelineInput {
+  job: string;
+  source?: 'jobResult' | 'memory';
+  keys?: string[]; // memory source only, defaults to all non-metadata keys
+  label?: string; // Section heading in the prompt, defaults to "<job> <source>"
+}
+
+/**
+ * Job Pipeline
+ * Resolves job-to-job triggers (onSuccess / dependsOn) and upstream prompt inputs
+ */
+export class JobPipeline {
+  /**
+   * Names of jobs to run after the given job succeeds
+   * Combines the job's own onSuccess list with jobs that declare it in dependsOn
+   */
+  static getDownstreamJobNames(jobName: string, jobs: SimpleJobConfig[]): string[] {
+    const job = jobs.find(candidate => candidate.jobName === jobName);
+    const downstream = new Set<string>(job?.onSuccess || []);
+    jobs
+      .filter(candidate => candidate.dependsOn?.includes(jobName))
+      .forEach(candidate => downstream.add(candidate.jobName));
+    return Array.from(downstream);
+  }
+
+  /**
+   * Dependencies (dependsOn) that have not succeeded since the job's own last run started
+   * A job waits for all of its dependencies: it only runs from dependsOn once this is empty.
+   */
+  static getPendingDependencies(job: SimpleJobConfig): string[] {
+    const lastRun = RunHistory.loadRuns({ jobName: job.jobName })
+      .find(run => run.status !== 'skipped' && run.status !== 'cancelled');
+    return (job.dependsOn || []).filter(dependency => {
+      const lastSuccess = RunHistory.loadRuns({ jobName: dependency, status: 'success', limit: 1 })[0];
+      return !lastSuccess || (lastRun !== undefined && lastSuccess.endTime <= lastRun.startTime);
+    });
+  }
+
+  /**
+   * Validate pipeline references and reject dependency cycles
+   * Throws with the offending job names so config errors surface at load time
+   */
+  static validatePipelines(jobs: SimpleJobConfig[]): void {
+    const jobNames = new Set(jobs.map(job => job.jobName));
+
+    for (const job of jobs) {
+      const references = [
+        ...(job.onSuccess || []).map(name => ({ name, field: 'onSuccess' })),
+        ...(job.dependsOn || []).map(name => ({ name, field: 'dependsOn' })),
+        ...(job.promptConfig?.inputs || []).map(input => ({ name: input.job, field: 'promptConfig.inputs' }))
+      ];
+      for (const reference of references) {
+        if (!jobNames.has(reference.name)) {
+          throw new Error(`Job "${job.jobName}" references unknown job "${reference.name}" in ${reference.field}`);
+        }
+      }
+    }
+
+    // Depth-first search over upstream → downstream edges
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const visit = (jobName: string, trail: string[]): void => {
+      if (visiting.has(jobName)) {
+        const cycle = [...trail.slice(trail.indexOf(jobName)), jobName];
+        throw new Error(`Job pipeline cycle detected: ${cycle.join(' → ')}`);
+      }
+      if (visited.has(jobName)) {
+        return;
+      }
+      visiting.add(jobName);
+      for (const downstream of this.getDownstreamJobNames(jobName, jobs)) {
+        visit(downstream, [...trail, jobName]);
+      }
+      visiting.delete(jobName);
+      visited.add(jobName);
+    };
+
+    jobs.forEach(job => visit(job.jobName, []));
+  }
+
+  /**
+   * Build the prompt section for a job's upstream inputs
+   */
+  static async loadPipelineInputs(jobName: string, inputs: PipelineInput[], options: { readOnly?: boolean } = {}): Promise<string> {
+    const sections: string[] = [];
+
+    for (const input of inputs) {
+      const source = input.source || 'jobResult';
+      const label = input.label || `${input.job} ${source}`;
+
+      if (source === 'memory') {
+        const memory = await JobMemory.loadJobMemory(input.job, options);
+        const keys = input.keys || Object.keys(memory).filter(key => !key.startsWith('_'));
+        const entries = keys
+          .filter(key => key in memory)
+          .map(key => `- ${key}: ${JSON.stringify(memory[key])}`);
+        sections.push(`=== Input: ${label} ===\n${entries.length > 0 ? entries.join('\n') : 'No memory values available.'}`);
+      } else {
+        const jobResult = RunHistory.loadRunResult(input.job);
+        if (jobResult === undefined) {
+          logJobExecution(jobName, `No stored result found for upstream job ${input.job}`);
+        }
+        sections.push(`=== Input: ${label} ===\n${jobResult ?? 'No result available yet.'}`);
+      }
+      logJobExecution(jobName, `Added ${source} input from job ${input.job}`);
+    }
+
+    return sections.join('\n\n');
+  }
+}
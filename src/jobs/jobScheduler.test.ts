@@ -0,0 +1,66 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobScheduler } from './jobScheduler';
+import { SimpleJobConfig } from './templatedJob';
+import { Workspace } from '../utils/workspace';
+import { JobRunRecord } from '../utils/runHistory';
+
+function job(jobName: string, extra: Partial<SimpleJobConfig> = {}): SimpleJobConfig {
+  return { jobName, enabled: true, schedules: [], promptConfig: { contextFiles: [] }, ...extra };
+}
+
+describe('JobScheduler', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-scheduler-test-'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    Workspace.configure(path.join(fs.mkdtempSync(path.join(tempDir, 'ws-')), 'config.json'));
+  });
+
+  describe('shutdown', () => {
+    it('cancels active runs and waits for them to finish', async () => {
+      const events: string[] = [];
+      const scheduler = new JobScheduler((runJob, runContext) => new Promise<JobRunRecord>(resolve => {
+        events.push(`${runJob.jobName} started`);
+        runContext.signal!.addEventListener('abort', () => setTimeout(() => {
+          events.push(`${runJob.jobName} cancelled`);
+          const now = new Date().toISOString();
+          resolve({ runId: runContext.runId!, jobName: runJob.jobName, trigger: 'manual', startTime: now, endTime: now, durationMs: 0, status: 'cancelled' });
+        }, 20));
+      }));
+      const jobs = [job('a'), job('b', { overlapPolicy: 'queue' })];
+      scheduler.setJobs(jobs);
+
+      const runs = [scheduler.triggerJob(jobs[0]), scheduler.triggerJob(jobs[1]), scheduler.triggerJob(jobs[1])];
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await scheduler.shutdown();
+      events.push('shut down');
+      await Promise.all(runs);
+
+      assert.deepEqual(events, ['a started', 'b started', 'a cancelled', 'b cancelled', 'shut down']);
+      assert.deepEqual(scheduler.getActiveJobNames(), []);
+    });
+
+    it('starts no new runs afterwards', async () => {
+      const executed: string[] = [];
+      const scheduler = new JobScheduler(async (runJob, runContext) => {
+        executed.push(runJob.jobName);
+        const now = new Date().toISOString();
+        return { runId: runContext.runId!, jobName: runJob.jobName, trigger: 'manual', startTime: now, endTime: now, durationMs: 0, status: 'success' };
+      });
+      await scheduler.shutdown();
+      await scheduler.triggerJob(job('a'));
+      assert.deepEqual(executed, []);
+    });
+  });
+});
@@ -0,0 +1,504 @@
+import * as cron from 'node-cron';
+import { createLogger } from '../utils/logger';
+import { RunHistory, JobRunRecord, RunTrigger } from '../utils/runHistory';
+import { CronSchedule } from '../utils/cronSchedule';
+import { ScheduleState } from '../utils/scheduleState';
+import { SimpleJobConfig, JobRunContext, CatchUpPolicy } from './templatedJob';
+import { JobPipeline } from './jobPipeline';
+import { ControlApiConfig } from './controlServer';
+import { DashboardConfig } from './dashboardServer';
+
+const { error, warn, logJobExecution } = createLogger('scheduler');
+
+const DEFAULT_CATCH_UP_LIMIT = 3;
+const MAX_MISSED_PER_SCHEDULE = 1000; // Stop counting missed occurrences of a schedule beyond this
+
+/**
+ * Global scheduler settings (config.json → scheduler)
+ */
+export interface SchedulerConfig {
+  maxConcurrentJobs?: number; // Maximum number of jobs running at the same time, unlimited when omitted
+  api?: ControlApiConfig; // Local HTTP control API, off unless enabled
+  dashboard?: DashboardConfig; // Read-only web dashboard, off unless enabled
+}
+
+/**
+ * Executes a single job run; provided by the CLI so the scheduler stays independent of config loading
+ */
+export type JobExecutor = (job: SimpleJobConfig, runContext: JobRunContext) => Promise<JobRunRecord>;
+
+/**
+ * Jobs whose cron tasks changed after updateJobs()
+ */
+export interface JobScheduleChanges {
+  added: string[];
+  removed: string[];
+  rescheduled: string[];
+}
+
+/**
+ * Occurrences of a job missed while the scheduler was not running, and the runs started for them
+ */
+export interface CatchUpPlan {
+  jobName: string;
+  policy: CatchUpPolicy;
+  missed: number; // Missed occurrences across all schedules (counting stops at 1000 per schedule)
+  runs: Array<{ schedule: string; scheduledFor: Date }>; // Catch-up runs, oldest first
+}
+
+/**
+ * A run that is executing or waiting for a free slot
+ */
+export interface ActiveRunInfo {
+  jobName: string;
+  runId: string;
+  trigger: RunTrigger;
+  requestedAt: string; // ISO timestamp
+  startedAt?: string; // Unset while waiting for a concurrency slot
+}
+
+interface ActiveRun {
+  info: ActiveRunInfo;
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+/**
+ * Job Scheduler
+ * Registers cron schedules and enforces per-job overlap policies and a global concurrency limit
+ */
+export class JobScheduler {
+  private tasks = new Map<string, cron.ScheduledTask[]>();
+  private taskTimezones = new Map<string, string | undefined>();
+  private defaultTimezone?: string;
+  private jobs: SimpleJobConfig[] = [];
+  private activeRuns = new Map<string, ActiveRun>();
+  private queuedJobs = new Set<string>();
+  private runningCount = 0;
+  private slotWaiters: Array<() => void> = [];
+  private shuttingDown = false;
+
+  constructor(private executor: JobExecutor, private config: SchedulerConfig = {}) {}
+
+  /**
+   * Register all enabled jobs and remember the full job list for pipeline triggers
+   * Occurrences missed since the last recorded fire times are handled by each job's
+   * catchUp policy; the returned plans describe what was missed and which runs were started.
+   */
+  scheduleJobs(jobs: SimpleJobConfig[]): CatchUpPlan[] {
+    this.jobs = jobs;
+    const enabledJobs = jobs.filter(job => job.enabled);
+    const now = new Date();
+    // Find missed occurrences before scheduling, which records the current time as the new baseline
+    const plans = enabledJobs
+      .map(job => this.planCatchUp(job, now))
+      .filter((plan): plan is CatchUpPlan => plan !== undefined);
+    enabledJobs.forEach(job => this.scheduleJob(job));
+    plans.forEach(plan => this.startCatchUp(plan));
+    return plans;
+  }
+
+  /**
+   * Set the job list used to resolve pipeline triggers without registering cron tasks
+   */
+  setJobs(jobs: SimpleJobConfig[]): void {
+    this.jobs = jobs;
+  }
+
+  /**
+   * Replace the scheduler settings (takes effect for runs that start afterwards)
+   */
+  setConfig(config: SchedulerConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * Set the global timezone for jobs without their own; call updateJobs() afterwards to reschedule
+   */
+  setTimezone(timezone?: string): void {
+    this.defaultTimezone = timezone;
+  }
+
+  /**
+   * Timezone a job's schedules are evaluated in, undefined for the host timezone
+   */
+  getTimezone(job: SimpleJobConfig): string | undefined {
+    return job.timezone || this.defaultTimezone;
+  }
+
+  /**
+   * Register cron tasks for all schedules of a job
+   */
+  scheduleJob(job: SimpleJobConfig): void {
+    const schedules = job.schedules || [];
+    // Track fire times from now on; occurrences missed before this are handled by scheduleJobs()
+    const registeredAt = new Date();
+    ScheduleState.recordFireTimes(schedules.map(schedule => ({ jobName: job.jobName, schedule, time: registeredAt })));
+
+    const timezone = this.getTimezone(job);
+    const jobTasks = schedules.map(schedule => cron.schedule(schedule, () => {
+      ScheduleState.recordFireTime(job.jobName, schedule);
+      // Look the job up at fire time so config reloads apply without rescheduling
+      const currentJob = this.jobs.find(candidate => candidate.jobName === job.jobName) || job;
+      this.triggerJob(currentJob, { trigger: 'cron', schedule }).catch((err: any) => {
+        error(`Scheduled execution of ${job.jobName} failed:`, err.message);
+      });
+    }, { timezone }));
+    this.taskTimezones.set(job.jobName, timezone);
+    this.tasks.set(job.jobName, [...(this.tasks.get(job.jobName) || []), ...jobTasks]);
+  }
+
+  /**
+   * Stop the cron tasks of a single job (a run in progress is left to finish)
+   */
+  unscheduleJob(jobName: string): void {
+    this.tasks.get(jobName)?.forEach(task => task.stop());
+    this.tasks.delete(jobName);
+    this.taskTimezones.delete(jobName);
+  }
+
+  /**
+   * Apply a new job list, only touching the cron tasks of jobs whose schedule changed
+   */
+  updateJobs(jobs: SimpleJobConfig[]): JobScheduleChanges {
+    const changes: JobScheduleChanges = { added: [], removed: [], rescheduled: [] };
+    const previousJobs = new Map(this.jobs.map(job => [job.jobName, job]));
+    this.jobs = jobs;
+
+    for (const job of jobs) {
+      const previous = previousJobs.get(job.jobName);
+      const wasScheduled = previous?.enabled === true;
+      previousJobs.delete(job.jobName);
+
+      if (!job.enabled) {
+        if (wasScheduled) {
+          this.unscheduleJob(job.jobName);
+          changes.removed.push(job.jobName);
+        }
+        continue;
+      }
+
+      if (!wasScheduled) {
+        this.scheduleJob(job);
+        changes.added.push(job.jobName);
+      } else if (JSON.stringify(previous!.schedules || []) !== JSON.stringify(job.schedules || [])
+        || this.taskTimezones.get(job.jobName) !== this.getTimezone(job)) {
+        this.unscheduleJob(job.jobName);
+        this.scheduleJob(job);
+        changes.rescheduled.push(job.jobName);
+      }
+    }
+
+    // Jobs that were deleted from the config
+    for (const [jobName, previous] of previousJobs) {
+      if (previous.enabled) {
+        this.unscheduleJob(jobName);
+        changes.removed.push(jobName);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Stop all registered cron tasks
+   */
+  stop(): void {
+    this.tasks.forEach(jobTasks => jobTasks.forEach(task => task.stop()));
+    this.tasks.clear();
+  }
+
+  /**
+   * Stop all cron tasks, cancel active and queued runs and wait until they have finished
+   * No new runs start afterwards, including pipeline and queued runs.
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    this.stop();
+    const activeRuns = Array.from(this.activeRuns.values());
+    activeRuns.forEach(active => {
+      logJobExecution(active.info.jobName, `Cancelling run ${active.info.runId} for shutdown`);
+      active.controller.abort();
+    });
+    await Promise.all(activeRuns.map(active => active.done));
+  }
+
+  /**
+   * Names of jobs that are currently running or waiting for a free slot
+   */
+  getActiveJobNames(): string[] {
+    return Array.from(this.activeRuns.keys());
+  }
+
+  /**
+   * Runs that are currently executing or waiting for a free slot
+   */
+  getActiveRuns(): ActiveRunInfo[] {
+    return Array.from(this.activeRuns.values()).map(active => ({ ...active.info }));
+  }
+
+  /**
+   * The job list used for scheduling and pipeline triggers
+   */
+  getJobs(): SimpleJobConfig[] {
+    return this.jobs;
+  }
+
+  /**
+   * Next cron fire time of a job, undefined for disabled or unscheduled jobs
+   */
+  getNextFireTime(job: SimpleJobConfig, after: Date = new Date()): Date | undefined {
+    return job.enabled ? CronSchedule.nextFireTime(job.schedules || [], after, this.getTimezone(job)) : undefined;
+  }
+
+  /**
+   * Cancel an active run; returns false when no active run has this ID
+   */
+  cancelRun(runId: string): boolean {
+    const active = Array.from(this.activeRuns.values()).find(candidate => candidate.info.runId === runId);
+    if (!active) {
+      return false;
+    }
+    logJobExecution(active.info.jobName, `Cancelling run ${runId} on request`);
+    active.controller.abort();
+    return true;
+  }
+
+  /**
+   * Find the occurrences of a job's schedules between their last recorded fire time and now
+   * Returns undefined when nothing was missed. Schedules without a recorded fire time are new and
+   * have nothing to catch up.
+   */
+  private planCatchUp(job: SimpleJobConfig, now: Date): CatchUpPlan | undefined {
+    const occurrences = new Map<number, { schedule: string; scheduledFor: Date }>();
+    for (const schedule of job.schedules || []) {
+      const lastFireTime = ScheduleState.getLastFireTime(job.jobName, schedule);
+      if (!lastFireTime) {
+        continue;
+      }
+      let cronSchedule: CronSchedule;
+      try {
+        cronSchedule = new CronSchedule(schedule, this.getTimezone(job));
+      } catch {
+        continue;
+      }
+      let found = 0;
+      for (let next = cronSchedule.next(lastFireTime); next && next < now && found < MAX_MISSED_PER_SCHEDULE; next = cronSchedule.next(next), found++) {
+        if (!occurrences.has(next.getTime())) {
+          occurrences.set(next.getTime(), { schedule, scheduledFor: next });
+        }
+      }
+    }
+    if (occurrences.size === 0) {
+      return undefined;
+    }
+
+    const missed = Array.from(occurrences.values()).sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+    const policy = job.catchUp || 'none';
+    const runCount = policy === 'each' ? job.catchUpLimit ?? DEFAULT_CATCH_UP_LIMIT : policy === 'once' ? 1 : 0;
+    return { jobName: job.jobName, policy, missed: missed.length, runs: runCount > 0 ? missed.slice(-runCount) : [] };
+  }
+
+  /**
+   * Start the catch-up runs of a plan one after another, so they don't skip each other
+   */
+  private startCatchUp(plan: CatchUpPlan): void {
+    if (plan.runs.length === 0) {
+      warn(`Job ${plan.jobName} missed ${plan.missed} scheduled run(s) while the scheduler was not running (catchUp: none)`);
+      return;
+    }
+    logJobExecution(plan.jobName, `Missed ${plan.missed} scheduled run(s) while the scheduler was not running, starting ${plan.runs.length} catch-up run(s) (catchUp: ${plan.policy})`);
+
+    const runSequentially = async () => {
+      for (const { schedule, scheduledFor } of plan.runs) {
+        const job = this.jobs.find(candidate => candidate.jobName === plan.jobName);
+        if (!job?.enabled) {
+          return;
+        }
+        await this.triggerJob(job, { trigger: 'catch-up', schedule, scheduledFor: scheduledFor.toISOString() });
+      }
+    };
+    runSequentially().catch((err: any) => {
+      error(`Catch-up execution of ${plan.jobName} failed:`, err.message);
+    });
+  }
+
+  /**
+   * Run a job now, applying its overlap policy and the global concurrency limit
+   */
+  async triggerJob(job: SimpleJobConfig, runContext: JobRunContext = {}): Promise<void> {
+    const { jobName } = job;
+    const requestedAt = Date.now();
+    const active = this.activeRuns.get(jobName);
+
+    if (this.shuttingDown) {
+      logJobExecution(jobName, 'Not starting run, the scheduler is shutting down');
+      return;
+    }
+
+    if (active) {
+      const policy = job.overlapPolicy || 'skip';
+
+      if (policy === 'skip') {
+        this.recordNotStarted(job, runContext, 'skipped', `Previous run ${active.info.runId} is still in progress`);
+        return;
+      }
+
+      if (policy === 'queue') {
+        if (this.queuedJobs.has(jobName)) {
+          this.recordNotStarted(job, runContext, 'skipped', 'A run is already queued behind the current one');
+          return;
+        }
+        logJobExecution(jobName, `Previous run ${active.info.runId} still in progress, queueing new run`);
+        this.queuedJobs.add(jobName);
+        await active.done;
+        this.queuedJobs.delete(jobName);
+        return this.triggerJob(job, { ...runContext, queuedMs: Date.now() - requestedAt });
+      }
+
+      logJobExecution(jobName, `Cancelling previous run ${active.info.runId} to start a new one`);
+      active.controller.abort();
+      await active.done;
+      return this.triggerJob(job, runContext);
+    }
+
+    // A job reached through dependsOn runs once all of its dependencies have succeeded since its last run
+    if (runContext.trigger === 'pipeline' && runContext.upstream && job.dependsOn?.includes(runContext.upstream.jobName)) {
+      const upstreamJob = this.jobs.find(candidate => candidate.jobName === runContext.upstream!.jobName);
+      const pending = upstreamJob?.onSuccess?.includes(jobName) ? [] : JobPipeline.getPendingDependencies(job);
+      if (pending.length > 0) {
+        logJobExecution(jobName, `Waiting for ${pending.join(', ')} to succeed before running (dependsOn)`);
+        return;
+      }
+    }
+
+    const runId = runContext.runId || RunHistory.generateRunId();
+    let record: JobRunRecord | undefined;
+    const controller = new AbortController();
+    let markDone: () => void = () => {};
+    const done = new Promise<void>(resolve => { markDone = resolve; });
+    const info: ActiveRunInfo = { jobName, runId, trigger: runContext.trigger || 'manual', requestedAt: new Date(requestedAt).toISOString() };
+    this.activeRuns.set(jobName, { info, controller, done });
+
+    try {
+      let waitedForSlot: boolean;
+      try {
+        waitedForSlot = await this.acquireSlot(jobName, controller.signal);
+      } catch {
+        this.recordNotStarted(job, { ...runContext, runId }, 'cancelled', 'Cancelled while waiting for a concurrency slot');
+        return;
+      }
+      info.startedAt = new Date().toISOString();
+      try {
+        if (controller.signal.aborted) {
+          this.recordNotStarted(job, { ...runContext, runId }, 'cancelled', 'Cancelled by a newer run before it started');
+          return;
+        }
+        const wasQueued = waitedForSlot || runContext.queuedMs !== undefined;
+        record = await this.executor(job, {
+          ...runContext,
+          runId,
+          signal: controller.signal,
+          queuedMs: wasQueued ? (runContext.queuedMs || 0) + Date.now() - requestedAt : undefined
+        });
+      } finally {
+        this.releaseSlot();
+      }
+    } finally {
+      this.activeRuns.delete(jobName);
+      markDone();
+    }
+
+    if (record?.status === 'success') {
+      await this.triggerDownstreamJobs(job, record);
+    }
+  }
+
+  /**
+   * Run the jobs that follow a successful run (onSuccess / dependsOn)
+   */
+  private async triggerDownstreamJobs(job: SimpleJobConfig, record: JobRunRecord): Promise<void> {
+    const downstreamNames = JobPipeline.getDownstreamJobNames(job.jobName, this.jobs);
+
+    await Promise.all(downstreamNames.map(async (downstreamName) => {
+      const downstreamJob = this.jobs.find(candidate => candidate.jobName === downstreamName);
+      if (!downstreamJob) {
+        error(`Pipeline job not found: ${downstreamName}`);
+        return;
+      }
+      if (!downstreamJob.enabled) {
+        logJobExecution(downstreamName, `Skipping pipeline run after ${job.jobName}: job is disabled`);
+        return;
+      }
+
+      logJobExecution(downstreamName, `Triggered by successful run ${record.runId} of ${job.jobName}`);
+      try {
+        await this.triggerJob(downstreamJob, {
+          trigger: 'pipeline',
+          upstream: { jobName: job.jobName, runId: record.runId }
+        });
+      } catch (err: any) {
+        error(`Pipeline execution of ${downstreamName} failed:`, err.message);
+      }
+    }));
+  }
+
+  /**
+   * Wait until the number of running jobs is below maxConcurrentJobs
+   * Returns true when the run had to wait for a slot; rejects, without taking a slot,
+   * when the signal is aborted while waiting.
+   */
+  private async acquireSlot(jobName: string, signal: AbortSignal): Promise<boolean> {
+    const { maxConcurrentJobs } = this.config;
+    if (!maxConcurrentJobs || this.runningCount < maxConcurrentJobs) {
+      this.runningCount++;
+      return false;
+    }
+
+    logJobExecution(jobName, `Concurrency limit reached (${maxConcurrentJobs} running), queueing run`);
+    await new Promise<void>((resolve, reject) => {
+      const waiter = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.slotWaiters = this.slotWaiters.filter(candidate => candidate !== waiter);
+        reject(new Error('Cancelled while waiting for a concurrency slot'));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.slotWaiters.push(waiter);
+    });
+    return true;
+  }
+
+  /**
+   * Free a slot, handing it directly to the next waiting run if there is one
+   */
+  private releaseSlot(): void {
+    const next = this.slotWaiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.runningCount--;
+    }
+  }
+
+  /**
+   * Record a run that never reached the job runner
+   */
+  private recordNotStarted(job: SimpleJobConfig, runContext: JobRunContext, status: 'skipped' | 'cancelled', reason: string): void {
+    const now = new Date().toISOString();
+    logJobExecution(job.jobName, `Run ${status}: ${reason}`);
+    RunHistory.recordRun({
+      runId: runContext.runId || RunHistory.generateRunId(),
+      jobName: job.jobName,
+      trigger: runContext.trigger || 'manual',
+      schedule: runContext.schedule,
+      startTime: now,
+      endTime: now,
+      durationMs: 0,
+      status,
+      error: reason
+    });
+  }
+}
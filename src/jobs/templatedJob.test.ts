@@ -0,0 +1,102 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildJobPrompt, runSimpleJob, SimpleJobConfig } from './templatedJob';
+import { Workspace } from '../utils/workspace';
+import { JobMemory } from '../utils/jobMemory';
+import { RunHistory } from '../utils/runHistory';
+import { MockResponse } from '../utils/llmProviders';
+
+function job(extra: Partial<SimpleJobConfig> = {}): SimpleJobConfig {
+  return { jobName: 'job', enabled: true, schedules: [], promptConfig: { contextFiles: [] }, ...extra };
+}
+
+describe('templatedJob', () => {
+  let tempDir: string;
+
+  const googleCloudProject = process.env.GOOGLE_CLOUD_PROJECT;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-job-test-'));
+    process.env.GOOGLE_CLOUD_PROJECT = googleCloudProject || 'test-project';
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    if (googleCloudProject === undefined) {
+      delete process.env.GOOGLE_CLOUD_PROJECT;
+    }
+  });
+
+  beforeEach(() => {
+    // A fresh workspace per test, so memory doesn't leak between tests
+    Workspace.configure(path.join(fs.mkdtempSync(path.join(tempDir, 'ws-')), 'config.json'));
+  });
+
+  describe('buildJobPrompt', () => {
+    it('only exposes environment variables listed in templateEnv', async () => {
+      process.env.GJOB_TEST_ALLOWED = 'visible';
+      process.env.GJOB_TEST_SECRET = 'hidden';
+      try {
+        const promptConfig = { contextFiles: [], templating: true, templateEnv: ['GJOB_TEST_ALLOWED'] };
+        const { prompt } = await buildJobPrompt(job({ promptConfig: { ...promptConfig, customPrompt: 'value: {{env.GJOB_TEST_ALLOWED}}' } }), tempDir, { dryRun: true });
+        assert.ok(prompt.includes('value: visible'));
+        await assert.rejects(
+          buildJobPrompt(job({ promptConfig: { ...promptConfig, customPrompt: '{{env.GJOB_TEST_SECRET}}' } }), tempDir, { dryRun: true }),
+          /undefined variable "env.GJOB_TEST_SECRET"/
+        );
+      } finally {
+        delete process.env.GJOB_TEST_ALLOWED;
+        delete process.env.GJOB_TEST_SECRET;
+      }
+    });
+  });
+
+  describe('resultSchema', () => {
+    const resultSchema = {
+      type: 'object' as const,
+      required: ['count'],
+      properties: { count: { type: 'integer' as const } }
+    };
+
+    function schemaJob(responses: MockResponse[], resultSchemaRetries?: number): SimpleJobConfig {
+      return job({
+        promptConfig: { contextFiles: [], customPrompt: 'Count the things.' },
+        resultSchema,
+        resultSchemaRetries,
+        provider: { type: 'mock', responses }
+      });
+    }
+
+    it('re-prompts with the validation errors until the result matches', async () => {
+      const record = await runSimpleJob(schemaJob([
+        { text: '{"jobResult": {"count": "three"}}' },
+        { when: 'YOUR PREVIOUS RESPONSE WAS REJECTED[\\s\\S]*jobResult\\.count: expected integer, got string', text: '{"jobResult": {"count": 3}}' }
+      ]), tempDir);
+
+      assert.equal(record.status, 'success');
+      assert.equal(record.attempts, 2);
+      assert.equal(RunHistory.loadRunResult('job', record.runId), '{\n  "count": 3\n}');
+      const attempts = JobMemory.readJobMemory('job')!.lastAttempts;
+      assert.equal(attempts[0].failureClass, 'schema_error');
+      assert.equal(attempts[0].error, '1 schema issue(s): jobResult.count: expected integer, got string');
+    });
+
+    it('fails once the re-prompts are used up', async () => {
+      const run = runSimpleJob(schemaJob([{ text: '{"jobResult": {}}' }], 1), tempDir);
+      await assert.rejects(run, {
+        message: 'Response does not match resultSchema after 2 response(s):\n  - jobResult: missing required property "count"'
+      });
+      const [record] = RunHistory.loadRuns({ jobName: 'job' });
+      assert.equal(record.status, 'failure');
+      assert.equal(record.attempts, 2);
+    });
+
+    it('reports responses without usable JSON as schema issues', async () => {
+      await assert.rejects(runSimpleJob(schemaJob([{ text: 'no json here' }], 0), tempDir), /after 1 response\(s\):\n  - \(root\): no usable JSON response/);
+      await assert.rejects(runSimpleJob(schemaJob([{ text: '{"other": 1}' }], 0), tempDir), /\(root\): no usable JSON response: found 1 JSON object\(s\) but none has a jobResult field/);
+    });
+  });
+});
@@ -1,19 +1,47 @@
-import { log, error, debug, logJobExecution } from '../utils/logger';
-import { GeminiCliCore } from '../utils/geminiCliCore';
+import { createLogger, runWithLogContext } from '../utils/logger';
+import { GeminiOptions, DEFAULT_GEMINI_MODEL } from '../utils/geminiCliCore';
+import { LlmProvider, LlmProviderConfig, createLlmProvider } from '../utils/llmProviders';
 import { EnvConfigLoader } from '../utils/envConfigLoader';
-import { JobMemory } from '../utils/jobMemory';
+import { JobMemory, MemoryConfig, MemoryUpdateMode } from '../utils/jobMemory';
+import { RunHistory, JobRunRecord, RunTrigger, RunStatus } from '../utils/runHistory';
+import { JobOutputWriter, JobOutputConfig } from '../utils/jobOutputs';
+import { Notifier, NotificationRule, NotificationsConfig } from '../utils/notifier';
+import { JobPipeline, PipelineInput } from './jobPipeline';
+import { PromptTemplate, TemplateContext } from '../utils/promptTemplate';
+import { ContextSources, ContextSource } from '../utils/contextSources';
+import { ResponseParser } from '../utils/responseParser';
+import { Workspace } from '../utils/workspace';
+import { JsonSchema, SchemaIssue, validateJsonSchema, formatSchemaIssues } from '../utils/jsonSchema';
+import { RetryPolicy, RetryAttempt, RetryFailureClass, resolveRetryPolicy, classifyExecutionError, computeRetryDelay, waitForRetry } from '../utils/retryPolicy';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+
+const { log, error, debug, logJobExecution, logEvent } = createLogger('runner');
 
 /**
  * Structured response from Gemini CLI
  */
 export interface GeminiJobResponse {
-  jobResult: string; // The main output/result of the job
+  jobResult: any; // The main output/result of the job, structured data when the job declares a resultSchema
   jobMemory?: Record<string, any>; // Key-value pairs to persist in job memory
 }
 
+/**
+ * Scheduler behaviour when a job fires while its previous run is still in progress
+ * - skip: drop the new run
+ * - queue: run once the previous run finishes (at most one queued run per job)
+ * - cancel-previous: cancel the running execution and start the new one
+ */
+export type OverlapPolicy = 'skip' | 'queue' | 'cancel-previous';
+
+/**
+ * Scheduler behaviour for occurrences missed while it was not running
+ * - none: skip them
+ * - once: run once for the most recent missed occurrence
+ * - each: run for each missed occurrence, up to catchUpLimit (the most recent ones)
+ */
+export type CatchUpPolicy = 'none' | 'once' | 'each';
+
 /**
  * Simple Job Configuration
  * Uses a markdown template with optional custom prompt append
@@ -22,18 +50,155 @@ export interface SimpleJobConfig {
   jobName: string;
   enabled: boolean;
   schedules: string[];
+  timezone?: string; // IANA timezone the schedules are evaluated in (e.g. "Europe/London"), overrides the global timezone
   
   promptConfig: {
-    contextFiles: string[]; // Array of relative paths to markdown templates (e.g., ["context/release-notes-rules.md", "context/about.md"])
+    contextFiles: ContextSource[]; // Relative file paths (e.g., ["context/about.md"]), or typed sources (glob, command, directory)
     customPrompt?: string; // Optional additional prompt to append
+    inputs?: PipelineInput[]; // Upstream job results or memory values to include in the prompt
+    templating?: boolean; // Interpolate {{...}} expressions in context files, commands and customPrompt, defaults to false
+    templateEnv?: string[]; // Environment variables templates can read as {{env.NAME}}, defaults to none
   };
   
+  variables?: Record<string, string | number | boolean>; // Values available to templates as {{vars.name}}
+  resultSchema?: JsonSchema; // JSON Schema the jobResult must match; injected into the prompt and validated
+  resultSchemaRetries?: number; // Times to re-prompt with the validation errors before failing, defaults to 2
+  memory?: MemoryConfig; // Overrides the global memory settings (snapshot retention, update mode)
+  
   geminiOptions?: {
     model?: string;
     temperature?: number;
     maxTokens?: number;
     timeoutMs?: number; // Timeout in milliseconds, defaults to 300000 (5 minutes)
   };
+  provider?: LlmProviderConfig; // Overrides the global provider, defaults to the Gemini CLI
+  
+  onSuccess?: string[]; // Jobs to run after this job succeeds
+  dependsOn?: string[]; // Run this job once all of these jobs have succeeded since its last run
+  retry?: RetryPolicy; // Overrides the global retry policy for failed Gemini executions
+  overlapPolicy?: OverlapPolicy; // What the scheduler does when a run fires while the previous one is still going, defaults to "skip"
+  catchUp?: CatchUpPolicy; // What the scheduler does on startup about occurrences missed while it was down, defaults to "none"
+  catchUpLimit?: number; // Maximum number of catch-up runs with catchUp "each", defaults to 3
+  
+  outputs?: JobOutputConfig[]; // Where to write the full job result (files, directories, stdout)
+  notifications?: NotificationRule[]; // Which events go to which notification channel
+}
+
+/**
+ * Per-execution context passed by the caller (CLI or scheduler)
+ */
+export interface JobRunContext {
+  trigger?: RunTrigger; // Defaults to 'manual'
+  schedule?: string; // Cron expression that fired the run
+  scheduledFor?: string; // Missed occurrence a catch-up run stands in for (ISO timestamp)
+  runId?: string; // Generated when omitted
+  upstream?: { jobName: string; runId: string }; // Upstream run that triggered this one (pipeline trigger only)
+  notifications?: NotificationsConfig; // Global notification channels from config.json
+  retry?: RetryPolicy; // Global retry policy from config.json
+  provider?: LlmProviderConfig; // Global LLM provider from config.json
+  memory?: MemoryConfig; // Global memory settings from config.json
+  timezone?: string; // Global timezone from config.json
+  signal?: AbortSignal; // Cancels the Gemini execution when aborted
+  queuedMs?: number; // Time the run waited before starting
+}
+
+/**
+ * Named part of an assembled prompt
+ * Concatenating the content of all sections yields the exact prompt sent to Gemini
+ */
+export interface PromptSection {
+  name: string;
+  content: string;
+}
+
+/**
+ * Fully assembled prompt for a job
+ */
+export interface JobPrompt {
+  prompt: string;
+  sections: PromptSection[];
+}
+
+const RESPONSE_FORMAT_INSTRUCTIONS = `IMPORTANT: Return your response as a valid JSON object with this exact structure:
+{
+  "jobResult": "Your main response/output here",
+  "jobMemory": {
+    "key1": "value1",
+    "key2": "value2"
+  }
+}
+
+The jobResult should contain the main output (report content, email status, etc.).
+The jobMemory should contain key-value pairs to remember for future executions (timestamps, versions, counters, etc.).
+If no memory updates are needed, you can omit the jobMemory field or use an empty object {}.
+
+Return ONLY the JSON object, no additional text before or after.`;
+
+const DEFAULT_RESULT_SCHEMA_RETRIES = 2;
+const MAX_REJECTED_RESPONSE_CHARS = 4000;
+
+/**
+ * Response format instructions, describing the declared jobResult schema when there is one
+ */
+function buildResponseFormatInstructions(resultSchema?: JsonSchema): string {
+  if (!resultSchema) {
+    return RESPONSE_FORMAT_INSTRUCTIONS;
+  }
+  return `IMPORTANT: Return your response as a valid JSON object with this exact structure:
+{
+  "jobResult": <structured value matching the JSON Schema below>,
+  "jobMemory": {
+    "key1": "value1",
+    "key2": "value2"
+  }
+}
+
+The jobResult MUST be valid against this JSON Schema:
+${JSON.stringify(resultSchema, null, 2)}
+
+The jobMemory should contain key-value pairs to remember for future executions (timestamps, versions, counters, etc.).
+If no memory updates are needed, you can omit the jobMemory field or use an empty object {}.
+
+Return ONLY the JSON object, no additional text before or after.`;
+}
+
+/**
+ * Check a raw response against the job's resultSchema
+ * Paths in the returned issues are relative to the whole response, e.g. "jobResult[0].title".
+ */
+function validateJobResult(output: string, resultSchema: JsonSchema): SchemaIssue[] {
+  const parsed = ResponseParser.parse(output);
+  const response = parsed.value;
+  if (!response) {
+    return [{ path: '(root)', message: `no usable JSON response: ${parsed.failureReason}` }];
+  }
+  if (response.jobResult === undefined) {
+    return [{ path: '(root)', message: 'missing required property "jobResult"' }];
+  }
+  return validateJsonSchema(response.jobResult, resultSchema).errors.map(issue => ({
+    path: issue.path === '(root)' ? 'jobResult' : issue.path.startsWith('[') ? `jobResult${issue.path}` : `jobResult.${issue.path}`,
+    message: issue.message
+  }));
+}
+
+/**
+ * Follow-up prompt asking the model to fix a response that failed schema validation
+ */
+function buildSchemaRepairPrompt(prompt: string, rejectedOutput: string, issues: SchemaIssue[]): string {
+  const rejected = rejectedOutput.length > MAX_REJECTED_RESPONSE_CHARS
+    ? `${rejectedOutput.substring(0, MAX_REJECTED_RESPONSE_CHARS)}\n[... truncated]`
+    : rejectedOutput;
+  return `${prompt}
+
+---
+
+YOUR PREVIOUS RESPONSE WAS REJECTED because it does not match the required JSON Schema:
+${formatSchemaIssues(issues)}
+
+Previous response:
+${rejected}
+
+Return the corrected JSON object only.`;
 }
 
 /**
@@ -42,104 +207,199 @@ export interface SimpleJobConfig {
  */
 export class SimpleTemplateManager {
   /**
-   * Load template content from array of markdown file paths
+   * Resolve a context file path relative to the config directory
    */
-  static loadTemplateContent(contextFiles: string[], configDir?: string): string {
-    const contents: string[] = [];
+  static resolveContextFilePath(file: string, configDir?: string): string {
+    if (path.isAbsolute(file)) {
+      return file;
+    }
+    const baseDir = configDir || Workspace.getPaths().configDir;
+    return path.join(baseDir, file);
+  }
+
+  /**
+   * Load each context file as a named prompt section
+   * Files are interpolated when a template context is given
+   */
+  static loadTemplateSections(contextFiles: string[], configDir?: string, templateContext?: TemplateContext): PromptSection[] {
+    const sections: PromptSection[] = [];
     
     for (const file of contextFiles) {
       if (file === 'custom') {
-        contents.push('Generate a report based on the following custom requirements:');
+        sections.push({ name: 'custom', content: 'Generate a report based on the following custom requirements:' });
         continue;
       }
       
-      let templatePath: string;
-      if (path.isAbsolute(file)) {
-        templatePath = file;
-      } else {
-        const baseDir = configDir || path.join(os.homedir(), '.gemini-cli-job');
-        templatePath = path.join(baseDir, file);
-      }
+      const templatePath = this.resolveContextFilePath(file, configDir);
       
       if (fs.existsSync(templatePath)) {
-        const content = fs.readFileSync(templatePath, 'utf8');
-        contents.push(`\n=== ${path.basename(file)} ===\n${content}`);
+        const rawContent = fs.readFileSync(templatePath, 'utf8');
+        const content = templateContext ? PromptTemplate.render(rawContent, templateContext, file) : rawContent;
+        sections.push({ name: `context: ${file}`, content: `=== ${path.basename(file)} ===\n${content}` });
       } else {
         throw new Error(`Context file not found: ${templatePath}`);
       }
     }
     
-    return contents.join('\n\n').trim();
+    return sections;
+  }
+
+  /**
+   * Load template content from array of markdown file paths
+   */
+  static loadTemplateContent(contextFiles: string[], configDir?: string): string {
+    return this.loadTemplateSections(contextFiles, configDir)
+      .map(section => section.content)
+      .join('\n\n')
+      .trim();
   }
 
   /**
    * Extract JSON object from mixed output text
-   * Handles cases where JSON is mixed with other stdout logs
+   * Handles cases where JSON is mixed with other stdout logs, prose or markdown fences
    */
   static extractJsonFromOutput(output: string): any | null {
     debug(`Attempting to extract JSON from output (${output.length} chars)`);
+    return ResponseParser.parse(output).value;
+  }
+}
+
+/**
+ * Assemble the prompt for a job from context files, pipeline inputs, memory,
+ * custom instructions and the response format instructions
+ * Never updates memory; with `dryRun` it doesn't repair a corrupt memory file either, so
+ * previews leave everything on disk as it was.
+ */
+export async function buildJobPrompt(jobConfig: SimpleJobConfig, configDir?: string, runInfo: { runId?: string; now?: Date; memoryUpdateMode?: MemoryUpdateMode; scheduledFor?: string; dryRun?: boolean } = {}): Promise<JobPrompt> {
+  const { jobName, promptConfig } = jobConfig;
+  const sections: PromptSection[] = [];
+  const memoryOptions = { readOnly: runInfo.dryRun };
+  
+  // Values for {{...}} interpolation in context files and the custom prompt
+  const templateContext: TemplateContext | undefined = promptConfig.templating !== true ? undefined : {
+    jobName,
+    runId: runInfo.runId || 'dry-run',
+    now: runInfo.now || new Date(),
+    memory: await JobMemory.loadJobMemory(jobName, memoryOptions),
+    env: Object.fromEntries((promptConfig.templateEnv || []).map(name => [name, process.env[name]])),
+    vars: jobConfig.variables || {}
+  };
+  
+  // Load template content from array of files
+  const contextSections = await ContextSources.loadSections(promptConfig.contextFiles, configDir, templateContext);
+  contextSections.forEach(section => {
+    sections.push({ name: section.name, content: `${section.content}\n\n` });
+  });
+  
+  // Add upstream pipeline inputs
+  if (promptConfig.inputs && promptConfig.inputs.length > 0) {
+    const inputContent = await JobPipeline.loadPipelineInputs(jobName, promptConfig.inputs, memoryOptions);
+    sections.push({ name: 'pipeline inputs', content: `${inputContent}\n\n` });
+  }
+  
+  // Add memory context (always enabled)
+  const memoryContent = await JobMemory.getMemoryContentForPrompt(jobName, runInfo.memoryUpdateMode, memoryOptions);
+  sections.push({ name: 'memory', content: `${memoryContent}\n\n` });
+  
+  // Tell the model which missed occurrence a catch-up run stands in for
+  if (runInfo.scheduledFor) {
+    sections.push({
+      name: 'catch-up',
+      content: `**NOTE:** This is a catch-up run for the occurrence scheduled at ${runInfo.scheduledFor}, which was missed while the scheduler was not running. Produce the result for that occurrence.\n\n`
+    });
+  }
+  
+  // Append custom prompt if provided
+  if (promptConfig.customPrompt) {
+    const customPrompt = templateContext
+      ? PromptTemplate.render(promptConfig.customPrompt, templateContext, 'customPrompt')
+      : promptConfig.customPrompt;
+    sections.push({
+      name: 'custom instructions',
+      content: `\n\n**IMPORTANT CUSTOM INSTRUCTIONS - PLEASE READ CAREFULLY:**\n${customPrompt}\n**END CUSTOM INSTRUCTIONS**`
+    });
+  }
+  
+  if (!sections.map(section => section.content).join('').trim()) {
+    throw new Error('No prompt content provided (template or custom prompt required)');
+  }
+  
+  // Add structured response instruction
+  sections.push({ name: 'response format', content: `\n\n---\n\n${buildResponseFormatInstructions(jobConfig.resultSchema)}` });
+  
+  return {
+    prompt: sections.map(section => section.content).join(''),
+    sections
+  };
+}
+
+/**
+ * Execute the LLM provider, retrying failed attempts according to the retry policy
+ * Every attempt is appended to `attempts`, including the final failing one.
+ * Empty output and missing JSON are only treated as failures while retries remain;
+ * the last attempt's output is returned as-is so the caller's fallback handling applies.
+ */
+async function executeWithRetry(
+  provider: LlmProvider,
+  prompt: string,
+  geminiOptions: GeminiOptions,
+  googleCloudProject: string | undefined,
+  policy: Required<RetryPolicy>,
+  jobName: string,
+  attempts: RetryAttempt[],
+  signal?: AbortSignal
+): Promise<{ stdout: string; stderr: string }> {
+  for (let attempt = 1; ; attempt++) {
+    const attemptStart = new Date();
+    if (policy.maxAttempts > 1) {
+      logJobExecution(jobName, `${provider.name} attempt ${attempt}/${policy.maxAttempts}`);
+    }
+    let failureClass: RetryFailureClass | undefined;
+    let failureMessage: string | undefined;
+    let result: { stdout: string; stderr: string } | undefined;
+    let executionError: Error | undefined;
     
     try {
-      // First, try parsing the entire output as JSON
-      const result = JSON.parse(output.trim());
-      debug('Successfully parsed entire output as JSON');
-      return result;
-    } catch {
-      debug('Failed to parse entire output as JSON, trying pattern matching');
-      
-      // If that fails, try to find JSON within the output
-      
-      // Look for JSON object patterns (starting with { and ending with })
-      const jsonPatterns = [
-        // Pattern 1: Look for complete JSON objects with jobResult
-        /\{[\s\S]*?"jobResult"[\s\S]*?\}/g,
-        // Pattern 2: Look for any complete JSON object
-        /\{[^{}]*(?:\{[^{}]*\}[^{}]*)*\}/g,
-        // Pattern 3: Look for JSON spanning multiple lines
-        /\{[\s\S]*?\}/g
-      ];
-      
-      for (let i = 0; i < jsonPatterns.length; i++) {
-        const pattern = jsonPatterns[i];
-        const matches = output.match(pattern);
-        debug(`Pattern ${i + 1} found ${matches?.length || 0} matches`);
-        
-        if (matches) {
-          for (const match of matches) {
-            try {
-              const parsed = JSON.parse(match);
-              // Validate it looks like our expected structure
-              if (parsed && typeof parsed === 'object' && parsed.jobResult) {
-                debug('Found valid JSON with jobResult field');
-                return parsed;
-              }
-            } catch {
-              // Continue to next match
-              continue;
-            }
-          }
+      result = await provider.execute(prompt, geminiOptions, googleCloudProject, signal);
+      if (!result.stdout) {
+        failureClass = 'empty_output';
+        failureMessage = result.stderr || 'No output returned';
+      } else if (policy.retryOn.includes('parse_error')) {
+        const parsed = ResponseParser.parse(result.stdout);
+        if (!parsed.value) {
+          failureClass = 'parse_error';
+          failureMessage = `No valid JSON response found in output: ${parsed.failureReason}`;
         }
       }
-      
-      // Try extracting JSON from common log formats
-      const lines = output.split('\n');
-      debug(`Checking ${lines.length} lines for JSON`);
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed.startsWith('{') && trimmed.includes('jobResult')) {
-          try {
-            const result = JSON.parse(trimmed);
-            debug('Found JSON in single line');
-            return result;
-          } catch {
-            continue;
-          }
-        }
+    } catch (err: any) {
+      executionError = err;
+      failureClass = classifyExecutionError(err);
+      failureMessage = err.message;
+    }
+    
+    attempts.push({
+      attempt,
+      startTime: attemptStart.toISOString(),
+      durationMs: Date.now() - attemptStart.getTime(),
+      failureClass,
+      error: failureMessage?.split('\n')[0]
+    });
+    
+    const canRetry = failureClass !== undefined
+      && policy.retryOn.includes(failureClass)
+      && attempt < policy.maxAttempts
+      && !signal?.aborted;
+    
+    if (!canRetry) {
+      if (executionError) {
+        throw executionError;
       }
-      
-      debug('No valid JSON found in output');
-      return null;
+      return result!;
     }
+    
+    const delayMs = computeRetryDelay(policy, attempt);
+    logJobExecution(jobName, `Attempt ${attempt}/${policy.maxAttempts} failed (${failureClass}): ${failureMessage?.split('\n')[0]}. Retrying in ${(delayMs / 1000).toFixed(1)}s`);
+    await waitForRetry(delayMs, signal);
   }
 }
 
@@ -147,85 +407,118 @@ export class SimpleTemplateManager {
  * Simple Job Runner
  * Executes jobs using markdown templates with optional custom prompts
  */
-export async function runSimpleJob(jobConfig: SimpleJobConfig, configDir?: string, globalGeminiOptions?: { model?: string; temperature?: number; maxTokens?: number }, googleCloudProject?: string): Promise<void> {
+export async function runSimpleJob(jobConfig: SimpleJobConfig, configDir?: string, globalGeminiOptions?: { model?: string; temperature?: number; maxTokens?: number; timeoutMs?: number }, googleCloudProject?: string, runContext: JobRunContext = {}): Promise<JobRunRecord> {
+  const runId = runContext.runId || RunHistory.generateRunId();
+  // Correlate every log entry of this run, including provider and memory output
+  return runWithLogContext(
+    { jobName: jobConfig.jobName, runId, trigger: runContext.trigger || 'manual', component: 'runner' },
+    () => executeSimpleJob(jobConfig, configDir, globalGeminiOptions, googleCloudProject, { ...runContext, runId })
+  );
+}
+
+async function executeSimpleJob(jobConfig: SimpleJobConfig, configDir: string | undefined, globalGeminiOptions: SimpleJobConfig['geminiOptions'], googleCloudProject: string | undefined, runContext: JobRunContext & { runId: string }): Promise<JobRunRecord> {
   const { jobName, promptConfig } = jobConfig;
+  const runId = runContext.runId;
+  const startTime = new Date();
+  const geminiOptions = {
+    ...globalGeminiOptions,
+    ...jobConfig.geminiOptions
+  };
+  const providerConfig = jobConfig.provider || runContext.provider;
+  let status: RunStatus = 'failure';
+  let responseType: JobRunRecord['responseType'];
+  let outputLength: number | undefined;
+  let jobResultText: string | undefined;
+  let runError: string | undefined;
+  let providerError: Error | undefined; // Error thrown by the model execution, after retries
+  let runRecord: JobRunRecord;
+  const attempts: RetryAttempt[] = [];
+  
+  const historyLimit = jobConfig.memory?.historyLimit ?? runContext.memory?.historyLimit;
+  const memoryUpdateMode = jobConfig.memory?.updateMode ?? runContext.memory?.updateMode ?? 'merge';
+  
+  logJobExecution(jobName, `Run ID: ${runId}`);
+  if (runContext.scheduledFor) {
+    logJobExecution(jobName, `Catch-up run for the occurrence scheduled at ${runContext.scheduledFor}`);
+  }
+  
+  // Capture manual edits made since the last snapshot, so they can be restored too
+  JobMemory.snapshotJobMemory(jobName, { reason: 'before run', runId, historyLimit });
   
   try {
     // Load environment configuration to ensure Gemini CLI has proper credentials
     const envConfig = EnvConfigLoader.loadEnvConfig();
     logJobExecution(jobName, `Environment loaded: Project=${envConfig.googleCloudProject}, Model=${envConfig.geminiModel}`);
     
-    logJobExecution(jobName, `Running job using templates: [${promptConfig.contextFiles.join(', ')}]`);
+    logJobExecution(jobName, `Running job using templates: [${promptConfig.contextFiles.map(source => ContextSources.describe(source)).join(', ')}]`);
     
-    // Load template content from array of files
-    const templateContent = SimpleTemplateManager.loadTemplateContent(promptConfig.contextFiles, configDir);
-    let prompt = templateContent ? `${templateContent}\n\n` : '';
+    const { prompt, sections } = await buildJobPrompt(jobConfig, configDir, { runId, now: startTime, memoryUpdateMode, scheduledFor: runContext.scheduledFor });
+    logJobExecution(jobName, `Prompt sections: ${sections.map(section => section.name).join(', ')}`);
     
-    // Add memory context (always enabled)
-    const memoryContent = await JobMemory.getMemoryContentForPrompt(jobName);
-    prompt += `${memoryContent}\n\n`;
-    logJobExecution(jobName, 'Added memory context to prompt');
+    logJobExecution(jobName, 'Generated prompt for Gemini CLI');
     
-    // Append custom prompt if provided
-    if (promptConfig.customPrompt) {
-      prompt += `\n\n**IMPORTANT CUSTOM INSTRUCTIONS - PLEASE READ CAREFULLY:**\n${promptConfig.customPrompt}\n**END CUSTOM INSTRUCTIONS**`;
-      logJobExecution(jobName, 'Added custom prompt instructions');
-    }
+    // Execute the configured provider (Gemini CLI by default) with options from config or environment
+    const provider = createLlmProvider(providerConfig, configDir);
+    logJobExecution(jobName, `Executing ${provider.name} with model: ${geminiOptions.model || 'default'}`);
+    const retryPolicy = resolveRetryPolicy(runContext.retry, jobConfig.retry);
+    const execute = (executedPrompt: string) => executeWithRetry(provider, executedPrompt, geminiOptions, googleCloudProject, retryPolicy, jobName, attempts, runContext.signal)
+      .catch((err: Error) => {
+        providerError = err;
+        throw err;
+      });
+    let result = await execute(prompt);
     
-    if (!prompt.trim()) {
-      throw new Error('No prompt content provided (template or custom prompt required)');
+    // Re-prompt with the validation errors until the jobResult matches the declared schema
+    if (jobConfig.resultSchema) {
+      const maxRepairs = jobConfig.resultSchemaRetries ?? DEFAULT_RESULT_SCHEMA_RETRIES;
+      for (let repair = 0; ; repair++) {
+        const issues = validateJobResult(result.stdout, jobConfig.resultSchema);
+        if (issues.length === 0) {
+          logJobExecution(jobName, 'Response matches resultSchema');
+          break;
+        }
+        
+        const lastAttempt = attempts[attempts.length - 1];
+        lastAttempt.failureClass = 'schema_error';
+        lastAttempt.error = `${issues.length} schema issue(s): ${issues[0].path}: ${issues[0].message}`;
+        
+        if (repair >= maxRepairs) {
+          throw new Error(`Response does not match resultSchema after ${repair + 1} response(s):\n${formatSchemaIssues(issues)}`);
+        }
+        logJobExecution(jobName, `Response does not match resultSchema (${issues.length} issue(s)), re-prompting (${repair + 1}/${maxRepairs})`);
+        result = await execute(buildSchemaRepairPrompt(prompt, result.stdout, issues));
+      }
     }
     
-    // Add structured response instruction
-    prompt += `\n\n---\n\nIMPORTANT: Return your response as a valid JSON object with this exact structure:
-{
-  "jobResult": "Your main response/output here",
-  "jobMemory": {
-    "key1": "value1",
-    "key2": "value2"
-  }
-}
-
-The jobResult should contain the main output (report content, email status, etc.).
-The jobMemory should contain key-value pairs to remember for future executions (timestamps, versions, counters, etc.).
-If no memory updates are needed, you can omit the jobMemory field or use an empty object {}.
-
-Return ONLY the JSON object, no additional text before or after.`;
-    
-    logJobExecution(jobName, 'Generated prompt for Gemini CLI');
-    
-    // Execute Gemini CLI with options from config or environment
-    const geminiCore = new GeminiCliCore();
-    const geminiOptions = {
-      ...globalGeminiOptions,
-      ...jobConfig.geminiOptions
-    };
-    logJobExecution(jobName, `Executing Gemini CLI with model: ${geminiOptions.model || 'default'}`);
-    const result = await geminiCore.executeGemini(prompt, geminiOptions, googleCloudProject);
-    
     // Check if execution was successful (no errors thrown)
     if (result.stdout) {
       logJobExecution(jobName, `Gemini CLI execution completed successfully, output length: ${result.stdout.length} characters`);
       
       try {
         // Try to extract and parse JSON from the output
-        const jsonResult = SimpleTemplateManager.extractJsonFromOutput(result.stdout);
+        const parsedResponse = ResponseParser.parse(result.stdout);
+        const jsonResult = parsedResponse.value;
         
         if (jsonResult) {
           // Successfully found and parsed JSON
           const geminiResponse: GeminiJobResponse = jsonResult;
           
           // Validate response structure
-          if (!geminiResponse.jobResult) {
+          if (geminiResponse.jobResult === undefined) {
             throw new Error('Invalid JSON response: missing jobResult field');
           }
           
-          logJobExecution(jobName, `Successfully parsed JSON response, result length: ${geminiResponse.jobResult.length} characters`);
+          // Structured results (resultSchema) are stored and written as formatted JSON
+          const resultText: string = typeof geminiResponse.jobResult === 'string'
+            ? geminiResponse.jobResult
+            : JSON.stringify(geminiResponse.jobResult, null, 2);
+          
+          logJobExecution(jobName, `Successfully parsed JSON response, result length: ${resultText.length} characters`);
           
           // Display the main job result
-          const preview = geminiResponse.jobResult.length > 2000 ? 
-            geminiResponse.jobResult.substring(0, 200) + '...' : 
-            geminiResponse.jobResult;
+          const preview = resultText.length > 2000 ? 
+            resultText.substring(0, 200) + '...' : 
+            resultText;
           log(`Job Result (from JSON):\n${preview}`);
           
           // Handle memory updates (always enabled)
@@ -233,18 +526,21 @@ Return ONLY the JSON object, no additional text before or after.`;
             // Always add execution metadata
             lastExecutionTime: new Date().toISOString(),
             lastExecutionSuccess: true,
-            lastOutputLength: geminiResponse.jobResult.length,
+            lastOutputLength: resultText.length,
             lastResponseType: 'json',
             // Add any memory updates from Gemini
             ...(geminiResponse.jobMemory || {})
           };
           
-          await JobMemory.saveJobMemory(jobName, memoryUpdates);
-          logJobExecution(jobName, `Updated memory with ${Object.keys(memoryUpdates).length} keys`);
+          await JobMemory.updateJobMemory(jobName, memoryUpdates, memoryUpdateMode);
+          logJobExecution(jobName, `Updated memory with ${Object.keys(memoryUpdates).length} keys (${memoryUpdateMode})`);
+          responseType = 'json';
+          outputLength = resultText.length;
+          jobResultText = resultText;
           
         } else {
           // No valid JSON found, treat as plain text
-          logJobExecution(jobName, 'No valid JSON response found, treating entire output as plain text result');
+          logJobExecution(jobName, `No valid JSON response found (${parsedResponse.failureReason}), treating entire output as plain text result`);
           
           const preview = result.stdout.length > 2000 ? 
             result.stdout.substring(0, 200) + '...' : 
@@ -256,10 +552,14 @@ Return ONLY the JSON object, no additional text before or after.`;
             lastExecutionTime: new Date().toISOString(),
             lastExecutionSuccess: true,
             lastOutputLength: result.stdout.length,
-            lastResponseType: 'plain_text'
+            lastResponseType: 'plain_text',
+            lastParseFailure: parsedResponse.failureReason
           };
-          await JobMemory.saveJobMemory(jobName, memoryUpdates);
+          await JobMemory.updateJobMemory(jobName, memoryUpdates);
           logJobExecution(jobName, 'Updated memory with execution metadata');
+          responseType = 'plain_text';
+          outputLength = result.stdout.length;
+          jobResultText = result.stdout;
         }
         
       } catch (parseError: any) {
@@ -279,10 +579,33 @@ Return ONLY the JSON object, no additional text before or after.`;
           lastResponseType: 'parse_error',
           lastParseError: parseError.message
         };
-        await JobMemory.saveJobMemory(jobName, memoryUpdates);
+        await JobMemory.updateJobMemory(jobName, memoryUpdates);
         logJobExecution(jobName, 'Updated memory with error details');
+        responseType = 'parse_error';
+        outputLength = result.stdout.length;
+        jobResultText = result.stdout;
       }
       
+      // Write the full result to configured output sinks
+      if (jobConfig.outputs && jobConfig.outputs.length > 0 && jobResultText !== undefined) {
+        const outputPaths = JobOutputWriter.writeOutputs(jobConfig.outputs, jobResultText, {
+          jobName,
+          runId,
+          configDir,
+          date: startTime,
+          timeZone: jobConfig.timezone || runContext.timezone
+        });
+        if (outputPaths.length > 0) {
+          await JobMemory.updateJobMemory(jobName, { lastOutputPaths: outputPaths });
+        }
+      }
+      
+      if (jobResultText !== undefined) {
+        RunHistory.saveRunResult(jobName, runId, jobResultText);
+      }
+      
+      status = 'success';
+      
     } else {
       const errorMsg = `Gemini CLI returned no output. This may indicate:
 1. Authentication issues - check if you're logged in with 'gcloud auth application-default login'
@@ -299,16 +622,71 @@ Stderr: ${result.stderr}`;
         lastExecutionSuccess: false,
         lastError: result.stderr || 'No output returned'
       };
-      await JobMemory.saveJobMemory(jobName, memoryUpdates);
+      await JobMemory.updateJobMemory(jobName, memoryUpdates);
       
       throw new Error(errorMsg);
     }
     
   } catch (err: any) {
+    if (runContext.signal?.aborted) {
+      status = 'cancelled';
+    } else {
+      // Only a timeout of the model execution itself counts, not e.g. a memory lock timeout
+      status = err === providerError && classifyExecutionError(err) === 'timeout' ? 'timeout' : 'failure';
+    }
+    runError = err.message;
     logJobExecution(jobName, `Job execution error: ${err.message}`);
     error(`Error running Simple Job ${jobName}:`, err);
     throw err;
+  } finally {
+    if (attempts.length > 0 && status !== 'cancelled') {
+      await JobMemory.updateJobMemory(jobName, {
+        lastAttemptCount: attempts.length,
+        lastAttempts: attempts
+      }).catch((err: any) => error(`Failed to record attempts for job ${jobName}:`, err.message));
+    }
+    if (runContext.scheduledFor && status !== 'cancelled') {
+      await JobMemory.updateJobMemory(jobName, {
+        lastCatchUpRun: { runId, scheduledFor: runContext.scheduledFor, success: status === 'success' }
+      }).catch((err: any) => error(`Failed to record catch-up run for job ${jobName}:`, err.message));
+    }
+    if (status !== 'cancelled') {
+      JobMemory.snapshotJobMemory(jobName, { reason: 'run', runId, historyLimit });
+    }
+    
+    const endTime = new Date();
+    runRecord = {
+      runId,
+      jobName,
+      trigger: runContext.trigger || 'manual',
+      schedule: runContext.schedule,
+      scheduledFor: runContext.scheduledFor,
+      upstreamJob: runContext.upstream?.jobName,
+      upstreamRunId: runContext.upstream?.runId,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      durationMs: endTime.getTime() - startTime.getTime(),
+      queuedMs: runContext.queuedMs,
+      attempts: attempts.length || undefined,
+      provider: providerConfig?.type,
+      model: geminiOptions.model || process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+      status,
+      responseType,
+      error: runError,
+      outputLength
+    };
+    RunHistory.recordRun(runRecord);
+    logEvent(status === 'success' ? 'info' : 'error', `Run ${status}`, {
+      status,
+      durationMs: runRecord.durationMs,
+      attempts: runRecord.attempts,
+      responseType,
+      outputLength
+    });
+    Notifier.dispatchRun(runRecord, jobConfig.notifications, runContext.notifications, jobResultText);
   }
+  
+  return runRecord;
 }
 
 // Export aliases for backward compatibility
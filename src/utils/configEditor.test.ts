@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ConfigEditor } from './configEditor';
+
+const CONFIG = `{
+  "timezone": "Europe/London",
+  "jobs": [
+    {
+      "jobName": "standup",
+      "enabled": true,
+      "schedules": ["0 9 * * 1-5"],
+      "promptConfig": { "contextFiles": [] }
+    },
+    {
+      "jobName": "weekly",
+      "enabled": false,
+      "schedules": []
+    }
+  ],
+  "notifications": {}
+}
+`;
+
+describe('ConfigEditor', () => {
+  describe('set', () => {
+    it('replaces a value and keeps the rest of the text', () => {
+      const editor = new ConfigEditor(CONFIG);
+      editor.set(['jobs', 1, 'enabled'], true);
+      assert.equal(editor.getText(), CONFIG.replace('"enabled": false', '"enabled": true'));
+    });
+
+    it('replaces a value with an object, indented like its property', () => {
+      const editor = new ConfigEditor(CONFIG);
+      editor.set(['jobs', 1, 'schedules'], [{ cron: '0 17 * * 5' }]);
+      assert.ok(editor.getText().includes([
+        '      "schedules": [',
+        '        {',
+        '          "cron": "0 17 * * 5"',
+        '        }',
+        '      ]'
+      ].join('\n')));
+      assert.deepEqual(editor.getValue().jobs[1].schedules, [{ cron: '0 17 * * 5' }]);
+    });
+
+    it('adds a property to a non-empty multi-line object', () => {
+      const editor = new ConfigEditor(CONFIG);
+      editor.set(['jobs', 1, 'timezone'], 'Asia/Singapore');
+      assert.ok(editor.getText().includes('      "schedules": [],\n      "timezone": "Asia/Singapore"\n    }'));
+    });
+
+    it('adds a property to a non-empty single-line object', () => {
+      const editor = new ConfigEditor(CONFIG);
+      editor.set(['jobs', 0, 'promptConfig', 'templating'], true);
+      assert.ok(editor.getText().includes('"promptConfig": { "contextFiles": [], "templating": true }'));
+    });
+
+    it('inserts into an empty object on its own line', () => {
+      const editor = new ConfigEditor(CONFIG);
+      editor.set(['notifications', 'webhook'], { url: 'https://example.com/hook' });
+      assert.ok(editor.getText().includes([
+        '  "notifications": {',
+        '    "webhook": {',
+        '      "url": "https://example.com/hook"',
+        '    }',
+        '  }'
+      ].join('\n')));
+    });
+
+    it('inserts into empty and non-empty arrays', () => {
+      const editor = new ConfigEditor(CONFIG);
+      editor.append(['jobs', 1, 'schedules'], '0 17 * * 5');
+      editor.append(['jobs', 0, 'schedules'], '0 13 * * 1-5');
+      assert.deepEqual(editor.getValue().jobs[1].schedules, ['0 17 * * 5']);
+      assert.ok(editor.getText().includes('"schedules": ["0 9 * * 1-5", "0 13 * * 1-5"]'));
+    });
+
+    it('handles strings containing quotes, brackets and commas', () => {
+      const text = '{"prompt": "say \\"hi\\", then [stop] }", "x": 1}';
+      const editor = new ConfigEditor(text);
+      editor.set(['x'], 2);
+      assert.equal(editor.getText(), '{"prompt": "say \\"hi\\", then [stop] }", "x": 2}');
+    });
+
+    it('rejects paths that do not exist', () => {
+      const editor = new ConfigEditor(CONFIG);
+      assert.throws(() => editor.set(['jobs', 5, 'enabled'], true), /jobs\[5\] does not exist/);
+      assert.throws(() => editor.set(['jobs', 'first'], true), /Cannot set jobs.first/);
+      assert.throws(() => editor.append(['timezone'], 'x'), /timezone is not an array/);
+    });
+  });
+
+  describe('remove', () => {
+    const ARRAY = '{\n  "items": [\n    "a",\n    "b",\n    "c"\n  ]\n}';
+
+    it('removes the first entry', () => {
+      const editor = new ConfigEditor(ARRAY);
+      editor.remove(['items', 0]);
+      assert.equal(editor.getText(), '{\n  "items": [\n    "b",\n    "c"\n  ]\n}');
+    });
+
+    it('removes a middle entry', () => {
+      const editor = new ConfigEditor(ARRAY);
+      editor.remove(['items', 1]);
+      assert.equal(editor.getText(), '{\n  "items": [\n    "a",\n    "c"\n  ]\n}');
+    });
+
+    it('removes the last entry', () => {
+      const editor = new ConfigEditor(ARRAY);
+      editor.remove(['items', 2]);
+      assert.equal(editor.getText(), '{\n  "items": [\n    "a",\n    "b"\n  ]\n}');
+    });
+
+    it('removes the only entry', () => {
+      const editor = new ConfigEditor('{"items": ["a"], "x": 1}');
+      editor.remove(['items', 0]);
+      editor.remove(['x']);
+      assert.equal(editor.getText(), '{"items": []}');
+    });
+
+    it('removes object properties and whole array items', () => {
+      const editor = new ConfigEditor(CONFIG);
+      editor.remove(['timezone']);
+      editor.remove(['jobs', 0]);
+      assert.deepEqual(editor.getValue(), { jobs: [{ jobName: 'weekly', enabled: false, schedules: [] }], notifications: {} });
+      assert.ok(editor.getText().startsWith('{\n  "jobs": [\n    {\n      "jobName": "weekly"'));
+    });
+
+    it('ignores entries that do not exist', () => {
+      const editor = new ConfigEditor(CONFIG);
+      editor.remove(['jobs', 7]);
+      editor.remove(['missing']);
+      assert.equal(editor.getText(), CONFIG);
+    });
+  });
+
+  it('rejects invalid JSON', () => {
+    assert.throws(() => new ConfigEditor('{"jobs": [}'));
+  });
+});
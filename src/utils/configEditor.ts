@@ -0,0 +1,251 @@
+/**
+ * Location of a JSON value in the source text
+ */
+interface JsonNode {
+  start: number;
+  end: number; // Exclusive
+  properties?: Array<{ key: string; keyStart: number; value: JsonNode }>; // Objects
+  items?: JsonNode[]; // Arrays
+}
+
+export type JsonPath = Array<string | number>;
+
+const MAX_INLINE_LENGTH = 80;
+
+/**
+ * Parse JSON text into nodes with source offsets (the text must already be valid JSON)
+ */
+function parseNode(text: string, position: { offset: number }): JsonNode {
+  const skipWhitespace = () => {
+    while (/\s/.test(text[position.offset] || '')) {
+      position.offset++;
+    }
+  };
+  const readString = (): string => {
+    const start = position.offset;
+    position.offset++;
+    while (text[position.offset] !== '"') {
+      position.offset += text[position.offset] === '\\' ? 2 : 1;
+    }
+    position.offset++;
+    return JSON.parse(text.slice(start, position.offset));
+  };
+
+  skipWhitespace();
+  const start = position.offset;
+  const char = text[start];
+
+  if (char === '{') {
+    const properties: NonNullable<JsonNode['properties']> = [];
+    position.offset++;
+    skipWhitespace();
+    while (text[position.offset] !== '}') {
+      const keyStart = position.offset;
+      const key = readString();
+      skipWhitespace();
+      position.offset++; // ":"
+      properties.push({ key, keyStart, value: parseNode(text, position) });
+      skipWhitespace();
+      if (text[position.offset] === ',') {
+        position.offset++;
+        skipWhitespace();
+      }
+    }
+    position.offset++;
+    return { start, end: position.offset, properties };
+  }
+
+  if (char === '[') {
+    const items: JsonNode[] = [];
+    position.offset++;
+    skipWhitespace();
+    while (text[position.offset] !== ']') {
+      items.push(parseNode(text, position));
+      skipWhitespace();
+      if (text[position.offset] === ',') {
+        position.offset++;
+        skipWhitespace();
+      }
+    }
+    position.offset++;
+    return { start, end: position.offset, items };
+  }
+
+  if (char === '"') {
+    readString();
+  } else {
+    // Numbers, true, false and null
+    while (position.offset < text.length && /[^\s,\]}]/.test(text[position.offset])) {
+      position.offset++;
+    }
+  }
+  return { start, end: position.offset };
+}
+
+/**
+ * Config Editor
+ * Changes values in JSON text while keeping the formatting, key order and whitespace of
+ * everything it doesn't touch, so edits to config.json leave the rest of the file as written
+ */
+export class ConfigEditor {
+  private readonly indentUnit: string;
+
+  constructor(private text: string) {
+    JSON.parse(text); // Fail early on invalid JSON
+    this.indentUnit = /\n([ \t]+)\S/.exec(text)?.[1] || '  ';
+  }
+
+  /**
+   * Current text
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Current content, parsed
+   */
+  getValue(): any {
+    return JSON.parse(this.text);
+  }
+
+  /**
+   * Set a value, adding the property or array item when it doesn't exist yet
+   */
+  set(path: JsonPath, value: any): void {
+    const parent = this.findNode(path.slice(0, -1));
+    const key = path[path.length - 1];
+
+    if (parent.properties && typeof key === 'string') {
+      const property = parent.properties.find(candidate => candidate.key === key);
+      if (property) {
+        this.replace(property.value.start, property.value.end, this.serialize(value, this.lineIndent(property.keyStart)));
+      } else {
+        this.insertEntry(parent, parent.properties.map(candidate => ({ start: candidate.keyStart, end: candidate.value.end })), `${JSON.stringify(key)}: `, value);
+      }
+      return;
+    }
+    if (parent.items && typeof key === 'number' && key >= 0 && key <= parent.items.length) {
+      const item = parent.items[key];
+      if (item) {
+        this.replace(item.start, item.end, this.serialize(value, this.lineIndent(item.start)));
+      } else {
+        this.insertEntry(parent, parent.items, '', value);
+      }
+      return;
+    }
+    throw new Error(`Cannot set ${this.describe(path)}`);
+  }
+
+  /**
+   * Append an item to an array
+   */
+  append(arrayPath: JsonPath, value: any): void {
+    const array = this.findNode(arrayPath);
+    if (!array.items) {
+      throw new Error(`${this.describe(arrayPath)} is not an array`);
+    }
+    this.set([...arrayPath, array.items.length], value);
+  }
+
+  /**
+   * Remove a property or array item; removing something that doesn't exist does nothing
+   */
+  remove(path: JsonPath): void {
+    const parent = this.findNode(path.slice(0, -1));
+    const key = path[path.length - 1];
+    const entries = parent.properties
+      ? parent.properties.map(property => ({ key: property.key as string | number, start: property.keyStart, end: property.value.end }))
+      : (parent.items || []).map((item, index) => ({ key: index as string | number, start: item.start, end: item.end }));
+    const index = entries.findIndex(entry => entry.key === key);
+    if (index === -1) {
+      return;
+    }
+
+    if (entries.length === 1) {
+      this.replace(parent.start + 1, parent.end - 1, '');
+    } else if (index < entries.length - 1) {
+      // Up to the next entry, taking the comma and the whitespace before the next entry
+      this.replace(entries[index].start, entries[index + 1].start, '');
+    } else {
+      // Last entry: from the end of the previous one, taking its comma
+      this.replace(entries[index - 1].end, entries[index].end, '');
+    }
+  }
+
+  private findNode(path: JsonPath): JsonNode {
+    let node = parseNode(this.text, { offset: 0 });
+    for (const key of path) {
+      const next = typeof key === 'number'
+        ? node.items?.[key]
+        : node.properties?.find(property => property.key === key)?.value;
+      if (!next) {
+        throw new Error(`${this.describe(path)} does not exist`);
+      }
+      node = next;
+    }
+    return node;
+  }
+
+  /**
+   * Insert an entry after the last one, following the layout of the existing entries
+   */
+  private insertEntry(container: JsonNode, entries: Array<{ start: number; end: number }>, prefix: string, value: any): void {
+    const last = entries[entries.length - 1];
+    if (last) {
+      const multiline = this.text.slice(container.start, entries[0].start).includes('\n');
+      const indent = this.lineIndent(last.start);
+      const separator = multiline ? `,\n${indent}` : ', ';
+      this.replace(last.end, last.end, `${separator}${prefix}${this.serialize(value, indent)}`);
+      return;
+    }
+
+    // Empty container: put the entry on its own line, one level deeper than the container
+    const indent = this.lineIndent(container.start);
+    const entryIndent = indent + this.indentUnit;
+    this.replace(container.start + 1, container.end - 1, `\n${entryIndent}${prefix}${this.serialize(value, entryIndent)}\n${indent}`);
+  }
+
+  /**
+   * JSON for a value placed on a line indented with `indent`
+   * Arrays of plain values stay on one line when short, e.g. "schedules": ["0 9 * * 1-5"].
+   */
+  private serialize(value: any, indent: string): string {
+    if (Array.isArray(value)) {
+      const inline = `[${value.map(item => JSON.stringify(item)).join(', ')}]`;
+      if (value.every(item => typeof item !== 'object' || item === null) && inline.length <= MAX_INLINE_LENGTH) {
+        return inline;
+      }
+      if (value.length === 0) {
+        return '[]';
+      }
+      const itemIndent = indent + this.indentUnit;
+      return `[\n${value.map(item => itemIndent + this.serialize(item, itemIndent)).join(',\n')}\n${indent}]`;
+    }
+    if (typeof value === 'object' && value !== null) {
+      const keys = Object.keys(value).filter(key => value[key] !== undefined);
+      if (keys.length === 0) {
+        return '{}';
+      }
+      const propertyIndent = indent + this.indentUnit;
+      return `{\n${keys.map(key => `${propertyIndent}${JSON.stringify(key)}: ${this.serialize(value[key], propertyIndent)}`).join(',\n')}\n${indent}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Leading whitespace of the line containing an offset
+   */
+  private lineIndent(offset: number): string {
+    const lineStart = this.text.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*/.exec(this.text.slice(lineStart))![0];
+  }
+
+  private replace(start: number, end: number, replacement: string): void {
+    this.text = this.text.slice(0, start) + replacement + this.text.slice(end);
+  }
+
+  private describe(path: JsonPath): string {
+    return path.map(key => (typeof key === 'number' ? `[${key}]` : `.${key}`)).join('').replace(/^\./, '') || '(root)';
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigValidator, ConfigValidationOptions } from './configValidator';
+
+function job(jobName: string, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { jobName, enabled: true, schedules: ['0 9 * * 1-5'], promptConfig: { contextFiles: [] }, ...extra };
+}
+
+function issues(config: unknown, options?: ConfigValidationOptions): { errors: string[]; warnings: string[] } {
+  const result = ConfigValidator.validateConfig(config, options);
+  const format = (list: typeof result.errors) => list.map(issue => `${issue.path}: ${issue.message}`);
+  return { errors: format(result.errors), warnings: format(result.warnings) };
+}
+
+describe('ConfigValidator', () => {
+  it('accepts a valid config', () => {
+    assert.deepEqual(issues({
+      timezone: 'Europe/London',
+      jobs: [job('standup', { timezone: 'Asia/Singapore', onSuccess: ['report'] }), job('report', { schedules: [] })],
+      notifications: { channels: { ops: { type: 'webhook', url: 'https://example.com/hook' } } },
+      logging: { format: 'legacy' }
+    }), { errors: [], warnings: [] });
+  });
+
+  describe('schema', () => {
+    it('reports missing and mistyped fields with their paths', () => {
+      assert.deepEqual(issues({}).errors, ['(root): missing required property "jobs"']);
+      assert.deepEqual(issues({ jobs: [{ jobName: 'a', enabled: 'yes', schedules: [], promptConfig: { contextFiles: [] } }] }).errors, [
+        'jobs[0].enabled: expected boolean, got string'
+      ]);
+      assert.deepEqual(issues({ jobs: [job('a', { promptConfig: { contextFiles: [{ type: 'url', path: 'x' }] } })] }).errors, [
+        'jobs[0].promptConfig.contextFiles[0].type: must be one of "file", "glob", "command", "directory"'
+      ]);
+    });
+
+    it('rejects invalid cron expressions and timezones', () => {
+      assert.deepEqual(issues({ jobs: [job('a', { schedules: ['0 9 * * 1-5', 'every day'] })] }).errors, [
+        'jobs[0].schedules[1]: invalid cron: "every day"'
+      ]);
+      assert.deepEqual(issues({ timezone: 'Mars/Olympus', jobs: [job('a', { timezone: 'Europe/Lundon' })] }).errors, [
+        'timezone: invalid timezone: "Mars/Olympus"',
+        'jobs[0].timezone: invalid timezone: "Europe/Lundon"'
+      ]);
+    });
+
+    it('checks result schemas', () => {
+      assert.deepEqual(issues({ jobs: [job('a', { resultSchema: { type: 'list' } })] }).errors, [
+        'jobs[0].resultSchema.type: must be one of "string", "number", "integer", "boolean", "object", "array", "null"'
+      ]);
+      assert.deepEqual(issues({ jobs: [job('a', { resultSchema: { type: 'object', properties: { items: { type: 'array', items: { type: 'string' } } } } })] }).errors, []);
+    });
+
+    it('warns about unknown keys, suggesting the intended one', () => {
+      assert.deepEqual(issues({ jobs: [job('a', { schedule: ['0 9 * * *'], colour: 'red' })], timezon: 'UTC' }), {
+        errors: [],
+        warnings: [
+          'jobs[0].schedule: unknown property (did you mean "schedules"?)',
+          'jobs[0].colour: unknown property',
+          'timezon: unknown property (did you mean "timezone"?)'
+        ]
+      });
+    });
+
+    it('skips the semantic checks until the structure is valid', () => {
+      assert.deepEqual(issues({ jobs: [job('a'), job('a', { enabled: 1 })] }).errors, ['jobs[1].enabled: expected boolean, got integer']);
+    });
+  });
+
+  describe('semantic checks', () => {
+    it('rejects duplicate job names, ignoring case', () => {
+      assert.deepEqual(issues({ jobs: [job('Standup'), job('weekly'), job('standup')] }).errors, [
+        'jobs[2].jobName: duplicate job name "standup" (also used by jobs[0])'
+      ]);
+    });
+
+    it('checks providers', () => {
+      assert.deepEqual(issues({ provider: { type: 'mock' }, jobs: [job('a', { provider: { type: 'mock', responses: [{ text: 'x', when: '(' }] } })] }).errors.map(error => error.split(':')[0]), [
+        'provider',
+        'jobs[0].provider'
+      ]);
+    });
+
+    it('checks template syntax of the custom prompt only with templating on', () => {
+      const promptConfig = { contextFiles: [], customPrompt: '{{#if memory.x}}open' };
+      assert.deepEqual(issues({ jobs: [job('a', { promptConfig })] }).errors, []);
+      assert.deepEqual(issues({ jobs: [job('a', { promptConfig: { ...promptConfig, templating: true } })] }).errors, [
+        'jobs[0].promptConfig.customPrompt: Template error in customPrompt (line 1): unclosed {{#if memory.x}}'
+      ]);
+    });
+
+    it('rejects broken pipelines', () => {
+      assert.deepEqual(issues({ jobs: [job('a', { dependsOn: ['missing'] })] }).errors, [
+        'jobs: Job "a" references unknown job "missing" in dependsOn'
+      ]);
+    });
+
+    it('requires the field of each context source type', () => {
+      assert.deepEqual(issues({ jobs: [job('a', { promptConfig: { contextFiles: ['custom', { type: 'glob', path: 'notes' }] } })] }).errors, [
+        'jobs[0].promptConfig.contextFiles[1]: glob source requires "pattern"'
+      ]);
+    });
+  });
+
+  describe('context files', () => {
+    let configDir: string;
+
+    before(() => {
+      configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-validator-test-'));
+      fs.mkdirSync(path.join(configDir, 'notes'));
+      fs.writeFileSync(path.join(configDir, 'about.md'), 'About {{vars.team}}');
+      fs.writeFileSync(path.join(configDir, 'notes', 'a.md'), 'Example: {{#if}}');
+    });
+
+    after(() => {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    });
+
+    function contextIssues(contextFiles: unknown[], templating = false): { errors: string[]; warnings: string[] } {
+      return issues({ jobs: [job('a', { promptConfig: { contextFiles, templating } })] }, { configDir, checkContextFiles: true });
+    }
+
+    it('is only checked when asked to', () => {
+      assert.deepEqual(issues({ jobs: [job('a', { promptConfig: { contextFiles: ['missing.md'] } })] }, { configDir }).errors, []);
+    });
+
+    it('reports missing files, empty globs and missing directories', () => {
+      assert.deepEqual(contextIssues(['about.md', 'missing.md', { type: 'glob', pattern: '*.txt' }, { type: 'directory', path: 'reports' }]).errors, [
+        `jobs[0].promptConfig.contextFiles[1]: context file not found: ${path.join(configDir, 'missing.md')}`,
+        'jobs[0].promptConfig.contextFiles[2]: no files match *.txt',
+        `jobs[0].promptConfig.contextFiles[3]: context directory not found: ${path.join(configDir, 'reports')}`
+      ]);
+    });
+
+    it('reports problems with optional sources as warnings', () => {
+      assert.deepEqual(contextIssues([{ type: 'file', path: 'missing.md', required: false }]), {
+        errors: [],
+        warnings: [`jobs[0].promptConfig.contextFiles[0]: context file not found: ${path.join(configDir, 'missing.md')}`]
+      });
+    });
+
+    it('checks the templates of templated sources', () => {
+      assert.deepEqual(contextIssues(['about.md', { type: 'glob', pattern: 'notes/*.md' }], true).errors, []);
+      assert.deepEqual(contextIssues([{ type: 'glob', pattern: 'notes/*.md', templating: true }], true).errors, [
+        `jobs[0].promptConfig.contextFiles[0]: Template error in ${path.join(configDir, 'notes', 'a.md')} (line 1): invalid variable name "#if" in {{#if}}`
+      ]);
+      assert.deepEqual(contextIssues([{ type: 'command', command: 'echo {{memory.x' }], true).errors, []);
+      assert.deepEqual(contextIssues([{ type: 'command', command: 'echo {{ memory.x | trim }}' }], true).errors.length, 1);
+    });
+  });
+});
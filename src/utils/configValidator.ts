@@ -0,0 +1,437 @@
+import * as fs from 'fs';
+import * as cron from 'node-cron';
+import { JsonSchema, SchemaIssue, validateJsonSchema } from './jsonSchema';
+import { JobPipeline } from '../jobs/jobPipeline';
+import { SimpleJobConfig, SimpleTemplateManager } from '../jobs/templatedJob';
+import { LlmProviderConfig, createLlmProvider } from './llmProviders';
+import { PromptTemplate } from './promptTemplate';
+import { ContextSources, ContextSourceConfig } from './contextSources';
+import { CronSchedule } from './cronSchedule';
+
+// Field each context source type needs
+const CONTEXT_SOURCE_FIELDS: Record<ContextSourceConfig['type'], 'path' | 'pattern' | 'command'> = {
+  file: 'path',
+  glob: 'pattern',
+  command: 'command',
+  directory: 'path'
+};
+
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const geminiOptionsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    model: { type: 'string', minLength: 1 },
+    temperature: { type: 'number', minimum: 0 },
+    maxTokens: { type: 'integer', minimum: 1 },
+    timeoutMs: { type: 'integer', minimum: 1000 }
+  }
+};
+
+const retrySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    maxAttempts: { type: 'integer', minimum: 1 },
+    initialDelayMs: { type: 'integer', minimum: 0 },
+    maxDelayMs: { type: 'integer', minimum: 0 },
+    backoffMultiplier: { type: 'number', minimum: 1 },
+    jitter: { type: 'number', minimum: 0, maximum: 1 },
+    retryOn: { type: 'array', items: { enum: ['timeout', 'empty_output', 'exit_code', 'spawn_error', 'parse_error'] } }
+  }
+};
+
+const providerSchema: JsonSchema = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: { enum: ['gemini-cli', 'command', 'mock'] },
+    command: { type: 'string', minLength: 1 },
+    args: { type: 'array', items: { type: 'string' } },
+    env: { type: 'object', additionalProperties: { type: 'string' } },
+    cwd: { type: 'string', minLength: 1 },
+    responses: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string', minLength: 1 },
+          text: { type: 'string' },
+          when: { type: 'string', minLength: 1 },
+          exitCode: { type: 'integer', minimum: 0 },
+          stderr: { type: 'string' },
+          delayMs: { type: 'integer', minimum: 0 }
+        }
+      }
+    }
+  }
+};
+
+// Shape of a job's resultSchema: the JSON Schema subset supported by jsonSchema.ts
+const schemaTypeSchema: JsonSchema = { enum: ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'] };
+const resultSchemaSchema: JsonSchema = { type: 'object' };
+resultSchemaSchema.properties = {
+  $schema: { type: 'string' },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  type: { anyOf: [schemaTypeSchema, { type: 'array', minItems: 1, items: schemaTypeSchema }] },
+  enum: { type: 'array', minItems: 1 },
+  const: {},
+  properties: { type: 'object', additionalProperties: resultSchemaSchema },
+  required: { type: 'array', items: { type: 'string' } },
+  additionalProperties: { anyOf: [{ type: 'boolean' }, resultSchemaSchema] },
+  items: resultSchemaSchema,
+  minItems: { type: 'integer', minimum: 0 },
+  maxItems: { type: 'integer', minimum: 0 },
+  minLength: { type: 'integer', minimum: 0 },
+  maxLength: { type: 'integer', minimum: 0 },
+  minimum: { type: 'number' },
+  maximum: { type: 'number' },
+  pattern: { type: 'string' },
+  format: { type: 'string' },
+  anyOf: { type: 'array', minItems: 1, items: resultSchemaSchema },
+  oneOf: { type: 'array', minItems: 1, items: resultSchemaSchema }
+};
+
+const memorySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    historyLimit: { type: 'integer', minimum: 0 },
+    updateMode: { enum: ['merge', 'replace'] }
+  }
+};
+
+const notificationRulesSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['channel', 'events'],
+    properties: {
+      channel: { type: 'string', minLength: 1 },
+      events: { type: 'array', minItems: 1, items: { enum: ['success', 'failure', 'timeout'] } }
+    }
+  }
+};
+
+const jobSchema: JsonSchema = {
+  type: 'object',
+  required: ['jobName', 'enabled', 'schedules', 'promptConfig'],
+  properties: {
+    jobName: { type: 'string', minLength: 1 },
+    enabled: { type: 'boolean' },
+    schedules: { type: 'array', items: { type: 'string', format: 'cron' } },
+    timezone: { type: 'string', format: 'timezone' },
+    promptConfig: {
+      type: 'object',
+      required: ['contextFiles'],
+      properties: {
+        contextFiles: {
+          type: 'array',
+          items: {
+            anyOf: [
+              { type: 'string', minLength: 1 },
+              {
+                type: 'object',
+                required: ['type'],
+                properties: {
+                  type: { enum: ['file', 'glob', 'command', 'directory'] },
+                  path: { type: 'string', minLength: 1 },
+                  pattern: { type: 'string', minLength: 1 },
+                  command: { type: 'string', minLength: 1 },
+                  cwd: { type: 'string', minLength: 1 },
+                  timeoutMs: { type: 'integer', minimum: 1 },
+                  depth: { type: 'integer', minimum: 1 },
+                  maxFiles: { type: 'integer', minimum: 1 },
+                  maxBytes: { type: 'integer', minimum: 1 },
+                  label: { type: 'string', minLength: 1 },
+                  required: { type: 'boolean' },
+                  templating: { type: 'boolean' }
+                }
+              }
+            ]
+          }
+        },
+        customPrompt: { type: 'string' },
+        templating: { type: 'boolean' },
+        templateEnv: stringArray,
+        inputs: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['job'],
+            properties: {
+              job: { type: 'string', minLength: 1 },
+              source: { enum: ['jobResult', 'memory'] },
+              keys: stringArray,
+              label: { type: 'string' }
+            }
+          }
+        }
+      }
+    },
+    geminiOptions: geminiOptionsSchema,
+    provider: providerSchema,
+    variables: { type: 'object', additionalProperties: { type: ['string', 'number', 'boolean'] } },
+    resultSchema: resultSchemaSchema,
+    resultSchemaRetries: { type: 'integer', minimum: 0 },
+    memory: memorySchema,
+    outputs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type'],
+        properties: {
+          type: { enum: ['file', 'directory', 'stdout'] },
+          path: { type: 'string', minLength: 1 },
+          fileName: { type: 'string', minLength: 1 },
+          mode: { enum: ['overwrite', 'append'] }
+        }
+      }
+    },
+    notifications: notificationRulesSchema,
+    onSuccess: stringArray,
+    dependsOn: stringArray,
+    retry: retrySchema,
+    overlapPolicy: { enum: ['skip', 'queue', 'cancel-previous'] },
+    catchUp: { enum: ['none', 'once', 'each'] },
+    catchUpLimit: { type: 'integer', minimum: 1 }
+  }
+};
+
+/**
+ * JSON Schema for config.json
+ */
+export const CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['jobs'],
+  properties: {
+    googleCloudProject: { type: 'string' },
+    timezone: { type: 'string', format: 'timezone' },
+    geminiOptions: geminiOptionsSchema,
+    provider: providerSchema,
+    notifications: {
+      type: 'object',
+      required: ['channels'],
+      properties: {
+        enabled: { type: 'boolean' },
+        channels: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            required: ['type'],
+            properties: {
+              type: { enum: ['opsgenie', 'webhook', 'slack'] },
+              url: { type: 'string', pattern: '^https?://' },
+              baseUrl: { type: 'string', pattern: '^https?://' },
+              apiKey: { type: 'string' },
+              priority: { enum: ['P1', 'P2', 'P3', 'P4', 'P5'] },
+              headers: { type: 'object', additionalProperties: { type: 'string' } },
+              retries: { type: 'integer', minimum: 0 }
+            }
+          }
+        },
+        defaultRules: notificationRulesSchema
+      }
+    },
+    retry: retrySchema,
+    memory: memorySchema,
+    scheduler: {
+      type: 'object',
+      properties: {
+        maxConcurrentJobs: { type: 'integer', minimum: 1 },
+        api: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            host: { enum: ['127.0.0.1', 'localhost', '::1'] },
+            port: { type: 'integer', minimum: 1, maximum: 65535 },
+            socketPath: { type: 'string', minLength: 1 },
+            token: { type: 'string', minLength: 16 }
+          }
+        },
+        dashboard: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            host: { type: 'string', minLength: 1 },
+            port: { type: 'integer', minimum: 1, maximum: 65535 }
+          }
+        }
+      }
+    },
+    logging: {
+      type: 'object',
+      properties: {
+        format: { enum: ['text', 'json', 'legacy'] },
+        console: { enum: ['text', 'json', 'legacy'] }
+      }
+    },
+    workspace: {
+      type: 'object',
+      properties: {
+        dir: { type: 'string', minLength: 1 },
+        memoryDir: { type: 'string', minLength: 1 },
+        logDir: { type: 'string', minLength: 1 },
+        historyDir: { type: 'string', minLength: 1 },
+        contextDir: { type: 'string', minLength: 1 }
+      }
+    },
+    jobs: { type: 'array', items: jobSchema }
+  }
+};
+
+export interface ConfigValidationOptions {
+  configDir?: string; // Base directory for relative context file paths
+  checkContextFiles?: boolean; // Verify that context files exist
+}
+
+export interface ConfigValidationResult {
+  errors: SchemaIssue[];
+  warnings: SchemaIssue[];
+}
+
+/**
+ * Config Validator
+ * Checks config.json against CONFIG_SCHEMA plus rules a schema can't express
+ */
+export class ConfigValidator {
+  /**
+   * Validate a parsed config.json value
+   */
+  static validateConfig(config: unknown, options: ConfigValidationOptions = {}): ConfigValidationResult {
+    const result = validateJsonSchema(config, CONFIG_SCHEMA, {
+      formats: {
+        cron: (expression) => cron.validate(expression),
+        timezone: (timeZone) => CronSchedule.isValidTimeZone(timeZone)
+      },
+      warnUnknownProperties: true
+    });
+
+    // Semantic checks only make sense once the structure is valid
+    if (result.errors.length > 0) {
+      return result;
+    }
+
+    const jobs = (config as { jobs: SimpleJobConfig[] }).jobs;
+    const seenNames = new Map<string, number>();
+    jobs.forEach((job, index) => {
+      const normalizedName = job.jobName.toLowerCase();
+      if (seenNames.has(normalizedName)) {
+        result.errors.push({
+          path: `jobs[${index}].jobName`,
+          message: `duplicate job name "${job.jobName}" (also used by jobs[${seenNames.get(normalizedName)}])`
+        });
+      } else {
+        seenNames.set(normalizedName, index);
+      }
+    });
+
+    const providers: Array<[string, LlmProviderConfig | undefined]> = [
+      ['provider', (config as { provider?: LlmProviderConfig }).provider],
+      ...jobs.map((job, index): [string, LlmProviderConfig | undefined] => [`jobs[${index}].provider`, job.provider])
+    ];
+    providers.forEach(([providerPath, provider]) => {
+      if (!provider) {
+        return;
+      }
+      try {
+        createLlmProvider(provider, options.configDir);
+        provider.responses?.forEach(response => response.when && new RegExp(response.when));
+      } catch (err: any) {
+        result.errors.push({ path: providerPath, message: err.message });
+      }
+    });
+
+    // Template syntax; undefined values can only be detected at run time
+    jobs.forEach((job, index) => {
+      if (job.promptConfig.templating !== true || !job.promptConfig.customPrompt) {
+        return;
+      }
+      try {
+        PromptTemplate.validate(job.promptConfig.customPrompt, 'customPrompt');
+      } catch (err: any) {
+        result.errors.push({ path: `jobs[${index}].promptConfig.customPrompt`, message: err.message });
+      }
+    });
+
+    try {
+      JobPipeline.validatePipelines(jobs);
+    } catch (err: any) {
+      result.errors.push({ path: 'jobs', message: err.message });
+    }
+
+    jobs.forEach((job, jobIndex) => {
+      job.promptConfig.contextFiles.forEach((source, sourceIndex) => {
+        if (source === 'custom') {
+          return;
+        }
+        const sourcePath = `jobs[${jobIndex}].promptConfig.contextFiles[${sourceIndex}]`;
+        const config = ContextSources.toConfig(source);
+        const requiredField = CONTEXT_SOURCE_FIELDS[config.type];
+        if (!config[requiredField]) {
+          result.errors.push({ path: sourcePath, message: `${config.type} source requires "${requiredField}"` });
+          return;
+        }
+        if (options.checkContextFiles) {
+          this.checkContextSource(config, sourcePath, job.promptConfig.templating === true && ContextSources.isTemplated(source), options.configDir, result);
+        }
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Check that a context source can be read and that its templates parse
+   * Problems with optional sources are reported as warnings
+   */
+  private static checkContextSource(config: ContextSourceConfig, sourcePath: string, templating: boolean, configDir: string | undefined, result: ConfigValidationResult): void {
+    const issues = config.required === false ? result.warnings : result.errors;
+    const checkTemplate = (template: string, name: string) => {
+      if (!templating) {
+        return;
+      }
+      try {
+        PromptTemplate.validate(template, name);
+      } catch (err: any) {
+        result.errors.push({ path: sourcePath, message: err.message });
+      }
+    };
+
+    switch (config.type) {
+      case 'file': {
+        const filePath = SimpleTemplateManager.resolveContextFilePath(config.path!, configDir);
+        if (!fs.existsSync(filePath)) {
+          issues.push({ path: sourcePath, message: `context file not found: ${filePath}` });
+        } else {
+          checkTemplate(fs.readFileSync(filePath, 'utf8'), config.path!);
+        }
+        break;
+      }
+      case 'glob': {
+        let files: string[] = [];
+        try {
+          files = ContextSources.expandGlob(config.pattern!, configDir);
+        } catch (err: any) {
+          issues.push({ path: sourcePath, message: err.message });
+          return;
+        }
+        if (files.length === 0) {
+          issues.push({ path: sourcePath, message: `no files match ${config.pattern}` });
+        }
+        files.forEach(file => checkTemplate(fs.readFileSync(file, 'utf8'), file));
+        break;
+      }
+      case 'directory': {
+        const dirPath = SimpleTemplateManager.resolveContextFilePath(config.path!, configDir);
+        if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+          issues.push({ path: sourcePath, message: `context directory not found: ${dirPath}` });
+        }
+        break;
+      }
+      case 'command':
+        checkTemplate(config.command!, 'command');
+        break;
+    }
+  }
+}
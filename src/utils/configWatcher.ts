@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import { debug } from './logger';
+
+const POLL_INTERVAL_MS = 2_000;
+const DEBOUNCE_MS = 500;
+
+/**
+ * Config Watcher
+ * Watches config.json and context files, calling back once per burst of changes.
+ * Uses polling (fs.watchFile) because editors often save by replacing the file,
+ * which breaks fs.watch handles.
+ */
+export class ConfigWatcher {
+  private watchedFiles = new Set<string>();
+  private changedFiles = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | undefined;
+
+  constructor(private onChange: (changedFiles: string[]) => void) {}
+
+  /**
+   * Replace the set of watched files
+   */
+  setWatchedFiles(files: string[]): void {
+    const nextFiles = new Set(files);
+
+    for (const file of this.watchedFiles) {
+      if (!nextFiles.has(file)) {
+        fs.unwatchFile(file);
+        debug(`Stopped watching ${file}`);
+      }
+    }
+
+    for (const file of nextFiles) {
+      if (!this.watchedFiles.has(file)) {
+        fs.watchFile(file, { interval: POLL_INTERVAL_MS }, (current, previous) => {
+          if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+            this.handleChange(file);
+          }
+        });
+        debug(`Watching ${file}`);
+      }
+    }
+
+    this.watchedFiles = nextFiles;
+  }
+
+  /**
+   * Stop watching all files
+   */
+  close(): void {
+    this.watchedFiles.forEach(file => fs.unwatchFile(file));
+    this.watchedFiles.clear();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+    }
+  }
+
+  private handleChange(file: string): void {
+    this.changedFiles.add(file);
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      const changedFiles = Array.from(this.changedFiles);
+      this.changedFiles.clear();
+      this.onChange(changedFiles);
+    }, DEBOUNCE_MS);
+  }
+}
@@ -1,14 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import { log, error } from './logger';
+import { Workspace } from './workspace';
 
 /**
  * Template Loader
  * Loads template files for different job types
  */
 export class ContextLoader {
-  private static contextDir = path.join(os.homedir(), '.gemini-cli-job', 'context');
+  private static get contextDir(): string {
+    return Workspace.getPaths().contextDir;
+  }
 
   /**
    * Load context by type (releaseNotes, weeklyUpdate, etc.)
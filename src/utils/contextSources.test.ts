@@ -0,0 +1,171 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { ContextSources, globToRegExp, shellQuote } from './contextSources';
+import { TemplateContext } from './promptTemplate';
+
+function templateContext(memory: Record<string, any>): TemplateContext {
+  return { jobName: 'job', runId: 'run-1', now: new Date(), memory, env: {}, vars: {} };
+}
+
+describe('ContextSources', () => {
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-context-test-'));
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, file), content);
+    };
+    write('notes/2026-01.md', 'january');
+    write('notes/2026-02.md', 'february');
+    write('notes/2025-12.txt', 'december');
+    write('notes/archive/2024-06.md', 'june');
+    write('docs/a/b/deep.md', 'deep');
+    write('node_modules/pkg/readme.md', 'skipped');
+    write('big.txt', 'x'.repeat(5000));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('shellQuote', { skip: process.platform === 'win32' }, () => {
+    const values = [
+      `it's`,
+      `"double" and 'single'`,
+      '$(touch pwned)',
+      '`touch pwned`',
+      '$HOME ${PATH} && rm -rf / ; echo done | cat > out',
+      'line one\nline two',
+      ''
+    ];
+
+    for (const value of values) {
+      it(`passes ${JSON.stringify(value)} through the shell unchanged`, () => {
+        const result = spawnSync('/bin/sh', ['-c', `printf %s ${shellQuote(value)}`], { cwd: tempDir, encoding: 'utf8' });
+        assert.equal(result.stdout, value);
+        assert.equal(fs.existsSync(path.join(tempDir, 'pwned')), false);
+      });
+    }
+
+    it('quotes memory values in templated commands', async () => {
+      const memory = { last: `'; touch pwned; echo '`, note: '$(touch pwned) `touch pwned`' };
+      const [section] = await ContextSources.loadSections([
+        { type: 'command', command: 'printf "%s|%s" {{memory.last}} {{memory.note}}', label: 'out' }
+      ], tempDir, templateContext(memory));
+      assert.equal(section.content, `=== out ===\n${memory.last}|${memory.note}`);
+      assert.equal(fs.existsSync(path.join(tempDir, 'pwned')), false);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('matches * and ? within one path segment', () => {
+      assert.ok(globToRegExp('notes/*.md').test('notes/2026-01.md'));
+      assert.equal(globToRegExp('notes/*.md').test('notes/archive/2024-06.md'), false);
+      assert.ok(globToRegExp('202?-01.md').test('2026-01.md'));
+      assert.equal(globToRegExp('202?-01.md').test('2026/01.md'), false);
+    });
+
+    it('matches ** across directories, including none', () => {
+      const matcher = globToRegExp('docs/**/*.md');
+      assert.ok(matcher.test('docs/readme.md'));
+      assert.ok(matcher.test('docs/a/b/deep.md'));
+      assert.equal(matcher.test('other/readme.md'), false);
+    });
+
+    it('supports character classes and alternatives', () => {
+      assert.ok(globToRegExp('[ab].md').test('a.md'));
+      assert.equal(globToRegExp('[!ab].md').test('a.md'), false);
+      assert.ok(globToRegExp('*.{md,txt}').test('notes.txt'));
+      assert.equal(globToRegExp('*.{md,txt}').test('notes.json'), false);
+    });
+
+    it('treats regular expression characters literally', () => {
+      assert.ok(globToRegExp('a+b(1).md').test('a+b(1).md'));
+      assert.equal(globToRegExp('a.md').test('aXmd'), false);
+      assert.ok(globToRegExp('we[ird.md').test('we[ird.md'));
+    });
+  });
+
+  describe('expandGlob', () => {
+    it('returns sorted matches relative to the config directory', () => {
+      const relative = (files: string[]) => files.map(file => path.relative(tempDir, file).split(path.sep).join('/'));
+      assert.deepEqual(relative(ContextSources.expandGlob('notes/2026-*.md', tempDir)), ['notes/2026-01.md', 'notes/2026-02.md']);
+      assert.deepEqual(relative(ContextSources.expandGlob('**/*.md', tempDir)), [
+        'docs/a/b/deep.md',
+        'notes/2026-01.md',
+        'notes/2026-02.md',
+        'notes/archive/2024-06.md'
+      ]);
+    });
+
+    it('returns an existing path without glob characters as is', () => {
+      assert.deepEqual(ContextSources.expandGlob('big.txt', tempDir), [path.join(tempDir, 'big.txt')]);
+      assert.deepEqual(ContextSources.expandGlob('missing.txt', tempDir), []);
+    });
+  });
+
+  describe('loadSections', () => {
+    it('lists directories with sizes, skipping node_modules and stopping at the depth', async () => {
+      const [section] = await ContextSources.loadSections([{ type: 'directory', path: '.', depth: 2 }], tempDir);
+      assert.equal(section.content, [
+        '=== Directory listing of . ===',
+        'big.txt (4.9 KB)',
+        'docs/',
+        '  a/',
+        'notes/',
+        '  2025-12.txt (8 B)',
+        '  2026-01.md (7 B)',
+        '  2026-02.md (8 B)',
+        '  archive/'
+      ].join('\n'));
+    });
+
+    it('caps plain paths and typed files without reading past the limit', async () => {
+      const [plain, typed] = await ContextSources.loadSections(['big.txt', { type: 'file', path: 'big.txt', maxBytes: 100 }], tempDir);
+      assert.equal(plain.content, `=== big.txt ===\n${'x'.repeat(5000)}`);
+      assert.equal(typed.content, `=== big.txt ===\n${'x'.repeat(100)}\n[... truncated 4900 bytes, limit 100 bytes]`);
+    });
+
+    it('shares the size cap across the files of a glob', async () => {
+      const [section] = await ContextSources.loadSections([{ type: 'glob', pattern: 'notes/*', maxBytes: 10 }], tempDir);
+      assert.equal(section.content, [
+        '=== Files matching notes/* (3 file(s)) ===',
+        '--- notes/2025-12.txt ---',
+        'december',
+        '',
+        '--- notes/2026-01.md ---',
+        'ja',
+        '[... truncated 5 bytes, limit 10 bytes for all files]',
+        '',
+        '[... 1 more file(s) not read, limit 10 bytes for all files]'
+      ].join('\n'));
+    });
+
+    it('interpolates glob matches only when the source opts in', async () => {
+      fs.writeFileSync(path.join(tempDir, 'notes/2026-03.md'), 'for {{jobName}}');
+      try {
+        const sources = [
+          { type: 'glob' as const, pattern: 'notes/2026-03.md' },
+          { type: 'glob' as const, pattern: 'notes/2026-03.md', templating: true },
+          { type: 'file' as const, path: 'notes/2026-03.md' },
+          { type: 'file' as const, path: 'notes/2026-03.md', templating: false }
+        ];
+        const sections = await ContextSources.loadSections(sources, tempDir, templateContext({}));
+        assert.deepEqual(sections.map(section => section.content.split('\n').pop()), ['for {{jobName}}', 'for job', 'for job', 'for {{jobName}}']);
+      } finally {
+        fs.rmSync(path.join(tempDir, 'notes/2026-03.md'));
+      }
+    });
+
+    it('skips optional sources that fail and throws for required ones', async () => {
+      assert.deepEqual(await ContextSources.loadSections([{ type: 'file', path: 'missing.md', required: false }], tempDir), []);
+      await assert.rejects(ContextSources.loadSections(['missing.md'], tempDir), /Context file not found/);
+      await assert.rejects(ContextSources.loadSections([{ type: 'glob', pattern: '*.none' }], tempDir), /No files match context pattern: \*\.none/);
+    });
+  });
+});
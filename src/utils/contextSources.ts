@@ -0,0 +1,405 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log, warn, debug } from './logger';
+import { runPromptProcess } from './processRunner';
+import { PromptTemplate, TemplateContext } from './promptTemplate';
+import { Workspace } from './workspace';
+
+/**
+ * A context source with an explicit type
+ * - file: a single file (`path`)
+ * - glob: all files matching `pattern`, e.g. "notes/2026-*.md" or "docs/**\/*.md"
+ * - command: stdout of a shell command, e.g. "git log --since=1.week --oneline"
+ * - directory: a listing of the files under `path`
+ */
+export interface ContextSourceConfig {
+  type: 'file' | 'glob' | 'command' | 'directory';
+  path?: string; // file, directory: relative to the config directory
+  pattern?: string; // glob: relative to the config directory
+  command?: string; // command: run through the shell; with templating on, {{...}} values are inserted shell-quoted
+  cwd?: string; // command: working directory, defaults to the config directory
+  timeoutMs?: number; // command: defaults to 30000
+  depth?: number; // directory: how many levels to list, defaults to 2
+  maxFiles?: number; // glob: defaults to 50
+  maxBytes?: number; // Size cap for the source's content, defaults to 100000 (1000000 for plain paths)
+  label?: string; // Header shown in the prompt, defaults to a description of the source
+  required?: boolean; // Fail the run when the source can't be loaded, defaults to true
+  templating?: boolean; // With promptConfig.templating on, interpolate this source; defaults to true, except for globs
+}
+
+/**
+ * Entry of promptConfig.contextFiles: a file path, "custom", or a typed source
+ * Plain paths are always read as single files, so names containing [ or { keep working;
+ * patterns need a { "type": "glob" } source.
+ */
+export type ContextSource = string | ContextSourceConfig;
+
+/**
+ * A loaded context source
+ */
+export interface ContextSection {
+  name: string;
+  content: string;
+}
+
+const DEFAULT_MAX_BYTES = 100_000;
+// Plain paths were uncapped before sources had maxBytes; the higher cap keeps existing configs intact
+const DEFAULT_PLAIN_PATH_MAX_BYTES = 1_000_000;
+const DEFAULT_MAX_FILES = 50;
+const DEFAULT_COMMAND_TIMEOUT_MS = 30_000;
+const DEFAULT_DIRECTORY_DEPTH = 2;
+const MAX_DIRECTORY_ENTRIES = 500;
+const MAX_GLOB_SCAN = 10_000;
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+const GLOB_CHARS = /[*?[{]/;
+
+function resolvePath(file: string, configDir?: string): string {
+  if (path.isAbsolute(file)) {
+    return file;
+  }
+  return path.join(configDir || Workspace.getPaths().configDir, file);
+}
+
+function truncationNote(size: number, maxBytes: number): string {
+  return `\n[... truncated ${size - maxBytes} bytes, limit ${maxBytes} bytes]`;
+}
+
+function truncate(content: string, maxBytes: number): string {
+  const size = Buffer.byteLength(content, 'utf8');
+  if (size <= maxBytes) {
+    return content;
+  }
+  const kept = Buffer.from(content, 'utf8').subarray(0, maxBytes).toString('utf8').replace(/\uFFFD$/, '');
+  return `${kept}${truncationNote(size, maxBytes)}`;
+}
+
+/**
+ * Read at most maxBytes of a file, so a huge file is never loaded whole
+ * Returns the content, the number of bytes read and the file's full size.
+ */
+function readFileCapped(filePath: string, maxBytes: number): { content: string; bytesRead: number; size: number } {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const size = fs.fstatSync(fd).size;
+    const buffer = Buffer.alloc(Math.max(0, Math.min(size, maxBytes)));
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    const content = buffer.subarray(0, bytesRead).toString('utf8');
+    return { content: bytesRead < size ? content.replace(/\uFFFD$/, '') : content, bytesRead, size };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Quote a value as a single shell argument
+ * POSIX shells get single quotes; cmd.exe has no escape for double quotes or %VAR%
+ * expansion inside them, so values containing those are rejected.
+ */
+export function shellQuote(value: string): string {
+  if (process.platform === 'win32') {
+    if (/["%\r\n]/.test(value)) {
+      throw new Error(`Value ${JSON.stringify(value)} contains characters that can't be passed safely to cmd.exe`);
+    }
+    return `"${value}"`;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Convert a glob pattern (forward slashes) to a regular expression
+ * Supports *, ?, ** (any number of directories), [abc] and {a,b}
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:[^/]*/)*' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Context Sources
+ * Loads promptConfig.contextFiles entries into prompt sections
+ */
+export class ContextSources {
+  /**
+   * Normalize an entry to its typed form ("custom" is handled by the caller)
+   */
+  static toConfig(source: ContextSource): ContextSourceConfig {
+    if (typeof source !== 'string') {
+      return source;
+    }
+    return { type: 'file', path: source };
+  }
+
+  /**
+   * Whether a source is interpolated when the job has templating on
+   * Glob matches can be any file, so they must opt in.
+   */
+  static isTemplated(source: ContextSource): boolean {
+    const config = this.toConfig(source);
+    return config.templating ?? config.type !== 'glob';
+  }
+
+  /**
+   * Short description for logs, e.g. "glob:notes/*.md"
+   */
+  static describe(source: ContextSource): string {
+    if (typeof source === 'string') {
+      return source;
+    }
+    return source.label || `${source.type}:${source.path || source.pattern || source.command}`;
+  }
+
+  /**
+   * Files a source currently reads, for hot reload (commands and listings are not watched)
+   */
+  static getWatchedFiles(source: ContextSource, configDir?: string): string[] {
+    if (source === 'custom') {
+      return [];
+    }
+    const config = this.toConfig(source);
+    if (config.type === 'file' && config.path) {
+      return [resolvePath(config.path, configDir)];
+    }
+    if (config.type === 'glob' && config.pattern) {
+      try {
+        return this.expandGlob(config.pattern, configDir).slice(0, config.maxFiles || DEFAULT_MAX_FILES);
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Find files matching a glob pattern, sorted by path
+   */
+  static expandGlob(pattern: string, configDir?: string): string[] {
+    const absolutePattern = resolvePath(pattern, configDir).split(path.sep).join('/');
+    const segments = absolutePattern.split('/');
+    const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+    if (firstGlob === -1) {
+      return fs.existsSync(absolutePattern) ? [path.normalize(absolutePattern)] : [];
+    }
+
+    const root = segments.slice(0, firstGlob).join('/') || '/';
+    const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+    const recursive = segments.slice(firstGlob).some(segment => segment.includes('**'));
+    const maxDepth = recursive ? Infinity : segments.length - firstGlob;
+    const matches: string[] = [];
+    let scanned = 0;
+
+    const walk = (dir: string, relative: string, depth: number) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (++scanned > MAX_GLOB_SCAN) {
+          throw new Error(`Glob "${pattern}" scanned more than ${MAX_GLOB_SCAN} entries; use a more specific pattern`);
+        }
+        const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (depth < maxDepth && !SKIPPED_DIRECTORIES.has(entry.name)) {
+            walk(path.join(dir, entry.name), entryRelative, depth + 1);
+          }
+        } else if (entry.isFile() && matcher.test(entryRelative)) {
+          matches.push(path.join(dir, entry.name));
+        }
+      }
+    };
+
+    if (fs.existsSync(root)) {
+      walk(root, '', 1);
+    }
+    return matches.sort();
+  }
+
+  /**
+   * Load all sources in order
+   * Required sources (the default) throw on failure; optional ones are logged and skipped.
+   * File contents and commands are interpolated when a template context is given,
+   * except for sources that aren't templated (see isTemplated).
+   */
+  static async loadSections(sources: ContextSource[], configDir?: string, templateContext?: TemplateContext): Promise<ContextSection[]> {
+    const sections: ContextSection[] = [];
+
+    for (const source of sources) {
+      if (source === 'custom') {
+        sections.push({ name: 'custom', content: 'Generate a report based on the following custom requirements:' });
+        continue;
+      }
+
+      const config = this.toConfig(source);
+      try {
+        sections.push(await this.loadSource(source, config, configDir, templateContext));
+      } catch (err: any) {
+        if (config.required === false) {
+          warn(`Optional context source ${this.describe(source)} skipped: ${err.message}`);
+          continue;
+        }
+        throw err;
+      }
+    }
+
+    return sections;
+  }
+
+  private static async loadSource(source: ContextSource, config: ContextSourceConfig, configDir?: string, templateContext?: TemplateContext): Promise<ContextSection> {
+    const maxBytes = config.maxBytes || (typeof source === 'string' ? DEFAULT_PLAIN_PATH_MAX_BYTES : DEFAULT_MAX_BYTES);
+    const templated = templateContext && this.isTemplated(config) ? templateContext : undefined;
+    const render = (content: string, name: string) => templated ? PromptTemplate.render(content, templated, name) : content;
+
+    switch (config.type) {
+      case 'file': {
+        const filePath = resolvePath(config.path!, configDir);
+        if (!fs.existsSync(filePath)) {
+          throw new Error(`Context file not found: ${filePath}`);
+        }
+        const file = readFileCapped(filePath, maxBytes);
+        const note = file.size > file.bytesRead ? truncationNote(file.size, maxBytes) : '';
+        const content = truncate(render(file.content, config.path!), maxBytes) + note;
+        return { name: `context: ${config.label || config.path}`, content: `=== ${config.label || path.basename(config.path!)} ===\n${content}` };
+      }
+
+      case 'glob': {
+        const files = this.expandGlob(config.pattern!, configDir);
+        if (files.length === 0) {
+          throw new Error(`No files match context pattern: ${config.pattern}`);
+        }
+        const maxFiles = config.maxFiles || DEFAULT_MAX_FILES;
+        const baseDir = configDir || Workspace.getPaths().configDir;
+        // The size cap is shared by all files; reading stops once it is used up
+        let remainingBytes = maxBytes;
+        let unread = 0;
+        const parts: string[] = [];
+        for (const file of files.slice(0, maxFiles)) {
+          if (remainingBytes <= 0) {
+            unread++;
+            continue;
+          }
+          const relative = path.relative(baseDir, file).split(path.sep).join('/');
+          const { content, bytesRead, size } = readFileCapped(file, remainingBytes);
+          const rendered = truncate(render(content, relative), remainingBytes);
+          remainingBytes -= bytesRead;
+          const note = size > bytesRead ? `\n[... truncated ${size - bytesRead} bytes, limit ${maxBytes} bytes for all files]` : '';
+          parts.push(`--- ${relative} ---\n${rendered}${note}`);
+        }
+        if (unread > 0) {
+          parts.push(`[... ${unread} more file(s) not read, limit ${maxBytes} bytes for all files]`);
+        }
+        if (files.length > maxFiles) {
+          parts.push(`[... ${files.length - maxFiles} more file(s) not included, limit ${maxFiles}]`);
+        }
+        log(`Loaded ${Math.min(files.length, maxFiles)} context file(s) for ${config.pattern}`);
+        const header = `=== ${config.label || `Files matching ${config.pattern}`} (${files.length} file(s)) ===`;
+        return { name: `context: ${config.label || config.pattern}`, content: `${header}\n${parts.join('\n\n')}` };
+      }
+
+      case 'command': {
+        // Memory values come from the model, so they must never be parsed as shell syntax
+        const command = templated ? PromptTemplate.render(config.command!, templated, 'command', shellQuote) : config.command!;
+        const cwd = config.cwd ? resolvePath(config.cwd, configDir) : configDir;
+        debug(`Running context command: ${command}`);
+        const { stdout } = await runPromptProcess('', {
+          command: process.platform === 'win32' ? command : '/bin/sh',
+          args: process.platform === 'win32' ? [] : ['-c', command],
+          cwd: cwd && fs.existsSync(cwd) ? cwd : undefined,
+          timeoutMs: config.timeoutMs || DEFAULT_COMMAND_TIMEOUT_MS,
+          label: `Context command (${config.label || command})`
+        });
+        const header = `=== ${config.label ? config.label : `Output of \`${command}\``} ===`;
+        return { name: `context: ${config.label || `command: ${command}`}`, content: `${header}\n${truncate(stdout || '(no output)', maxBytes)}` };
+      }
+
+      case 'directory': {
+        const dirPath = resolvePath(config.path!, configDir);
+        if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+          throw new Error(`Context directory not found: ${dirPath}`);
+        }
+        const listing = this.listDirectory(dirPath, config.depth ?? DEFAULT_DIRECTORY_DEPTH);
+        const header = `=== ${config.label || `Directory listing of ${config.path}`} ===`;
+        return { name: `context: ${config.label || `directory: ${config.path}`}`, content: `${header}\n${truncate(listing, maxBytes)}` };
+      }
+
+      default:
+        throw new Error(`Unknown context source type: ${(config as ContextSourceConfig).type}`);
+    }
+  }
+
+  private static listDirectory(dirPath: string, maxDepth: number): string {
+    const lines: string[] = [];
+    let omitted = 0;
+
+    const walk = (dir: string, depth: number) => {
+      const entries = fs.readdirSync(dir, { withFileTypes: true })
+        .filter(entry => !SKIPPED_DIRECTORIES.has(entry.name))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        if (lines.length >= MAX_DIRECTORY_ENTRIES) {
+          omitted++;
+          continue;
+        }
+        const indent = '  '.repeat(depth);
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          lines.push(`${indent}${entry.name}/`);
+          if (depth + 1 < maxDepth) {
+            walk(entryPath, depth + 1);
+          }
+        } else {
+          lines.push(`${indent}${entry.name} (${formatSize(fs.statSync(entryPath).size)})`);
+        }
+      }
+    };
+
+    walk(dirPath, 0);
+    if (omitted > 0) {
+      lines.push(`[... ${omitted} more entries not listed]`);
+    }
+    return lines.join('\n') || '(empty directory)';
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CronSchedule, formatDateTime } from './cronSchedule';
+import { JobScheduler } from '../jobs/jobScheduler';
+import { SimpleJobConfig } from '../jobs/templatedJob';
+
+/**
+ * Fire times from `after` onwards, as ISO strings
+ */
+function fireTimes(schedule: CronSchedule, after: string, count: number): string[] {
+  const times: string[] = [];
+  let current = new Date(after);
+  for (let i = 0; i < count; i++) {
+    const next = schedule.next(current);
+    if (!next) {
+      break;
+    }
+    times.push(next.toISOString());
+    current = next;
+  }
+  return times;
+}
+
+describe('CronSchedule', () => {
+  describe('Europe/London spring forward (2026-03-29, 01:00 GMT -> 02:00 BST)', () => {
+    it('never fires at a skipped wall-clock time', () => {
+      const schedule = new CronSchedule('30 1 * * *', 'Europe/London');
+      assert.deepEqual(fireTimes(schedule, '2026-03-27T12:00:00Z', 3), [
+        '2026-03-28T01:30:00.000Z', // 01:30 GMT
+        '2026-03-30T00:30:00.000Z', // 01:30 BST; 29 March has no 01:30
+        '2026-03-31T00:30:00.000Z'
+      ]);
+    });
+
+    it('continues at the first wall-clock time after the gap', () => {
+      const schedule = new CronSchedule('*/15 * * * *', 'Europe/London');
+      assert.deepEqual(fireTimes(schedule, '2026-03-29T00:40:00Z', 3), [
+        '2026-03-29T00:45:00.000Z', // 00:45 GMT
+        '2026-03-29T01:00:00.000Z', // 02:00 BST
+        '2026-03-29T01:15:00.000Z'
+      ]);
+    });
+  });
+
+  describe('Europe/London fall back (2026-10-25, 02:00 BST -> 01:00 GMT)', () => {
+    it('fires once at a repeated wall-clock time', () => {
+      const schedule = new CronSchedule('30 1 * * *', 'Europe/London');
+      assert.deepEqual(fireTimes(schedule, '2026-10-24T12:00:00Z', 2), [
+        '2026-10-25T00:30:00.000Z', // First 01:30 (BST); the second one (01:30Z) is skipped
+        '2026-10-26T01:30:00.000Z' // 01:30 GMT
+      ]);
+    });
+
+    it('skips the second occurrence when starting inside the repeated hour', () => {
+      const schedule = new CronSchedule('30 1 * * *', 'Europe/London');
+      assert.equal(schedule.next(new Date('2026-10-25T01:10:00Z'))?.toISOString(), '2026-10-26T01:30:00.000Z');
+    });
+
+    it('keeps hourly schedules on the hour through the change', () => {
+      const schedule = new CronSchedule('0 * * * *', 'Europe/London');
+      assert.deepEqual(fireTimes(schedule, '2026-10-24T23:30:00Z', 4), [
+        '2026-10-25T00:00:00.000Z', // 01:00 BST
+        '2026-10-25T02:00:00.000Z', // 02:00 GMT; 01:00 GMT repeats 01:00 and doesn't fire again
+        '2026-10-25T03:00:00.000Z',
+        '2026-10-25T04:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('zone without DST', () => {
+    it('evaluates Asia/Singapore schedules at UTC+8 all year', () => {
+      const schedule = new CronSchedule('0 9 * * 1-5', 'Asia/Singapore');
+      // Friday 16 October 2026, 20:00 in Singapore
+      assert.deepEqual(fireTimes(schedule, '2026-10-16T12:00:00Z', 2), [
+        '2026-10-19T01:00:00.000Z', // Monday 09:00
+        '2026-10-20T01:00:00.000Z'
+      ]);
+      assert.equal(schedule.next(new Date('2026-03-28T12:00:00Z'))?.toISOString(), '2026-03-30T01:00:00.000Z');
+    });
+  });
+
+  it('matches seconds, day of week names and steps like node-cron', () => {
+    const schedule = new CronSchedule('*/20 0 12 * * sat', 'UTC');
+    assert.deepEqual(fireTimes(schedule, '2026-10-17T11:59:59Z', 4), [
+      '2026-10-17T12:00:00.000Z',
+      '2026-10-17T12:00:20.000Z',
+      '2026-10-17T12:00:40.000Z',
+      '2026-10-24T12:00:00.000Z'
+    ]);
+    assert.equal(new CronSchedule('0 0 31 2 *', 'UTC').next(new Date('2026-01-01T00:00:00Z')), undefined);
+  });
+
+  it('rejects invalid expressions and timezones', () => {
+    assert.throws(() => new CronSchedule('0 9 * *'), /must have 5 or 6 fields/);
+    assert.throws(() => new CronSchedule('0 25 * * *'), /Invalid hour "25"/);
+    assert.throws(() => new CronSchedule('0 9 * * *', 'Mars/Olympus'), /Unknown timezone/);
+    assert.equal(CronSchedule.isValidTimeZone('Europe/London'), true);
+  });
+
+  describe('nextFireTime', () => {
+    it('returns the earliest fire time across expressions, ignoring invalid ones', () => {
+      const after = new Date('2026-10-19T10:00:00Z');
+      const next = CronSchedule.nextFireTime(['0 17 * * 5', 'not cron', '30 9 * * 1-5'], after, 'Europe/London');
+      // Tuesday 09:30 BST comes before Friday 17:00
+      assert.equal(next?.toISOString(), '2026-10-20T08:30:00.000Z');
+      assert.equal(CronSchedule.nextFireTime([], after, 'Europe/London'), undefined);
+    });
+
+    it('uses the per-job timezone over the global one', () => {
+      const scheduler = new JobScheduler(async () => { throw new Error('not run'); });
+      scheduler.setTimezone('Europe/London');
+      const job: SimpleJobConfig = {
+        jobName: 'standup',
+        enabled: true,
+        schedules: ['0 9 * * *', '0 18 * * *'],
+        promptConfig: { contextFiles: [] }
+      };
+      const after = new Date('2026-10-19T06:00:00Z');
+
+      assert.equal(scheduler.getTimezone(job), 'Europe/London');
+      assert.equal(scheduler.getNextFireTime(job, after)?.toISOString(), '2026-10-19T08:00:00.000Z'); // 09:00 BST
+
+      const singaporeJob = { ...job, timezone: 'Asia/Singapore' };
+      assert.equal(scheduler.getTimezone(singaporeJob), 'Asia/Singapore');
+      assert.equal(scheduler.getNextFireTime(singaporeJob, after)?.toISOString(), '2026-10-19T10:00:00.000Z'); // 18:00 SGT
+      assert.equal(formatDateTime(scheduler.getNextFireTime(singaporeJob, after)!, 'Asia/Singapore'), '2026-10-19 18:00');
+      assert.equal(scheduler.getNextFireTime({ ...singaporeJob, enabled: false }, after), undefined);
+    });
+  });
+});
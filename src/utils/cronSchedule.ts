@@ -0,0 +1,240 @@
+/**
+ * Cron Schedule
+ * Computes fire times of the cron expressions accepted by node-cron, which has no API for that.
+ *
+ * Matches node-cron's semantics rather than classic cron: an optional leading seconds field,
+ * all fields must match (day of month AND day of week), and a step keeps the values of the
+ * range that are divisible by it ("5-20/7" is 7 and 14).
+ *
+ * Expressions are evaluated against the wall-clock time of a timezone, like node-cron's
+ * `timezone` option. Across DST changes, a wall-clock time skipped by the clock never fires
+ * and a time that occurs twice fires once, at its first occurrence.
+ */
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'second', min: 0, max: 59 },
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+const MAX_SEARCH_YEARS = 5;
+const DAY_MS = 86_400_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone || '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone (host timezone when omitted), as a Date whose
+ * UTC fields hold the wall-clock fields
+ */
+export function toWallTime(date: Date, timeZone?: string): Date {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+/**
+ * Instants whose wall-clock time in the timezone is `wallTime`: none inside a DST gap,
+ * two inside a DST overlap, otherwise one. Sorted ascending.
+ */
+function fromWallTime(wallTime: Date, timeZone?: string): Date[] {
+  const target = wallTime.getTime();
+  // The offsets in effect a day before and after cover both sides of any transition
+  const offsets = new Set([target - DAY_MS, target + DAY_MS].map(probe => toWallTime(new Date(probe), timeZone).getTime() - probe));
+  return Array.from(offsets)
+    .map(offset => new Date(target - offset))
+    .filter(instant => toWallTime(instant, timeZone).getTime() === target)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Format an instant as "YYYY-MM-DD HH:mm" in a timezone (host timezone when omitted)
+ */
+export function formatDateTime(date: Date, timeZone?: string): string {
+  return toWallTime(date, timeZone).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function parseValue(value: string, field: CronField, expression: string): number {
+  const lower = value.toLowerCase();
+  const nameIndex = field.names?.findIndex(name => lower === name || (lower.length > 3 && lower.startsWith(name))) ?? -1;
+  const parsed = nameIndex >= 0 ? nameIndex + field.min : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(parsed) || parsed < field.min || parsed > field.max) {
+    throw new Error(`Invalid ${field.name} "${value}" in cron expression "${expression}"`);
+  }
+  return parsed;
+}
+
+function parseField(text: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    let from = field.min;
+    let to = field.max;
+
+    if (range !== '*') {
+      const bounds = range.split('-');
+      from = parseValue(bounds[0], field, expression);
+      to = bounds.length > 1 ? parseValue(bounds[1], field, expression) : stepText !== undefined ? field.max : from;
+      if (bounds.length > 2 || to < from) {
+        throw new Error(`Invalid ${field.name} range "${range}" in cron expression "${expression}"`);
+      }
+    }
+
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step === 0)) {
+      throw new Error(`Invalid ${field.name} step "${stepText}" in cron expression "${expression}"`);
+    }
+    for (let value = from; value <= to; value++) {
+      if (stepText === undefined || value % step === 0) {
+        values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+      }
+    }
+  }
+  return values;
+}
+
+export class CronSchedule {
+  private readonly fields: Set<number>[];
+
+  /**
+   * Parse an expression with 5 fields, or 6 with leading seconds; throws when it or the timezone is invalid
+   */
+  constructor(readonly expression: string, readonly timeZone?: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(`Cron expression "${expression}" must have 5 or 6 fields`);
+    }
+    if (timeZone && !CronSchedule.isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown timezone "${timeZone}"`);
+    }
+    const withSeconds = parts.length === 6 ? parts : ['0', ...parts];
+    this.fields = withSeconds.map((part, index) => parseField(part, FIELDS[index], expression));
+  }
+
+  /**
+   * Whether an IANA timezone name (e.g. "Europe/London") is known to the runtime
+   */
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether the schedule fires at the given second (wall-clock time in the schedule's timezone)
+   */
+  matches(date: Date): boolean {
+    return this.matchesWallTime(toWallTime(date, this.timeZone));
+  }
+
+  /**
+   * First fire time strictly after `after`, or undefined when there is none within five years
+   * (e.g. "0 0 31 2 *")
+   */
+  next(after: Date = new Date()): Date | undefined {
+    const wallAfter = toWallTime(after, this.timeZone);
+    const limit = new Date(wallAfter.getTime());
+    limit.setUTCFullYear(limit.getUTCFullYear() + MAX_SEARCH_YEARS);
+
+    // The first occurrence of a wall-clock time is behind `after` when `after` is in the repeated hour of a DST overlap
+    for (let wallTime = this.nextWallTime(wallAfter, limit); wallTime; wallTime = this.nextWallTime(wallTime, limit)) {
+      const firstOccurrence = fromWallTime(wallTime, this.timeZone)[0];
+      if (firstOccurrence && firstOccurrence > after) {
+        return firstOccurrence;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Earliest next fire time across several expressions; invalid ones are ignored
+   */
+  static nextFireTime(expressions: string[], after: Date = new Date(), timeZone?: string): Date | undefined {
+    return expressions
+      .map(expression => {
+        try {
+          return new CronSchedule(expression, timeZone).next(after);
+        } catch {
+          return undefined;
+        }
+      })
+      .filter((date): date is Date => date !== undefined)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  private matchesWallTime(wallTime: Date): boolean {
+    const [seconds, minutes, hours, days, months, weekDays] = this.fields;
+    return seconds.has(wallTime.getUTCSeconds())
+      && minutes.has(wallTime.getUTCMinutes())
+      && hours.has(wallTime.getUTCHours())
+      && days.has(wallTime.getUTCDate())
+      && months.has(wallTime.getUTCMonth() + 1)
+      && weekDays.has(wallTime.getUTCDay());
+  }
+
+  /**
+   * First matching wall-clock time strictly after `after` (both as UTC-field dates), up to `limit`
+   */
+  private nextWallTime(after: Date, limit: Date): Date | undefined {
+    const [seconds, minutes, hours, days, months, weekDays] = this.fields;
+    const date = new Date(after.getTime());
+    date.setUTCMilliseconds(0);
+    date.setUTCSeconds(date.getUTCSeconds() + 1);
+
+    // Advance the largest mismatching unit, resetting the smaller ones, until everything matches
+    while (date <= limit) {
+      if (!months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0);
+      } else if (!days.has(date.getUTCDate()) || !weekDays.has(date.getUTCDay())) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0);
+      } else if (!hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0);
+      } else if (!minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0);
+      } else if (!seconds.has(date.getUTCSeconds())) {
+        date.setUTCSeconds(date.getUTCSeconds() + 1);
+      } else {
+        return date;
+      }
+    }
+    return undefined;
+  }
+}
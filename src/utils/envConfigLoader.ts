@@ -10,6 +10,7 @@ export interface EnvConfig {
   googleCloudProject: string;
   geminiModel: string;
   opsgenieApiKey?: string;
+  opsgenieApiUrl?: string;
   notificationEnabled: boolean;
 }
 
@@ -26,6 +27,7 @@ export class EnvConfigLoader {
       googleCloudProject: process.env.GOOGLE_CLOUD_PROJECT || '',
       geminiModel: process.env.GEMINI_MODEL || 'gemini-1.5-flash',
       opsgenieApiKey: process.env.OPSGENIE_API_KEY,
+      opsgenieApiUrl: process.env.OPSGENIE_API_URL,
       notificationEnabled: process.env.GEMINI_NOTIFICATION_ENABLED?.toLowerCase() === 'true'
     };
 
@@ -0,0 +1,177 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { JobMemory } from './jobMemory';
+import { Workspace } from './workspace';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('JobMemory', () => {
+  let tempDir: string;
+  let memoryDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-memory-test-'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    // A fresh workspace per test
+    memoryDir = Workspace.configure(path.join(fs.mkdtempSync(path.join(tempDir, 'ws-')), 'config.json')).memoryDir;
+  });
+
+  describe('updates', () => {
+    it('merges updates, deleting keys set to null', async () => {
+      await JobMemory.updateJobMemory('job', { a: 1, b: 2 });
+      const memory = await JobMemory.updateJobMemory('job', { b: null, c: 3 });
+      assert.equal(memory.a, 1);
+      assert.equal('b' in memory, false);
+      assert.equal(memory.c, 3);
+      assert.equal(JobMemory.readJobMemory('job')!._metadata.updateCount, 2);
+    });
+
+    it('replaces the whole memory in replace mode, keeping metadata', async () => {
+      await JobMemory.updateJobMemory('job', { a: 1 });
+      const memory = await JobMemory.updateJobMemory('job', { b: 2, c: null }, 'replace');
+      assert.deepEqual(Object.keys(memory).sort(), ['_metadata', 'b']);
+    });
+
+    it('keeps every update when they overlap', async () => {
+      await Promise.all(Array.from({ length: 10 }, (_, index) => JobMemory.updateJobMemory('job', { [`key${index}`]: index })));
+      const memory = JobMemory.readJobMemory('job')!;
+      assert.equal(Object.keys(memory).filter(key => key.startsWith('key')).length, 10);
+      assert.equal(memory._metadata.updateCount, 10);
+    });
+
+    it('writes atomically, leaving no temp or lock files', async () => {
+      await JobMemory.updateJobMemory('job', { a: 1 });
+      await JobMemory.saveJobMemory('job', { b: 2 });
+      assert.deepEqual(fs.readdirSync(memoryDir).filter(file => !fs.statSync(path.join(memoryDir, file)).isDirectory()), ['job.memory.json']);
+    });
+  });
+
+  describe('withMemoryLock', () => {
+    it('runs one holder at a time', async () => {
+      const events: string[] = [];
+      const hold = (name: string) => JobMemory.withMemoryLock('job', async () => {
+        events.push(`${name} start`);
+        await sleep(50);
+        events.push(`${name} end`);
+      });
+      await Promise.all([hold('first'), hold('second')]);
+      assert.deepEqual(events, ['first start', 'first end', 'second start', 'second end']);
+    });
+
+    it('releases the lock when the holder throws', async () => {
+      await assert.rejects(JobMemory.withMemoryLock('job', () => { throw new Error('boom'); }), /boom/);
+      assert.equal(await JobMemory.withMemoryLock('job', () => 'again'), 'again');
+    });
+
+    it('takes over a lock left by a process that is gone', async () => {
+      const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+      fs.mkdirSync(memoryDir, { recursive: true });
+      fs.writeFileSync(path.join(memoryDir, 'job.memory.json.lock'), JSON.stringify({ pid: deadPid, hostname: os.hostname(), acquiredAt: new Date().toISOString() }));
+      const started = Date.now();
+      assert.equal(await JobMemory.withMemoryLock('job', () => 'taken'), 'taken');
+      assert.ok(Date.now() - started < 1000);
+    });
+  });
+
+  describe('corrupt memory', () => {
+    it('quarantines the file and restores the latest snapshot', async () => {
+      await JobMemory.updateJobMemory('job', { a: 1 });
+      JobMemory.snapshotJobMemory('job', { reason: 'run' });
+      fs.writeFileSync(path.join(memoryDir, 'job.memory.json'), '{"a": 1, "b": ');
+
+      const memory = await JobMemory.loadJobMemory('job');
+      assert.equal(memory.a, 1);
+      assert.equal(fs.readdirSync(memoryDir).filter(file => file.startsWith('job.memory.json.corrupt-')).length, 1);
+      assert.equal(JobMemory.readJobMemory('job')!.a, 1);
+    });
+
+    it('only reports corruption on read-only loads', async () => {
+      await JobMemory.updateJobMemory('job', { a: 1 });
+      JobMemory.snapshotJobMemory('job', { reason: 'run' });
+      const corrupt = '{"a": 1, "b": ';
+      fs.writeFileSync(path.join(memoryDir, 'job.memory.json'), corrupt);
+
+      assert.equal((await JobMemory.loadJobMemory('job', { readOnly: true })).a, 1);
+      assert.equal(fs.readFileSync(path.join(memoryDir, 'job.memory.json'), 'utf8'), corrupt);
+      assert.equal(fs.readdirSync(memoryDir).some(file => file.includes('.corrupt-')), false);
+    });
+  });
+
+  describe('applyMemoryEdit', () => {
+    it('applies the edited keys and keeps keys changed by others', async () => {
+      await JobMemory.updateJobMemory('job', { a: 1, b: 1 });
+      const before = JobMemory.readJobMemory('job')!;
+      await JobMemory.updateJobMemory('job', { b: 2 });
+
+      const changes = await JobMemory.applyMemoryEdit('job', before, { ...before, a: 5, c: 'new' });
+      assert.deepEqual(changes.map(change => `${change.type}:${change.key}`), ['changed:a', 'added:c']);
+      const memory = JobMemory.readJobMemory('job')!;
+      assert.deepEqual([memory.a, memory.b, memory.c], [5, 2, 'new']);
+    });
+
+    it('refuses edits to keys changed by others', async () => {
+      await JobMemory.updateJobMemory('job', { a: 1, b: 1 });
+      const before = JobMemory.readJobMemory('job')!;
+      await JobMemory.updateJobMemory('job', { a: 2, b: null });
+
+      await assert.rejects(JobMemory.applyMemoryEdit('job', before, { ...before, a: 5, b: 6 }), /Memory of job job changed while editing \(a, b\)/);
+      assert.equal(JobMemory.readJobMemory('job')!.a, 2);
+    });
+  });
+
+  describe('clearJobMemory', () => {
+    it('waits for a locked write instead of racing it', async () => {
+      await JobMemory.updateJobMemory('job', { a: 1 });
+      const write = JobMemory.withMemoryLock('job', async () => {
+        await sleep(50);
+        fs.writeFileSync(path.join(memoryDir, 'job.memory.json'), JSON.stringify({ a: 2 }));
+      });
+      await sleep(10);
+      await Promise.all([write, JobMemory.clearJobMemory('job')]);
+
+      assert.equal(JobMemory.hasJobMemory('job'), false);
+      assert.equal(JobMemory.listMemoryRevisions('job')[0].memory.a, 2);
+    });
+  });
+
+  describe('renameJobMemory', () => {
+    it('moves memory and revisions', async () => {
+      await JobMemory.updateJobMemory('old', { a: 1 });
+      JobMemory.snapshotJobMemory('old', { reason: 'run' });
+
+      assert.equal(await JobMemory.renameJobMemory('old', 'new'), true);
+      assert.equal(JobMemory.hasJobMemory('old'), false);
+      assert.equal(JobMemory.readJobMemory('new')!._metadata.jobName, 'new');
+      assert.equal(JobMemory.listMemoryRevisions('new').length, 1);
+      assert.equal(await JobMemory.renameJobMemory('missing', 'other'), false);
+    });
+
+    it('refuses to overwrite memory of the new name', async () => {
+      await JobMemory.updateJobMemory('a', { x: 1 });
+      await JobMemory.updateJobMemory('b', { x: 2 });
+      await assert.rejects(JobMemory.renameJobMemory('a', 'b'), /Job b already has memory; clear it before renaming a/);
+      assert.equal(JobMemory.readJobMemory('a')!.x, 1);
+    });
+
+    it('does not deadlock on opposite renames', async () => {
+      await JobMemory.updateJobMemory('a', { x: 1 });
+      const started = Date.now();
+      const results = await Promise.all([JobMemory.renameJobMemory('a', 'b'), JobMemory.renameJobMemory('b', 'a')]);
+      assert.ok(Date.now() - started < 2000, `took ${Date.now() - started}ms`);
+      assert.ok(results.includes(true));
+      assert.equal([JobMemory.hasJobMemory('a'), JobMemory.hasJobMemory('b')].filter(Boolean).length, 1);
+    });
+  });
+});
@@ -1,14 +1,77 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { log, error } from './logger';
+import { createLogger } from './logger';
+import { Workspace } from './workspace';
+
+const { log, error, warn } = createLogger('memory');
+
+/**
+ * Memory settings (config.json → memory, or per job)
+ */
+export interface MemoryConfig {
+  historyLimit?: number; // Snapshots kept per job, defaults to 20 (0 disables snapshots)
+  updateMode?: MemoryUpdateMode; // How a response's jobMemory is applied, defaults to "merge"
+}
+
+/**
+ * merge: keys are added or overwritten, a null value deletes the key
+ * replace: the updates become the whole memory (null values are dropped)
+ */
+export type MemoryUpdateMode = 'merge' | 'replace';
+
+/**
+ * A stored snapshot of a job's memory
+ */
+export interface MemoryRevision {
+  revision: number; // Increments per job, starting at 1
+  savedAt: string; // ISO timestamp
+  reason: string; // What produced the snapshot, e.g. "run" or "rollback to #3"
+  runId?: string;
+  memory: Record<string, any>;
+}
+
+/**
+ * Difference for one key between two memory states
+ */
+export interface MemoryChange {
+  key: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+export const DEFAULT_MEMORY_HISTORY_LIMIT = 20;
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 60_000;
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Contents of a memory lock file
+ */
+interface MemoryLockInfo {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
 
 /**
  * Job Memory Management
  * Provides persistent key-value storage for jobs to maintain state across runs
  */
 export class JobMemory {
-  private static memoryDir = path.join(os.homedir(), '.gemini-cli-job', 'memory');
+  private static get memoryDir(): string {
+    return Workspace.getPaths().memoryDir;
+  }
 
   /**
    * Initialize memory directory if it doesn't exist
@@ -24,7 +87,6 @@ export class JobMemory {
    * Get the memory file path for a specific job
    */
   private static getMemoryFilePath(jobName: string): string {
-    this.ensureMemoryDir();
     // Sanitize job name for filename
     const sanitizedJobName = jobName.replace(/[^a-zA-Z0-9-_]/g, '_');
     return path.join(this.memoryDir, `${sanitizedJobName}.memory.json`);
@@ -32,9 +94,11 @@ export class JobMemory {
 
   /**
    * Load memory for a job
-   * Returns empty object if memory file doesn't exist
+   * Returns empty object if memory file doesn't exist. A corrupt file is quarantined and
+   * the latest snapshot restored, instead of silently starting over. With `readOnly`
+   * (previews), a corrupt file is only reported and the snapshot returned without writing.
    */
-  static async loadJobMemory(jobName: string): Promise<Record<string, any>> {
+  static async loadJobMemory(jobName: string, options: { readOnly?: boolean } = {}): Promise<Record<string, any>> {
     try {
       const memoryPath = this.getMemoryFilePath(jobName);
       
@@ -43,8 +107,14 @@ export class JobMemory {
         return {};
       }
 
-      const memoryContent = fs.readFileSync(memoryPath, 'utf8');
-      const memory = JSON.parse(memoryContent);
+      let memory = this.parseMemoryFile(memoryPath);
+      if (memory === undefined && options.readOnly) {
+        const latest = this.listMemoryRevisions(jobName)[0];
+        warn(`Memory file for job ${jobName} is corrupt; the next run restores ${latest ? `revision #${latest.revision}` : 'empty memory'}`);
+        memory = latest ? latest.memory : {};
+      } else if (memory === undefined) {
+        memory = await this.withMemoryLock(jobName, () => this.readMemoryUnlocked(jobName));
+      }
       log(`Loaded memory for job ${jobName}: ${Object.keys(memory).length} entries`);
       return memory;
     } catch (err: any) {
@@ -54,23 +124,11 @@ export class JobMemory {
   }
 
   /**
-   * Save memory for a job
+   * Save memory for a job, replacing the stored memory
    */
   static async saveJobMemory(jobName: string, memory: Record<string, any>): Promise<void> {
     try {
-      const memoryPath = this.getMemoryFilePath(jobName);
-      
-      // Add metadata
-      const memoryWithMetadata = {
-        ...memory,
-        _metadata: {
-          jobName,
-          lastUpdated: new Date().toISOString(),
-          updateCount: (memory._metadata?.updateCount || 0) + 1
-        }
-      };
-
-      fs.writeFileSync(memoryPath, JSON.stringify(memoryWithMetadata, null, 2));
+      await this.withMemoryLock(jobName, () => this.writeMemoryUnlocked(jobName, memory));
       log(`Saved memory for job ${jobName}: ${Object.keys(memory).length} entries`);
     } catch (err: any) {
       error(`Failed to save memory for job ${jobName}:`, err.message);
@@ -80,11 +138,392 @@ export class JobMemory {
 
   /**
    * Update specific memory values for a job
+   * The read-modify-write runs under the job's lock, so overlapping runs don't lose each
+   * other's updates. Returns the stored memory.
+   */
+  static async updateJobMemory(jobName: string, updates: Record<string, any>, mode: MemoryUpdateMode = 'merge'): Promise<Record<string, any>> {
+    try {
+      return await this.withMemoryLock(jobName, () => {
+        const currentMemory = this.readMemoryUnlocked(jobName);
+        const updatedMemory = this.applyMemoryUpdates(currentMemory, updates, mode);
+        this.writeMemoryUnlocked(jobName, updatedMemory);
+        log(`Updated memory for job ${jobName} (${mode}): ${Object.keys(updatedMemory).length} entries`);
+        return updatedMemory;
+      });
+    } catch (err: any) {
+      error(`Failed to update memory for job ${jobName}:`, err.message);
+      throw err;
+    }
+  }
+
+  /**
+   * Apply updates to a memory object without touching the file
+   * Metadata is always carried over from the current memory.
+   */
+  static applyMemoryUpdates(current: Record<string, any>, updates: Record<string, any>, mode: MemoryUpdateMode = 'merge'): Record<string, any> {
+    const result: Record<string, any> = mode === 'replace' ? {} : { ...current };
+    for (const [key, value] of Object.entries(updates)) {
+      if (key === '_metadata') {
+        continue;
+      }
+      if (value === null) {
+        delete result[key];
+      } else {
+        result[key] = value;
+      }
+    }
+    if (current._metadata !== undefined) {
+      result._metadata = current._metadata;
+    }
+    return result;
+  }
+
+  /**
+   * Run `fn` while holding the advisory lock for a job's memory file
+   * The lock is a "<memory file>.lock" file created exclusively; locks left by dead
+   * processes or older than a minute are taken over.
+   */
+  static async withMemoryLock<T>(jobName: string, fn: () => T | Promise<T>): Promise<T> {
+    this.ensureMemoryDir();
+    const lockPath = `${this.getMemoryFilePath(jobName)}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (!this.tryAcquireLock(lockPath)) {
+      if (this.isLockStale(lockPath)) {
+        warn(`Removing stale memory lock for job ${jobName}: ${lockPath}`);
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${LOCK_TIMEOUT_MS}ms waiting for the memory lock of job ${jobName} (${lockPath}); delete it if no other gjob process is running`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  private static tryAcquireLock(lockPath: string): boolean {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      const info: MemoryLockInfo = { pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+      fs.writeSync(fd, JSON.stringify(info));
+      fs.closeSync(fd);
+      return true;
+    } catch (err: any) {
+      if (err.code === 'EEXIST') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * A lock is stale when its owner on this host is gone, or it is older than LOCK_STALE_MS
+   */
+  private static isLockStale(lockPath: string): boolean {
+    try {
+      const stats = fs.statSync(lockPath);
+      if (Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+        return true;
+      }
+      const info: MemoryLockInfo = JSON.parse(fs.readFileSync(lockPath, 'utf8'));
+      if (info.hostname !== os.hostname() || info.pid === process.pid) {
+        return false;
+      }
+      process.kill(info.pid, 0);
+      return false;
+    } catch (err: any) {
+      // ESRCH: owner is gone. ENOENT: released meanwhile. A half-written lock file is still being created.
+      return err.code === 'ESRCH';
+    }
+  }
+
+  /**
+   * Parse a memory file, returning undefined when it is not a valid JSON object
+   */
+  private static parseMemoryFile(memoryPath: string): Record<string, any> | undefined {
+    try {
+      const memory = JSON.parse(fs.readFileSync(memoryPath, 'utf8'));
+      return isPlainObject(memory) ? memory : undefined;
+    } catch (err: any) {
+      if (err.code) {
+        throw err; // I/O errors are not corruption
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Read memory while holding the lock, recovering from a corrupt file
+   */
+  private static readMemoryUnlocked(jobName: string): Record<string, any> {
+    const memoryPath = this.getMemoryFilePath(jobName);
+    if (!fs.existsSync(memoryPath)) {
+      return {};
+    }
+    const memory = this.parseMemoryFile(memoryPath);
+    return memory !== undefined ? memory : this.quarantineCorruptMemory(jobName);
+  }
+
+  /**
+   * Move a corrupt memory file aside and restore the latest snapshot, if any
+   */
+  private static quarantineCorruptMemory(jobName: string): Record<string, any> {
+    const memoryPath = this.getMemoryFilePath(jobName);
+    const quarantinePath = `${memoryPath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    fs.renameSync(memoryPath, quarantinePath);
+    error(`Memory file for job ${jobName} is corrupt; moved it to ${quarantinePath}`);
+
+    const latest = this.listMemoryRevisions(jobName)[0];
+    if (!latest) {
+      warn(`No memory snapshot to restore for job ${jobName}; starting with empty memory`);
+      return {};
+    }
+    this.writeMemoryFile(memoryPath, latest.memory);
+    warn(`Restored memory for job ${jobName} from revision #${latest.revision} (${latest.savedAt})`);
+    return latest.memory;
+  }
+
+  /**
+   * Write memory with fresh metadata while holding the lock
+   */
+  private static writeMemoryUnlocked(jobName: string, memory: Record<string, any>): void {
+    const memoryWithMetadata = {
+      ...memory,
+      _metadata: {
+        jobName,
+        lastUpdated: new Date().toISOString(),
+        updateCount: (memory._metadata?.updateCount || 0) + 1
+      }
+    };
+    this.writeMemoryFile(this.getMemoryFilePath(jobName), memoryWithMetadata);
+  }
+
+  /**
+   * Write JSON atomically: temp file, fsync, then rename over the target
+   * A crash leaves either the old or the new file, never a truncated one.
    */
-  static async updateJobMemory(jobName: string, updates: Record<string, any>): Promise<void> {
-    const currentMemory = await this.loadJobMemory(jobName);
-    const updatedMemory = { ...currentMemory, ...updates };
-    await this.saveJobMemory(jobName, updatedMemory);
+  private static writeMemoryFile(filePath: string, data: any): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      const fd = fs.openSync(tempPath, 'w');
+      try {
+        fs.writeSync(fd, JSON.stringify(data, null, 2));
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, filePath);
+    } catch (err) {
+      fs.rmSync(tempPath, { force: true });
+      throw err;
+    }
+  }
+
+  /**
+   * Directory holding memory snapshots for a job
+   */
+  private static getHistoryDir(jobName: string): string {
+    const sanitizedJobName = jobName.replace(/[^a-zA-Z0-9-_]/g, '_');
+    return path.join(this.memoryDir, 'history', sanitizedJobName);
+  }
+
+  /**
+   * Read the memory file without logging, for CLI output
+   * Returns undefined when the job has no memory file; throws on invalid JSON
+   */
+  static readJobMemory(jobName: string): Record<string, any> | undefined {
+    const memoryPath = this.getMemoryFilePath(jobName);
+    if (!fs.existsSync(memoryPath)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(memoryPath, 'utf8'));
+  }
+
+  /**
+   * Store the current memory as a new revision, unless it matches the latest one
+   * Metadata is ignored when comparing, so only real changes create revisions.
+   * Never throws; snapshot failures must not fail a job.
+   */
+  static snapshotJobMemory(jobName: string, options: { reason: string; runId?: string; historyLimit?: number }): MemoryRevision | undefined {
+    const historyLimit = options.historyLimit ?? DEFAULT_MEMORY_HISTORY_LIMIT;
+    if (historyLimit <= 0) {
+      return undefined;
+    }
+
+    try {
+      const memory = this.readJobMemory(jobName);
+      const revisions = this.listMemoryRevisions(jobName);
+      const latest = revisions[0];
+      if (memory === undefined && !latest) {
+        return undefined;
+      }
+
+      const current = memory || {};
+      if (latest && this.diffMemory(latest.memory, current).length === 0) {
+        return undefined;
+      }
+
+      const revision: MemoryRevision = {
+        revision: (latest?.revision || 0) + 1,
+        savedAt: new Date().toISOString(),
+        reason: options.reason,
+        runId: options.runId,
+        memory: current
+      };
+      const historyDir = this.getHistoryDir(jobName);
+      fs.mkdirSync(historyDir, { recursive: true });
+      this.writeMemoryFile(path.join(historyDir, `${String(revision.revision).padStart(6, '0')}.json`), revision);
+      log(`Saved memory revision #${revision.revision} for job ${jobName} (${options.reason})`);
+
+      // Drop the oldest revisions beyond the limit
+      revisions.slice(historyLimit - 1).forEach(old => {
+        fs.unlinkSync(path.join(historyDir, `${String(old.revision).padStart(6, '0')}.json`));
+      });
+      return revision;
+    } catch (err: any) {
+      error(`Failed to snapshot memory for job ${jobName}:`, err.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * List stored revisions for a job, newest first
+   */
+  static listMemoryRevisions(jobName: string): MemoryRevision[] {
+    const historyDir = this.getHistoryDir(jobName);
+    if (!fs.existsSync(historyDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(historyDir)
+      .filter(file => /^\d+\.json$/.test(file))
+      .sort()
+      .reverse()
+      .flatMap(file => {
+        try {
+          return [JSON.parse(fs.readFileSync(path.join(historyDir, file), 'utf8')) as MemoryRevision];
+        } catch {
+          error(`Skipping unreadable memory revision: ${path.join(historyDir, file)}`);
+          return [];
+        }
+      });
+  }
+
+  /**
+   * Load a single revision
+   */
+  static loadMemoryRevision(jobName: string, revision: number): MemoryRevision | undefined {
+    return this.listMemoryRevisions(jobName).find(entry => entry.revision === revision);
+  }
+
+  /**
+   * Restore memory from a revision; the restored state is recorded as a new revision
+   */
+  static async rollbackJobMemory(jobName: string, revision: number, historyLimit?: number): Promise<MemoryRevision> {
+    const target = this.loadMemoryRevision(jobName, revision);
+    if (!target) {
+      throw new Error(`Memory revision #${revision} not found for job: ${jobName}`);
+    }
+
+    // Keep the state being replaced, in case it was never snapshotted
+    this.snapshotJobMemory(jobName, { reason: 'before rollback', historyLimit });
+    const { _metadata, ...memory } = target.memory;
+    await this.saveJobMemory(jobName, { ...memory, _metadata: this.readJobMemory(jobName)?._metadata });
+    this.snapshotJobMemory(jobName, { reason: `rollback to #${revision}`, historyLimit });
+    return target;
+  }
+
+  /**
+   * Compare two memory states key by key, ignoring metadata
+   */
+  static diffMemory(before: Record<string, any>, after: Record<string, any>): MemoryChange[] {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .filter(key => key !== '_metadata')
+      .sort();
+    const changes: MemoryChange[] = [];
+
+    for (const key of keys) {
+      if (!(key in before)) {
+        changes.push({ key, type: 'added', after: after[key] });
+      } else if (!(key in after)) {
+        changes.push({ key, type: 'removed', before: before[key] });
+      } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes.push({ key, type: 'changed', before: before[key], after: after[key] });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Apply the key changes between `before` and `after` to the current memory, for edits made
+   * outside the lock (e.g. in an editor). Keys changed by others in the meantime are kept; when
+   * they overlap with the edited keys nothing is written and the conflicting keys are thrown.
+   */
+  static async applyMemoryEdit(jobName: string, before: Record<string, any>, after: Record<string, any>): Promise<MemoryChange[]> {
+    return this.withMemoryLock(jobName, () => {
+      const current = this.readMemoryUnlocked(jobName);
+      const changes = this.diffMemory(before, after);
+      const conflicts = changes.filter(change => (change.key in current) !== (change.key in before)
+        || JSON.stringify(current[change.key]) !== JSON.stringify(before[change.key]));
+      if (conflicts.length > 0) {
+        throw new Error(`Memory of job ${jobName} changed while editing (${conflicts.map(change => change.key).join(', ')})`);
+      }
+
+      const updated = { ...current };
+      for (const change of changes) {
+        if (change.type === 'removed') {
+          delete updated[change.key];
+        } else {
+          updated[change.key] = change.after;
+        }
+      }
+      this.writeMemoryUnlocked(jobName, updated);
+      return changes;
+    });
+  }
+
+  /**
+   * Whether a job has a memory file
+   */
+  static hasJobMemory(jobName: string): boolean {
+    return fs.existsSync(this.getMemoryFilePath(jobName));
+  }
+
+  /**
+   * Remove keys from a job's memory, returning the keys that existed
+   */
+  static async unsetJobMemoryKeys(jobName: string, keys: string[]): Promise<string[]> {
+    return this.withMemoryLock(jobName, () => {
+      const memory = this.readMemoryUnlocked(jobName);
+      const removed = keys.filter(key => key !== '_metadata' && key in memory);
+      if (removed.length > 0) {
+        removed.forEach(key => delete memory[key]);
+        this.writeMemoryUnlocked(jobName, memory);
+      }
+      return removed;
+    });
+  }
+
+  /**
+   * Jobs whose memory exists only in the legacy memory directory (see Workspace.getLegacyPaths)
+   * That memory is no longer read when the active workspace is somewhere else.
+   */
+  static findLegacyMemory(jobNames: string[]): string[] {
+    const legacyDir = Workspace.getLegacyPaths().memoryDir;
+    if (path.resolve(legacyDir) === path.resolve(this.memoryDir)) {
+      return [];
+    }
+    return jobNames.filter(jobName => {
+      const fileName = path.basename(this.getMemoryFilePath(jobName));
+      return fs.existsSync(path.join(legacyDir, fileName)) && !fs.existsSync(path.join(this.memoryDir, fileName));
+    });
   }
 
   /**
@@ -97,8 +536,8 @@ export class JobMemory {
   /**
    * Get memory content as formatted string for inclusion in prompts
    */
-  static async getMemoryContentForPrompt(jobName: string): Promise<string> {
-    const memory = await this.loadJobMemory(jobName);
+  static async getMemoryContentForPrompt(jobName: string, mode: MemoryUpdateMode = 'merge', options: { readOnly?: boolean } = {}): Promise<string> {
+    const memory = await this.loadJobMemory(jobName, options);
     
     if (Object.keys(memory).length === 0) {
       return `## Job Memory (${jobName})
@@ -129,35 +568,106 @@ ${memoryEntries}
 
 Memory file: ${this.getMemoryFilePath(jobName)}
 
-You can update memory by including a "jobMemory" object in your JSON response with new key-value pairs.
-Existing values can be updated or new ones added as needed.`;
+${mode === 'replace'
+  ? `You can update memory by including a "jobMemory" object in your JSON response.
+It replaces the whole memory, so include every key that should be kept.`
+  : `You can update memory by including a "jobMemory" object in your JSON response with new key-value pairs.
+Existing values can be updated or new ones added as needed; set a key to null to remove it.`}`;
   }
 
   /**
    * Clear memory for a specific job
    */
-  static clearJobMemory(jobName: string): void {
+  static async clearJobMemory(jobName: string): Promise<void> {
     try {
-      const memoryPath = this.getMemoryFilePath(jobName);
-      if (fs.existsSync(memoryPath)) {
-        fs.unlinkSync(memoryPath);
-        log(`Cleared memory for job: ${jobName}`);
-      }
+      // Under the lock, so a running job's write can't bring the memory back
+      await this.withMemoryLock(jobName, () => {
+        const memoryPath = this.getMemoryFilePath(jobName);
+        if (fs.existsSync(memoryPath)) {
+          // Keep the cleared state restorable with `gjob memory rollback`
+          this.snapshotJobMemory(jobName, { reason: 'before clear' });
+          fs.unlinkSync(memoryPath);
+          log(`Cleared memory for job: ${jobName}`);
+        }
+      });
     } catch (err: any) {
       error(`Failed to clear memory for job ${jobName}:`, err.message);
     }
   }
 
+  /**
+   * Throw when a job's memory can't be moved to a new name because that name already has memory
+   */
+  static assertCanRenameJobMemory(oldName: string, newName: string): void {
+    if (this.getMemoryFilePath(oldName) === this.getMemoryFilePath(newName)) {
+      return;
+    }
+    if (fs.existsSync(this.getMemoryFilePath(newName)) || fs.existsSync(this.getHistoryDir(newName))) {
+      throw new Error(`Job ${newName} already has memory; clear it before renaming ${oldName}`);
+    }
+  }
+
+  /**
+   * Move a job's memory file and revisions to a new job name, for renamed jobs
+   * Returns false when the job has no memory; throws when the new name already has memory.
+   */
+  static async renameJobMemory(oldName: string, newName: string): Promise<boolean> {
+    const oldPath = this.getMemoryFilePath(oldName);
+    const newPath = this.getMemoryFilePath(newName);
+    const oldHistoryDir = this.getHistoryDir(oldName);
+    const newHistoryDir = this.getHistoryDir(newName);
+    const sameFile = oldPath === newPath;
+
+    const move = (): boolean => {
+      if (!fs.existsSync(oldPath) && !fs.existsSync(oldHistoryDir)) {
+        return false;
+      }
+      this.assertCanRenameJobMemory(oldName, newName);
+      if (fs.existsSync(oldPath)) {
+        // Rewrite under the new name so the metadata names the new job
+        this.writeMemoryUnlocked(newName, this.readMemoryUnlocked(oldName));
+        if (!sameFile) {
+          fs.unlinkSync(oldPath);
+        }
+      }
+      if (!sameFile && fs.existsSync(oldHistoryDir)) {
+        fs.mkdirSync(path.dirname(newHistoryDir), { recursive: true });
+        fs.renameSync(oldHistoryDir, newHistoryDir);
+      }
+      log(`Moved memory of job ${oldName} to ${newName}`);
+      return true;
+    };
+
+    if (sameFile) {
+      return this.withMemoryLock(oldName, move);
+    }
+    // Both locks, always taken in path order, so opposite renames can't wait on each other
+    const [first, second] = oldPath < newPath ? [oldName, newName] : [newName, oldName];
+    return this.withMemoryLock(first, () => this.withMemoryLock(second, move));
+  }
+
   /**
    * List all jobs that have memory files
+   * Names come from the file metadata, since sanitized file names can't be mapped back
    */
   static listJobsWithMemory(): string[] {
     try {
-      this.ensureMemoryDir();
+      if (!fs.existsSync(this.memoryDir)) {
+        return [];
+      }
       const files = fs.readdirSync(this.memoryDir);
       return files
         .filter(file => file.endsWith('.memory.json'))
-        .map(file => file.replace('.memory.json', '').replace(/_/g, '-'));
+        .map(file => {
+          const fallbackName = file.replace(/\.memory\.json$/, '');
+          try {
+            const memory = JSON.parse(fs.readFileSync(path.join(this.memoryDir, file), 'utf8'));
+            return typeof memory._metadata?.jobName === 'string' ? memory._metadata.jobName : fallbackName;
+          } catch {
+            return fallbackName;
+          }
+        })
+        .sort();
     } catch (err: any) {
       error('Failed to list jobs with memory:', err.message);
       return [];
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { error, logJobExecution } from './logger';
+import { toWallTime } from './cronSchedule';
+
+/**
+ * Output sink configuration for a job result
+ *
+ * - file:      write the result to `path` (overwrite by default, or `mode: "append"`)
+ * - directory: write a new file per run into `path`, named by `fileName`
+ * - stdout:    print the raw result for piping into other tools
+ *
+ * `path` and `fileName` support the placeholders {jobName}, {date}, {time}, {timestamp} and {runId}.
+ * {date} and {time} are wall-clock time in the job timezone (host timezone when unset); {timestamp} is UTC.
+ * Relative paths are resolved against the config directory.
+ */
+export interface JobOutputConfig {
+  type: 'file' | 'directory' | 'stdout';
+  path?: string;
+  fileName?: string; // directory only, defaults to "{jobName}-{date}-{runId}.md"
+  mode?: 'overwrite' | 'append'; // file only, defaults to "overwrite"
+}
+
+/**
+ * Values available to output path placeholders
+ */
+export interface OutputContext {
+  jobName: string;
+  runId: string;
+  configDir?: string;
+  date?: Date;
+  timeZone?: string; // Timezone for {date} and {time}, host timezone when omitted
+}
+
+const DEFAULT_DIRECTORY_FILE_NAME = '{jobName}-{date}-{runId}.md';
+
+/**
+ * Job Output Writer
+ * Writes the full job result to the configured sinks
+ */
+export class JobOutputWriter {
+  /**
+   * Replace {placeholders} in an output path
+   */
+  static resolvePathTemplate(template: string, context: OutputContext): string {
+    const date = context.date || new Date();
+    const iso = date.toISOString();
+    const wallTime = toWallTime(date, context.timeZone).toISOString();
+    const values: Record<string, string> = {
+      jobName: context.jobName.replace(/[^a-zA-Z0-9-_]/g, '_'),
+      runId: context.runId,
+      date: wallTime.split('T')[0],
+      time: wallTime.split('T')[1].substring(0, 8).replace(/:/g, ''),
+      timestamp: iso.replace(/[:.]/g, '-')
+    };
+
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+      if (!(key in values)) {
+        throw new Error(`Unknown placeholder ${match} in output path: ${template}`);
+      }
+      return values[key];
+    });
+  }
+
+  /**
+   * Write content to a file atomically (temp file + rename)
+   */
+  static writeFileAtomic(filePath: string, content: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, content, 'utf8');
+      fs.renameSync(tempPath, filePath);
+    } catch (err) {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Write the job result to all configured outputs
+   * Returns the resolved file paths that were written. A failing sink is logged and skipped.
+   */
+  static writeOutputs(outputs: JobOutputConfig[], content: string, context: OutputContext): string[] {
+    const writtenPaths: string[] = [];
+
+    for (const output of outputs) {
+      try {
+        if (output.type === 'stdout') {
+          process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+          continue;
+        }
+
+        if (!output.path) {
+          throw new Error(`Output of type "${output.type}" requires a path`);
+        }
+
+        let targetPath = this.resolvePathTemplate(output.path, context);
+        if (output.type === 'directory') {
+          const fileName = this.resolvePathTemplate(output.fileName || DEFAULT_DIRECTORY_FILE_NAME, context);
+          targetPath = path.join(targetPath, fileName);
+        }
+        if (!path.isAbsolute(targetPath) && context.configDir) {
+          targetPath = path.join(context.configDir, targetPath);
+        }
+
+        if (output.type === 'file' && output.mode === 'append') {
+          fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+          const separator = fs.existsSync(targetPath) && fs.statSync(targetPath).size > 0 ? '\n\n' : '';
+          fs.appendFileSync(targetPath, `${separator}${content}`, 'utf8');
+        } else {
+          this.writeFileAtomic(targetPath, content);
+        }
+
+        writtenPaths.push(targetPath);
+        logJobExecution(context.jobName, `Wrote job result to ${targetPath}`);
+      } catch (err: any) {
+        error(`Failed to write ${output.type} output for job ${context.jobName}:`, err.message);
+      }
+    }
+
+    return writtenPaths;
+  }
+}
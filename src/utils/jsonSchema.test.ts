@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { JsonSchema, formatSchemaIssues, validateJsonSchema } from './jsonSchema';
+
+function errors(value: unknown, schema: JsonSchema): string[] {
+  return validateJsonSchema(value, schema).errors.map(issue => `${issue.path}: ${issue.message}`);
+}
+
+describe('validateJsonSchema', () => {
+  describe('types', () => {
+    it('checks single and multiple types', () => {
+      assert.deepEqual(errors('x', { type: 'string' }), []);
+      assert.deepEqual(errors(1, { type: 'string' }), ['(root): expected string, got integer']);
+      assert.deepEqual(errors(null, { type: ['string', 'null'] }), []);
+      assert.deepEqual(errors([], { type: 'object' }), ['(root): expected object, got array']);
+    });
+
+    it('accepts integers as numbers but not the reverse', () => {
+      assert.deepEqual(errors(3, { type: 'number' }), []);
+      assert.deepEqual(errors(3.5, { type: 'integer' }), ['(root): expected integer, got number']);
+    });
+
+    it('skips the other checks of a value with the wrong type', () => {
+      assert.deepEqual(errors(5, { type: 'string', minLength: 10, enum: ['a'] }), ['(root): expected string, got integer']);
+    });
+  });
+
+  describe('values', () => {
+    it('checks enum and const by value', () => {
+      assert.deepEqual(errors({ a: 1 }, { const: { a: 1 } }), []);
+      assert.deepEqual(errors('c', { enum: ['a', 'b'] }), ['(root): must be one of "a", "b"']);
+      assert.deepEqual(errors(2, { const: 1 }), ['(root): must be 1']);
+    });
+
+    it('checks string length, pattern and formats', () => {
+      assert.deepEqual(errors('', { minLength: 1 }), ['(root): must be at least 1 characters']);
+      assert.deepEqual(errors('abcd', { maxLength: 3 }), ['(root): must be at most 3 characters']);
+      assert.deepEqual(errors('v1', { pattern: '^v\\d+\\.\\d+$' }), ['(root): must match pattern ^v\\d+\\.\\d+$']);
+      const formats = { even: (value: string) => value.length % 2 === 0 };
+      assert.deepEqual(validateJsonSchema('abc', { format: 'even' }, { formats }).errors, [{ path: '(root)', message: 'invalid even: "abc"' }]);
+      assert.deepEqual(errors('abc', { format: 'unknown' }), []);
+    });
+
+    it('checks number ranges', () => {
+      assert.deepEqual(errors(0, { minimum: 1 }), ['(root): must be >= 1']);
+      assert.deepEqual(errors(11, { maximum: 10 }), ['(root): must be <= 10']);
+      assert.deepEqual(errors(10, { minimum: 10, maximum: 10 }), []);
+    });
+  });
+
+  describe('arrays and objects', () => {
+    it('checks item counts and every item, with indexed paths', () => {
+      assert.deepEqual(errors([], { minItems: 1 }), ['(root): must contain at least 1 item(s)']);
+      assert.deepEqual(errors([1, 2, 3], { maxItems: 2 }), ['(root): must contain at most 2 item(s)']);
+      assert.deepEqual(errors(['a', 2, 'c', null], { items: { type: 'string' } }), ['[1]: expected string, got integer', '[3]: expected string, got null']);
+    });
+
+    it('checks required and nested properties, with dotted paths', () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        required: ['items'],
+        properties: {
+          items: { type: 'array', items: { type: 'object', required: ['title'], properties: { title: { type: 'string' } } } }
+        }
+      };
+      assert.deepEqual(errors({}, schema), ['(root): missing required property "items"']);
+      assert.deepEqual(errors({ items: [{ title: 'a' }, {}, { title: 1 }] }, schema), [
+        'items[1]: missing required property "title"',
+        'items[2].title: expected string, got integer'
+      ]);
+    });
+
+    it('quotes keys that are not identifiers', () => {
+      const schema: JsonSchema = { properties: { options: { properties: { 'my key': { type: 'string' } } } } };
+      assert.deepEqual(errors({ options: { 'my key': 1 } }, schema), ['options["my key"]: expected string, got integer']);
+    });
+
+    it('checks additional properties', () => {
+      assert.deepEqual(errors({ a: 1, b: 2 }, { properties: { a: {} }, additionalProperties: false }), ['b: unknown property']);
+      assert.deepEqual(errors({ a: 1, b: 'x' }, { additionalProperties: { type: 'integer' } }), ['b: expected integer, got string']);
+    });
+
+    it('warns about unknown properties with a suggestion when asked to', () => {
+      const schema: JsonSchema = { properties: { schedules: {}, timezone: {} } };
+      assert.deepEqual(validateJsonSchema({ schedule: [] }, schema).warnings, []);
+      assert.deepEqual(validateJsonSchema({ schedule: [], colour: 'red' }, schema, { warnUnknownProperties: true }).warnings, [
+        { path: 'schedule', message: 'unknown property (did you mean "schedules"?)' },
+        { path: 'colour', message: 'unknown property' }
+      ]);
+    });
+  });
+
+  describe('anyOf and oneOf', () => {
+    const anyOf: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'object', required: ['type'], properties: { type: { enum: ['file'] } } }] };
+
+    it('accepts a value matching any alternative', () => {
+      assert.deepEqual(errors('x', anyOf), []);
+      assert.deepEqual(errors({ type: 'file' }, anyOf), []);
+    });
+
+    it('reports the errors of the alternative with the fewest errors', () => {
+      const shapes: JsonSchema = { anyOf: [{ type: 'object', required: ['path', 'pattern'] }, anyOf.anyOf![1]] };
+      assert.deepEqual(errors({ type: 'dir' }, shapes), ['type: must be one of "file"']);
+    });
+
+    it('rejects values matching more than one oneOf alternative', () => {
+      const oneOf: JsonSchema = { oneOf: [{ type: 'integer' }, { type: 'number', minimum: 0 }] };
+      assert.deepEqual(errors(1.5, oneOf), []);
+      assert.deepEqual(errors(1, oneOf), ['(root): matches more than one allowed shape']);
+    });
+  });
+
+  it('formats issues as a bullet list', () => {
+    assert.equal(formatSchemaIssues([{ path: 'a', message: 'bad' }, { path: 'b[0]', message: 'worse' }]), '  - a: bad\n  - b[0]: worse');
+  });
+});
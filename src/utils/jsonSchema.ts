@@ -0,0 +1,233 @@
+/**
+ * Minimal JSON Schema validator
+ * Supports the subset of JSON Schema used for config.json and job result schemas:
+ * type, enum, const, properties, required, additionalProperties, items, min/maxItems,
+ * min/maxLength, minimum/maximum, pattern, anyOf, oneOf and custom formats.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  format?: string;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+/**
+ * A single validation problem, located by a path like `jobs[0].schedules[1]`
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  errors: SchemaIssue[];
+  warnings: SchemaIssue[];
+}
+
+export interface SchemaValidationOptions {
+  formats?: Record<string, (value: string) => boolean>; // Custom format checks, e.g. { cron: cron.validate }
+  warnUnknownProperties?: boolean; // Warn about keys not listed in `properties` (when additionalProperties is unset)
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${base}[${key}]`;
+  }
+  const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+  if (!base) {
+    return segment;
+  }
+  return /^[A-Za-z_$]/.test(segment) ? `${base}.${segment}` : `${base}[${segment}]`;
+}
+
+/**
+ * Levenshtein distance, used to suggest the intended key for typos
+ */
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function suggestKey(key: string, knownKeys: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of knownKeys) {
+    const distance = editDistance(key, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best !== undefined && bestDistance <= Math.max(2, Math.floor(key.length / 4)) ? best : undefined;
+}
+
+function validateNode(value: unknown, schema: JsonSchema, path: string, options: SchemaValidationOptions, result: SchemaValidationResult): void {
+  const location = path || '(root)';
+
+  if (schema.anyOf || schema.oneOf) {
+    const alternatives = (schema.anyOf || schema.oneOf)!;
+    const outcomes = alternatives.map(alternative => {
+      const alternativeResult: SchemaValidationResult = { errors: [], warnings: [] };
+      validateNode(value, alternative, path, options, alternativeResult);
+      return alternativeResult;
+    });
+    const matching = outcomes.filter(outcome => outcome.errors.length === 0);
+
+    if (matching.length === 0) {
+      // Report the alternative that got furthest (fewest errors), preferring those of the value's type
+      const ofType = outcomes.filter((_, index) => {
+        const type = alternatives[index].type;
+        return !type || (Array.isArray(type) ? type : [type]).some(option => matchesType(value, option));
+      });
+      const closest = (ofType.length > 0 ? ofType : outcomes).reduce((a, b) => (b.errors.length < a.errors.length ? b : a));
+      result.errors.push(...closest.errors);
+      return;
+    }
+    if (schema.oneOf && matching.length > 1) {
+      result.errors.push({ path: location, message: 'matches more than one allowed shape' });
+      return;
+    }
+    result.warnings.push(...matching[0].warnings);
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      result.errors.push({ path: location, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    result.errors.push({ path: location, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    result.errors.push({ path: location, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      result.errors.push({ path: location, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      result.errors.push({ path: location, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      result.errors.push({ path: location, message: `must match pattern ${schema.pattern}` });
+    }
+    if (schema.format && options.formats?.[schema.format] && !options.formats[schema.format](value)) {
+      result.errors.push({ path: location, message: `invalid ${schema.format}: ${JSON.stringify(value)}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      result.errors.push({ path: location, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      result.errors.push({ path: location, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      result.errors.push({ path: location, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      result.errors.push({ path: location, message: `must contain at most ${schema.maxItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, joinPath(path, index), options, result));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        result.errors.push({ path: location, message: `missing required property "${key}"` });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertyPath = joinPath(path, key);
+      if (properties[key]) {
+        validateNode(propertyValue, properties[key], propertyPath, options, result);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, propertyPath, options, result);
+      } else if (schema.additionalProperties === false) {
+        result.errors.push({ path: propertyPath, message: 'unknown property' });
+      } else if (options.warnUnknownProperties && schema.properties && schema.additionalProperties === undefined) {
+        const suggestion = suggestKey(key, Object.keys(properties));
+        result.warnings.push({ path: propertyPath, message: `unknown property${suggestion ? ` (did you mean "${suggestion}"?)` : ''}` });
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema, collecting all errors and warnings
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, options: SchemaValidationOptions = {}): SchemaValidationResult {
+  const result: SchemaValidationResult = { errors: [], warnings: [] };
+  validateNode(value, schema, '', options, result);
+  return result;
+}
+
+/**
+ * Format issues as an indented bullet list for error messages
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createLogger } from './logger';
+import { GeminiCliCore, GeminiOptions, DEFAULT_GEMINI_TIMEOUT_MS } from './geminiCliCore';
+import { runPromptProcess, ProcessOutput, ProcessError } from './processRunner';
+import { Workspace } from './workspace';
+
+const { log, debug } = createLogger('gemini');
+
+/**
+ * A backend that turns a prompt into raw model output
+ * Execution failures must be ProcessErrors so retries can classify them
+ */
+export interface LlmProvider {
+  readonly name: string;
+  execute(prompt: string, options: GeminiOptions, googleCloudProject?: string, signal?: AbortSignal): Promise<ProcessOutput>;
+}
+
+export type LlmProviderType = 'gemini-cli' | 'command' | 'mock';
+
+/**
+ * Canned response for the mock provider
+ */
+export interface MockResponse {
+  file?: string; // Fixture file with the response text, relative to the config directory
+  text?: string; // Inline response text (used when file is not set)
+  when?: string; // Regular expression; the response is used whenever it matches the prompt
+  exitCode?: number; // Non-zero simulates a failed execution
+  stderr?: string;
+  delayMs?: number; // Simulated latency, subject to the timeout
+}
+
+/**
+ * Provider selection, globally or per job
+ */
+export interface LlmProviderConfig {
+  type: LlmProviderType;
+  command?: string; // command: executable that reads the prompt from stdin and prints the response
+  args?: string[]; // command: arguments, "{model}" is replaced with the resolved model
+  env?: Record<string, string>; // command: extra environment variables
+  cwd?: string; // command: working directory, relative to the config directory
+  responses?: MockResponse[]; // mock: scripted responses, consumed in order (the last one repeats)
+}
+
+function resolveConfigRelativePath(file: string, configDir?: string): string {
+  if (path.isAbsolute(file)) {
+    return file;
+  }
+  return path.join(configDir || Workspace.getPaths().configDir, file);
+}
+
+/**
+ * Command Provider
+ * Runs any executable with the prompt on stdin and treats its stdout as the model output
+ */
+export class CommandProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(private config: LlmProviderConfig, private configDir?: string) {
+    if (!config.command) {
+      throw new Error('Command provider requires a "command"');
+    }
+    this.name = `command:${path.basename(config.command)}`;
+  }
+
+  execute(prompt: string, options: GeminiOptions = {}, googleCloudProject?: string, signal?: AbortSignal): Promise<ProcessOutput> {
+    const model = options.model || process.env.GEMINI_MODEL || '';
+    const args = (this.config.args || []).map(arg => arg.replace(/\{model\}/g, model));
+    log(`Executing job with command provider: ${this.config.command} ${args.join(' ')}`.trim());
+
+    return runPromptProcess(prompt, {
+      command: this.config.command!,
+      args,
+      cwd: this.config.cwd ? resolveConfigRelativePath(this.config.cwd, this.configDir) : this.configDir,
+      env: {
+        ...process.env,
+        ...this.config.env,
+        GOOGLE_CLOUD_PROJECT: googleCloudProject || process.env.GOOGLE_CLOUD_PROJECT,
+        GJOB_MODEL: model
+      },
+      timeoutMs: options.timeoutMs || DEFAULT_GEMINI_TIMEOUT_MS,
+      signal,
+      label: `Command provider (${this.config.command})`
+    });
+  }
+}
+
+/**
+ * Mock Provider
+ * Returns canned or scripted responses from fixture files, for tests and demos.
+ * Responses with `when` are picked whenever their pattern matches the prompt; the rest are
+ * consumed in order per run, repeating the last one once the script is exhausted.
+ */
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+  private callCount = 0;
+
+  constructor(private config: LlmProviderConfig, private configDir?: string) {
+    if (!config.responses || config.responses.length === 0) {
+      throw new Error('Mock provider requires at least one entry in "responses"');
+    }
+  }
+
+  async execute(prompt: string, options: GeminiOptions = {}, _googleCloudProject?: string, signal?: AbortSignal): Promise<ProcessOutput> {
+    const response = this.pickResponse(prompt);
+    const label = 'Mock provider';
+    log(`Executing job with mock provider (call ${this.callCount})`);
+
+    if (response.delayMs) {
+      await this.delay(response.delayMs, options.timeoutMs || DEFAULT_GEMINI_TIMEOUT_MS, label, signal);
+    } else if (signal?.aborted) {
+      throw new ProcessError(`${label} execution cancelled`, 'cancelled');
+    }
+
+    const exitCode = response.exitCode ?? 0;
+    if (exitCode !== 0) {
+      throw new ProcessError(`${label} failed with exit code ${exitCode}: ${response.stderr || ''}`, 'exit');
+    }
+
+    let stdout = response.text || '';
+    if (response.file) {
+      const fixturePath = resolveConfigRelativePath(response.file, this.configDir);
+      try {
+        stdout = fs.readFileSync(fixturePath, 'utf8');
+      } catch (err: any) {
+        throw new ProcessError(`Failed to execute ${label}: cannot read fixture ${fixturePath}: ${err.message}`, 'spawn');
+      }
+    }
+
+    debug(`Mock response (${stdout.length} chars)`);
+    return { stdout: stdout.trim(), stderr: (response.stderr || '').trim() };
+  }
+
+  private pickResponse(prompt: string): MockResponse {
+    const responses = this.config.responses!;
+    const matched = responses.find(response => response.when && new RegExp(response.when).test(prompt));
+    const scripted = responses.filter(response => !response.when);
+    this.callCount++;
+
+    if (matched) {
+      return matched;
+    }
+    if (scripted.length === 0) {
+      throw new ProcessError('Failed to execute Mock provider: no response matches the prompt', 'spawn');
+    }
+    return scripted[Math.min(this.callCount - 1, scripted.length - 1)];
+  }
+
+  private delay(delayMs: number, timeoutMs: number, label: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timedOut = delayMs > timeoutMs;
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        if (timedOut) {
+          reject(new ProcessError(`${label} execution timed out after ${timeoutMs}ms`, 'timeout'));
+        } else {
+          resolve();
+        }
+      }, Math.min(delayMs, timeoutMs));
+      function onAbort() {
+        clearTimeout(timer);
+        reject(new ProcessError(`${label} execution cancelled`, 'cancelled'));
+      }
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Create the provider for a run; defaults to the Gemini CLI
+ */
+export function createLlmProvider(config?: LlmProviderConfig, configDir?: string): LlmProvider {
+  switch (config?.type) {
+    case undefined:
+    case 'gemini-cli':
+      return new GeminiCliCore();
+    case 'command':
+      return new CommandProvider(config, configDir);
+    case 'mock':
+      return new MockProvider(config, configDir);
+    default:
+      throw new Error(`Unknown LLM provider type: ${(config as LlmProviderConfig).type}`);
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogReader } from './logReader';
+import { Workspace } from './workspace';
+
+describe('LogReader', () => {
+  let tempDir: string;
+  let logDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-log-reader-test-'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    logDir = Workspace.configure(path.join(fs.mkdtempSync(path.join(tempDir, 'ws-')), 'config.json')).logDir;
+    fs.mkdirSync(logDir, { recursive: true });
+  });
+
+  describe('parseLogContent', () => {
+    it('parses the legacy layout', () => {
+      const entries = LogReader.parseLogContent([
+        '[2026-09-01T09:00:00.000Z] [LOG] Scheduler started',
+        '[2026-09-01T09:00:01.000Z] [JOB_EXECUTION] [digest] Executing mock',
+        '[2026-09-01T09:00:02.000Z] [WARN] Warning: Slow response',
+        '[2026-09-01T09:00:03.000Z] [CONSOLE_ERROR] Unexpected output',
+        '[2026-09-01T09:00:04.000Z] [CLI_DEBUG] Details',
+        ''
+      ].join('\n'));
+      assert.deepEqual(entries.map(entry => [entry.level, entry.jobName, entry.runId, entry.message]), [
+        ['info', undefined, undefined, 'Scheduler started'],
+        ['info', 'digest', undefined, 'Executing mock'],
+        ['warn', undefined, undefined, 'Warning: Slow response'],
+        ['error', undefined, undefined, 'Unexpected output'],
+        ['debug', undefined, undefined, 'Details']
+      ]);
+    });
+
+    it('parses the text layout', () => {
+      const [entry] = LogReader.parseLogContent('[2026-09-01T09:00:00.000Z] [ERROR] [digest] [run:run-1] Failed attempts=2');
+      assert.deepEqual(entry, { time: '2026-09-01T09:00:00.000Z', level: 'error', jobName: 'digest', runId: 'run-1', message: 'Failed attempts=2' });
+    });
+
+    it('parses JSON Lines and mixed files', () => {
+      const json = { time: '2026-09-01T09:00:01.000Z', level: 'info', jobName: 'digest', runId: 'run-1', message: 'Run success', fields: { status: 'success' } };
+      const entries = LogReader.parseLogContent(`[2026-09-01T09:00:00.000Z] [LOG] Before\n${JSON.stringify(json)}\n`);
+      assert.equal(entries.length, 2);
+      assert.deepEqual(entries[1], json);
+    });
+
+    it('appends continuation lines to the previous message', () => {
+      const entries = LogReader.parseLogContent('orphan line\n[2026-09-01T09:00:00.000Z] [ERROR] Stack:\n  at one\n{not json\n');
+      assert.deepEqual(entries.map(entry => entry.message), ['Stack:\n  at one\n{not json']);
+    });
+  });
+
+  describe('matches', () => {
+    const entry = { time: '2026-09-01T09:00:00.000Z', level: 'warn' as const, jobName: 'Digest', runId: 'run-1', message: 'x' };
+
+    it('filters by job, run, minimum level and time', () => {
+      assert.equal(LogReader.matches(entry, { jobName: 'digest', runId: 'run-1', level: 'info' }), true);
+      assert.equal(LogReader.matches(entry, { jobName: 'other' }), false);
+      assert.equal(LogReader.matches(entry, { runId: 'run-2' }), false);
+      assert.equal(LogReader.matches(entry, { level: 'error' }), false);
+      assert.equal(LogReader.matches(entry, { since: new Date('2026-09-01T09:00:00.000Z'), until: new Date('2026-09-01T09:00:00.000Z') }), true);
+      assert.equal(LogReader.matches(entry, { since: new Date('2026-09-01T09:00:00.001Z') }), false);
+      assert.equal(LogReader.matches(entry, { until: new Date('2026-09-01T08:59:59.999Z') }), false);
+    });
+  });
+
+  describe('reading files', () => {
+    beforeEach(() => {
+      const line = (day: string, hour: number, message: string) => `[${day}T${String(hour).padStart(2, '0')}:00:00.000Z] [JOB_EXECUTION] [digest] ${message}`;
+      fs.writeFileSync(path.join(logDir, '2026-09-01.log'), [line('2026-09-01', 9, 'one'), line('2026-09-01', 10, 'two')].join('\n') + '\n');
+      fs.writeFileSync(path.join(logDir, '2026-09-02.jsonl'), JSON.stringify({ time: '2026-09-02T09:00:00.000Z', level: 'info', jobName: 'digest', message: 'three' }) + '\n');
+      fs.writeFileSync(path.join(logDir, '2026-09-03.log'), line('2026-09-03', 9, 'four') + '\n');
+      fs.writeFileSync(path.join(logDir, 'notes.txt'), 'not a log file\n');
+    });
+
+    it('reads entries across formats in time order, skipping files outside the range', () => {
+      assert.deepEqual(LogReader.readEntries({ jobName: 'digest' }).map(entry => entry.message), ['one', 'two', 'three', 'four']);
+      assert.deepEqual(LogReader.readEntries({ since: new Date('2026-09-01T09:30:00Z'), until: new Date('2026-09-02T23:00:00Z') }).map(entry => entry.message), ['two', 'three']);
+    });
+
+    it('reads the latest entries from the newest files', () => {
+      assert.deepEqual(LogReader.readLatestEntries({ jobName: 'digest' }, 2).map(entry => entry.message), ['three', 'four']);
+      assert.deepEqual(LogReader.readLatestEntries({ until: new Date('2026-09-01T23:00:00Z') }, 5).map(entry => entry.message), ['one', 'two']);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogEntry, LogLevel, getLogDirectory } from './logger';
+
+/**
+ * Filter options for querying log entries
+ */
+export interface LogFilter {
+  jobName?: string; // Case-insensitive
+  runId?: string;
+  level?: LogLevel; // Minimum level
+  since?: Date;
+  until?: Date;
+}
+
+const LEVEL_ORDER: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const LOG_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.(log|jsonl)$/;
+const TEXT_LINE_PATTERN = /^\[(\d{4}-\d{2}-\d{2}T[\d:.]+Z)\] \[([A-Z_]+)\] (?:\[([^\]]+)\] )?(?:\[run:([^\]]+)\] )?([\s\S]*)$/;
+const FOLLOW_POLL_MS = 500;
+
+/**
+ * Level of a text log line, including the tags written before logs were structured
+ */
+function levelFromTag(tag: string): LogLevel {
+  if (/ERROR/.test(tag)) {
+    return 'error';
+  }
+  if (/WARN/.test(tag)) {
+    return 'warn';
+  }
+  return /DEBUG/.test(tag) ? 'debug' : 'info';
+}
+
+/**
+ * Log Reader
+ * Queries the daily log files of the workspace, in either the text or the JSON Lines format
+ */
+export class LogReader {
+  /**
+   * Daily log files, oldest first
+   */
+  static listLogFiles(): string[] {
+    const logDir = getLogDirectory();
+    if (!fs.existsSync(logDir)) {
+      return [];
+    }
+    return fs.readdirSync(logDir)
+      .filter(file => LOG_FILE_PATTERN.test(file))
+      .sort()
+      .map(file => path.join(logDir, file));
+  }
+
+  /**
+   * Parse the content of a log file into entries
+   * Text lines that don't start with a timestamp continue the previous entry's message.
+   */
+  static parseLogContent(content: string): LogEntry[] {
+    const entries: LogEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      if (line.startsWith('{')) {
+        try {
+          const entry = JSON.parse(line);
+          if (typeof entry.time === 'string' && typeof entry.message === 'string') {
+            entries.push(entry);
+            continue;
+          }
+        } catch {
+          // Not a JSON entry, handled as text below
+        }
+      }
+
+      const match = TEXT_LINE_PATTERN.exec(line);
+      if (match) {
+        entries.push({
+          time: match[1],
+          level: levelFromTag(match[2]),
+          jobName: match[3],
+          runId: match[4],
+          message: match[5]
+        });
+      } else if (entries.length > 0) {
+        entries[entries.length - 1].message += `\n${line}`;
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Whether an entry passes a filter
+   */
+  static matches(entry: LogEntry, filter: LogFilter): boolean {
+    if (filter.jobName && entry.jobName?.toLowerCase() !== filter.jobName.toLowerCase()) {
+      return false;
+    }
+    if (filter.runId && entry.runId !== filter.runId) {
+      return false;
+    }
+    if (filter.level && LEVEL_ORDER.indexOf(entry.level) < LEVEL_ORDER.indexOf(filter.level)) {
+      return false;
+    }
+    const time = new Date(entry.time);
+    if (filter.since && time < filter.since) {
+      return false;
+    }
+    return !(filter.until && time > filter.until);
+  }
+
+  /**
+   * Read matching entries across all daily files, oldest first
+   * Files are skipped by their date when they are entirely outside the time range.
+   */
+  static readEntries(filter: LogFilter = {}): LogEntry[] {
+    return this.listLogFilesInRange(filter)
+      .flatMap(file => this.readFileEntries(file, filter))
+      .sort((a, b) => a.time.localeCompare(b.time));
+  }
+
+  /**
+   * The last `limit` matching entries, oldest first
+   * Reads daily files from the newest backwards and stops once enough entries are found,
+   * so the cost doesn't grow with the age of the log directory.
+   */
+  static readLatestEntries(filter: LogFilter, limit: number): LogEntry[] {
+    const entries: LogEntry[] = [];
+    for (const file of this.listLogFilesInRange(filter).reverse()) {
+      entries.push(...this.readFileEntries(file, filter));
+      if (entries.length >= limit) {
+        break;
+      }
+    }
+    return entries.sort((a, b) => a.time.localeCompare(b.time)).slice(-limit);
+  }
+
+  /**
+   * Daily files that can hold entries in the filter's time range, oldest first
+   */
+  private static listLogFilesInRange(filter: LogFilter): string[] {
+    const sinceDay = filter.since?.toISOString().slice(0, 10);
+    const untilDay = filter.until?.toISOString().slice(0, 10);
+    return this.listLogFiles().filter(file => {
+      const day = LOG_FILE_PATTERN.exec(path.basename(file))![1];
+      return (!sinceDay || day >= sinceDay) && (!untilDay || day <= untilDay);
+    });
+  }
+
+  private static readFileEntries(file: string, filter: LogFilter): LogEntry[] {
+    return this.parseLogContent(fs.readFileSync(file, 'utf8')).filter(entry => this.matches(entry, filter));
+  }
+
+  /**
+   * Call `onEntry` for each matching entry appended to the log from now on, like `tail -f`
+   * Switches to the next daily file when the date rolls over. Returns a function that stops following.
+   */
+  static follow(filter: LogFilter, onEntry: (entry: LogEntry) => void): () => void {
+    let currentFile = this.latestLogFile();
+    let offset = currentFile && fs.existsSync(currentFile) ? fs.statSync(currentFile).size : 0;
+    let pending = '';
+
+    const poll = () => {
+      const latest = this.latestLogFile();
+      if (latest !== currentFile) {
+        readNew(); // Drain the previous file before switching
+        currentFile = latest;
+        offset = 0;
+        pending = '';
+      }
+      readNew();
+    };
+
+    const readNew = () => {
+      if (!currentFile || !fs.existsSync(currentFile)) {
+        return;
+      }
+      const size = fs.statSync(currentFile).size;
+      if (size < offset) {
+        offset = 0; // Truncated or replaced
+      }
+      if (size === offset) {
+        return;
+      }
+
+      const fd = fs.openSync(currentFile, 'r');
+      const buffer = Buffer.alloc(size - offset);
+      try {
+        fs.readSync(fd, buffer, 0, buffer.length, offset);
+      } finally {
+        fs.closeSync(fd);
+      }
+      offset = size;
+
+      // Entries are appended whole, so everything up to the last newline is complete
+      const text = pending + buffer.toString('utf8');
+      const lastNewline = text.lastIndexOf('\n');
+      pending = text.slice(lastNewline + 1);
+      this.parseLogContent(text.slice(0, lastNewline + 1)).filter(entry => this.matches(entry, filter)).forEach(onEntry);
+    };
+
+    const timer = setInterval(poll, FOLLOW_POLL_MS);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Newest daily log file, which is the one being written to
+   */
+  private static latestLogFile(): string | undefined {
+    const files = this.listLogFiles();
+    return files[files.length - 1];
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configureLogging, getLogFormat, getTodayLogFilePath, log, logEvent, logJobExecution, renderLogEntry, runWithLogContext, setCliMode, warn } from './logger';
+import { Workspace } from './workspace';
+
+const TIME = '[\\d-]+T[\\d:.]+Z';
+
+describe('logger', () => {
+  let tempDir: string;
+  const envFormat = process.env.GJOB_LOG_FORMAT;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gjob-logger-test-'));
+    delete process.env.GJOB_LOG_FORMAT;
+    // Plain console output, the entries under test are the file lines
+    setCliMode(true);
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    setCliMode(false);
+    configureLogging();
+    if (envFormat !== undefined) {
+      process.env.GJOB_LOG_FORMAT = envFormat;
+    }
+  });
+
+  beforeEach(() => {
+    Workspace.configure(path.join(fs.mkdtempSync(path.join(tempDir, 'ws-')), 'config.json'));
+  });
+
+  // Log the same lines in each format
+  function writeLines(): string[] {
+    log('Scheduler started');
+    runWithLogContext({ jobName: 'digest', runId: 'run-1', component: 'runner' }, () => {
+      logJobExecution('digest', 'Executing mock');
+      warn('Slow response');
+      logEvent('info', 'Run success', { status: 'success', durationMs: 12 });
+    });
+    return fs.readFileSync(getTodayLogFilePath(), 'utf8').trimEnd().split('\n');
+  }
+
+  function assertLines(lines: string[], patterns: string[]): void {
+    assert.equal(lines.length, patterns.length, lines.join('\n'));
+    lines.forEach((line, index) => assert.match(line, new RegExp(`^\\[${TIME}\\] ${patterns[index]}$`)));
+  }
+
+  it('writes the legacy layout by default', () => {
+    configureLogging();
+    assert.equal(getLogFormat(), 'legacy');
+    assert.ok(getTodayLogFilePath().endsWith('.log'));
+    assertLines(writeLines(), [
+      '\\[LOG\\] Scheduler started',
+      '\\[JOB_EXECUTION\\] \\[digest\\] Executing mock',
+      '\\[WARN\\] Warning: Slow response',
+      '\\[LOG\\] Run success status=success durationMs=12'
+    ]);
+  });
+
+  it('writes levels, job names and run IDs in the text format', () => {
+    configureLogging({ format: 'text' });
+    assertLines(writeLines(), [
+      '\\[INFO\\] Scheduler started',
+      '\\[INFO\\] \\[digest\\] \\[run:run-1\\] Executing mock',
+      '\\[WARN\\] \\[digest\\] \\[run:run-1\\] Warning: Slow response',
+      '\\[INFO\\] \\[digest\\] \\[run:run-1\\] Run success status=success durationMs=12'
+    ]);
+  });
+
+  it('writes JSON Lines in the json format', () => {
+    configureLogging({ format: 'json' });
+    assert.ok(getTodayLogFilePath().endsWith('.jsonl'));
+    const entries = writeLines().map(line => JSON.parse(line));
+    assert.deepEqual(entries.map(({ time, ...entry }) => entry), [
+      { level: 'info', message: 'Scheduler started' },
+      { level: 'info', component: 'runner', jobName: 'digest', runId: 'run-1', message: 'Executing mock' },
+      { level: 'warn', component: 'runner', jobName: 'digest', runId: 'run-1', message: 'Warning: Slow response' },
+      { level: 'info', component: 'runner', jobName: 'digest', runId: 'run-1', message: 'Run success', fields: { status: 'success', durationMs: 12 } }
+    ]);
+  });
+
+  it('lets GJOB_LOG_FORMAT override the configured format', () => {
+    process.env.GJOB_LOG_FORMAT = 'json';
+    try {
+      configureLogging({ format: 'text' });
+      assert.equal(getLogFormat(), 'json');
+    } finally {
+      delete process.env.GJOB_LOG_FORMAT;
+    }
+  });
+
+  it('renders entries for display', () => {
+    assert.equal(
+      renderLogEntry({ time: '2026-09-01T09:00:00.000Z', level: 'error', jobName: 'digest', message: 'Failed', fields: { attempts: 2, reason: 'timeout' } }),
+      '[2026-09-01T09:00:00.000Z] [ERROR] [digest] Failed attempts=2 reason=timeout'
+    );
+  });
+});
@@ -1,11 +1,55 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Workspace } from './workspace';
 
 /**
  * Comprehensive logging utility with CLI-friendly modes and complete output capture
+ * Every line is a structured entry; the text format is a renderer on top of it.
  */
 
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json' | 'legacy';
+export type LogComponent = 'scheduler' | 'runner' | 'gemini' | 'memory' | 'cli' | 'console';
+
+/**
+ * Logging settings (config.json → logging)
+ */
+export interface LoggingConfig {
+  format?: LogFormat; // Log file format, defaults to GJOB_LOG_FORMAT or "legacy" (the pre-structured layout); "text" adds levels and run IDs
+  console?: LogFormat; // Scheduler console output format, defaults to "legacy"
+}
+
+/**
+ * Correlation fields attached to every entry logged within a run
+ */
+export interface LogContext {
+  jobName?: string;
+  runId?: string;
+  trigger?: string;
+  component?: LogComponent;
+}
+
+/**
+ * One log line
+ */
+export interface LogEntry extends LogContext {
+  time: string; // ISO timestamp
+  level: LogLevel;
+  message: string;
+  fields?: Record<string, any>; // Structured values, e.g. status or durationMs
+}
+
+const LOG_FORMATS: LogFormat[] = ['text', 'json', 'legacy'];
+// Existing log files and the tools reading them expect the pre-structured layout, so it stays the default for now
+const DEFAULT_LOG_FORMAT: LogFormat = 'legacy';
+
+// Active run context, propagated through async calls
+const logContextStorage = new AsyncLocalStorage<LogContext>();
+
+let fileFormat: LogFormat = DEFAULT_LOG_FORMAT;
+let consoleFormat: LogFormat = DEFAULT_LOG_FORMAT;
+
 // Global flag for CLI quiet mode
 let isCliMode = false;
 
@@ -21,38 +65,130 @@ const originalConsole = {
   info: console.info
 };
 
-// Log directory setup
-const LOG_DIR = path.join(os.homedir(), '.gemini-cli-job', 'logs');
+// Where informational console output goes; stderr while job results are printed to stdout
+let logStream: 'stdout' | 'stderr' = 'stdout';
+const consoleOutput = {
+  log: (...args: any[]) => (logStream === 'stderr' ? originalConsole.error : originalConsole.log)(...args),
+  info: (...args: any[]) => (logStream === 'stderr' ? originalConsole.error : originalConsole.info)(...args),
+  debug: (...args: any[]) => (logStream === 'stderr' ? originalConsole.error : originalConsole.debug)(...args)
+};
+
+// Log directory of the active workspace
+function getLogDir(): string {
+  return Workspace.getPaths().logDir;
+}
 
 // Ensure log directory exists
 function ensureLogDirectory(): void {
-  if (!fs.existsSync(LOG_DIR)) {
-    fs.mkdirSync(LOG_DIR, { recursive: true });
+  if (!fs.existsSync(getLogDir())) {
+    fs.mkdirSync(getLogDir(), { recursive: true });
   }
 }
 
 // Get today's log file path
 function getTodayLogFile(): string {
   const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-  return path.join(LOG_DIR, `${today}.log`);
+  return path.join(getLogDir(), `${today}${fileFormat === 'json' ? '.jsonl' : '.log'}`);
+}
+
+// Join a message and its extra arguments the way console.log would
+function formatMessage(message: string, args: any[]): string {
+  const rendered = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg) : String(arg)).join(' ');
+  return [message, rendered].filter(Boolean).join(' ');
+}
+
+// Build an entry, filling correlation fields from the active run context
+function createEntry(level: LogLevel, message: string, args: any[], context: LogContext = {}, fields?: Record<string, any>): LogEntry {
+  const merged = { ...logContextStorage.getStore(), ...stripUndefined(context) };
+  return stripUndefined({
+    time: new Date().toISOString(),
+    level,
+    component: merged.component,
+    jobName: merged.jobName,
+    runId: merged.runId,
+    trigger: merged.trigger,
+    message: formatMessage(message, args),
+    fields: fields && Object.keys(fields).length > 0 ? fields : undefined
+  }) as LogEntry;
+}
+
+function stripUndefined<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+/**
+ * Render an entry in the human-readable format:
+ * [timestamp] [LEVEL] [jobName] [run:runId] message key=value
+ */
+export function renderLogEntry(entry: LogEntry): string {
+  const job = `${entry.jobName ? `[${entry.jobName}] ` : ''}${entry.runId ? `[run:${entry.runId}] ` : ''}`;
+  const fields = entry.fields
+    ? Object.entries(entry.fields).map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join('')
+    : '';
+  return `[${entry.time}] [${entry.level.toUpperCase()}] ${job}${entry.message}${fields}`;
+}
+
+/**
+ * Render an entry in the layout used before logs were structured, selected with the "legacy" format:
+ * [timestamp] [TAG] message, where TAG is LOG, ERROR, WARN, DEBUG, JOB_EXECUTION, CLI_* or CONSOLE_*
+ */
+function renderLegacyLogEntry(entry: LogEntry, tag: string): string {
+  const job = tag === 'JOB_EXECUTION' && entry.jobName ? `[${entry.jobName}] ` : '';
+  const fields = entry.fields
+    ? Object.entries(entry.fields).map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join('')
+    : '';
+  return `[${entry.time}] [${tag}] ${job}${entry.message}${fields}`;
+}
+
+/**
+ * Tag of a level in the legacy layout
+ */
+function legacyTag(level: LogLevel): string {
+  return level === 'info' ? 'LOG' : level.toUpperCase();
+}
+
+/**
+ * Apply logging settings; GJOB_LOG_FORMAT overrides the file format
+ */
+export function configureLogging(config: LoggingConfig = {}): void {
+  const envFormat = process.env.GJOB_LOG_FORMAT as LogFormat | undefined;
+  fileFormat = envFormat && LOG_FORMATS.includes(envFormat) ? envFormat : config.format || DEFAULT_LOG_FORMAT;
+  consoleFormat = config.console || DEFAULT_LOG_FORMAT;
+}
+
+/**
+ * Active log file format
+ */
+export function getLogFormat(): LogFormat {
+  return fileFormat;
 }
 
-// Write to log file
-function writeToLogFile(level: string, message: string, ...args: any[]): void {
+/**
+ * Run `fn` with correlation fields added to every entry it logs, including from async work it starts
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContextStorage.run({ ...logContextStorage.getStore(), ...stripUndefined(context) }, fn);
+}
+
+export function getLogContext(): LogContext {
+  return { ...logContextStorage.getStore() };
+}
+
+// Write to log file; `tag` names the entry in the legacy layout
+function writeToLogFile(entry: LogEntry, tag = legacyTag(entry.level)): void {
   try {
     ensureLogDirectory();
-    const timestamp = new Date().toISOString();
-    const logEntry = `[${timestamp}] [${level}] ${message}${args.length > 0 ? ' ' + args.map(arg => 
-      typeof arg === 'object' ? JSON.stringify(arg) : String(arg)
-    ).join(' ') : ''}\n`;
+    const line = fileFormat === 'json' ? JSON.stringify(entry)
+      : fileFormat === 'legacy' ? renderLegacyLogEntry(entry, tag)
+      : renderLogEntry(entry);
     
     const logFile = getTodayLogFile();
-    fs.appendFileSync(logFile, logEntry, 'utf8');
+    fs.appendFileSync(logFile, `${line}\n`, 'utf8');
     
     // Debug: Also write to a separate debug file to verify writes are happening
     if (process.env.DEBUG_FILE_LOGGING === 'true') {
-      const debugFile = logFile.replace('.log', '-debug.log');
-      fs.appendFileSync(debugFile, `DEBUG: ${logEntry}`, 'utf8');
+      const debugFile = logFile.replace(/\.jsonl?$|\.log$/, '-debug.log');
+      fs.appendFileSync(debugFile, `DEBUG: ${line}\n`, 'utf8');
     }
   } catch (err) {
     // Silently fail to avoid recursive logging issues
@@ -61,82 +197,135 @@ function writeToLogFile(level: string, message: string, ...args: any[]): void {
 }
 
 // Core logging function with consistent formatting
-function logWithLevel(level: string, consoleMethod: (...args: any[]) => void, message: string, ...args: any[]): void {
+function logWithLevel(level: LogLevel, consoleMethod: (...args: any[]) => void, message: string, args: any[], context?: LogContext, fields?: Record<string, any>): void {
+  const entry = createEntry(level, message, args, context, fields);
   // Always write to file first
-  writeToLogFile(level, message, ...args);
+  writeToLogFile(entry);
   
   // Output to console based on mode
   if (isCliMode) {
     // Clean output for CLI commands
     consoleMethod(message, ...args);
+  } else if (consoleFormat === 'json') {
+    consoleMethod(JSON.stringify(entry));
   } else {
     // Detailed logging for job execution
-    const timestamp = new Date().toISOString();
-    consoleMethod(`[${timestamp}] [${level}]`, message, ...args);
+    consoleMethod(`[${entry.time}] [${consoleFormat === 'legacy' ? legacyTag(level) : level.toUpperCase()}]`, message, ...args);
   }
 }
 
+/**
+ * Send informational console output (logs, CLI messages and captured console.log) to stderr,
+ * so stdout carries nothing but job results written by a stdout output sink
+ */
+export function setLogStream(stream: 'stdout' | 'stderr'): void {
+  logStream = stream;
+}
+
 export function setCliMode(enabled: boolean): void {
   isCliMode = enabled;
 }
 
 export function log(message: string, ...args: any[]): void {
-  logWithLevel('LOG', originalConsole.log, message, ...args);
+  logWithLevel('info', consoleOutput.log, message, args);
+}
+
+/**
+ * Log an informational message to stderr, for diagnostics that must not mix with command output on stdout
+ */
+export function logToStderr(message: string, ...args: any[]): void {
+  logWithLevel('info', originalConsole.error, message, args);
 }
 
 export function error(message: string, ...args: any[]): void {
   const prefix = isCliMode ? 'Error: ' : '';
-  logWithLevel('ERROR', originalConsole.error, `${prefix}${message}`, ...args);
+  logWithLevel('error', originalConsole.error, `${prefix}${message}`, args);
 }
 
 export function warn(message: string, ...args: any[]): void {
   const prefix = isCliMode ? 'Warning: ' : '';
-  logWithLevel('WARN', originalConsole.warn, `${prefix}${message}`, ...args);
+  logWithLevel('warn', originalConsole.warn, `${prefix}${message}`, args);
 }
 
 export function debug(message: string, ...args: any[]): void {
   if (process.env.DEBUG === 'true') {
-    logWithLevel('DEBUG', originalConsole.debug, message, ...args);
+    logWithLevel('debug', consoleOutput.debug, message, args);
+  }
+}
+
+/**
+ * Log a message with structured fields (written as "fields" in JSON, key=value in text)
+ */
+export function logEvent(level: LogLevel, message: string, fields: Record<string, any>, context?: LogContext): void {
+  if (level === 'debug' && process.env.DEBUG !== 'true') {
+    return;
   }
+  const consoleMethod = level === 'error' ? originalConsole.error : level === 'warn' ? originalConsole.warn : consoleOutput.log;
+  logWithLevel(level, consoleMethod, message, [], context, fields);
 }
 
 // CLI-specific functions with emojis and formatting
 export function cliSuccess(message: string): void {
-  writeToLogFile('CLI_SUCCESS', message);
-  originalConsole.log(`✅ ${message}`);
+  writeToLogFile(createEntry('info', message, [], { component: 'cli' }), 'CLI_SUCCESS');
+  consoleOutput.log(`✅ ${message}`);
 }
 
 export function cliInfo(message: string): void {
-  writeToLogFile('CLI_INFO', message);
-  originalConsole.log(`ℹ️  ${message}`);
+  writeToLogFile(createEntry('info', message, [], { component: 'cli' }), 'CLI_INFO');
+  consoleOutput.log(`ℹ️  ${message}`);
 }
 
 export function cliError(message: string): void {
-  writeToLogFile('CLI_ERROR', message);
+  writeToLogFile(createEntry('error', message, [], { component: 'cli' }), 'CLI_ERROR');
   originalConsole.error(`❌ ${message}`);
 }
 
 export function cliHeader(message: string): void {
-  writeToLogFile('CLI_HEADER', message);
-  originalConsole.log(`\n🚀 ${message}`);
-  originalConsole.log('='.repeat(message.length + 3));
+  writeToLogFile(createEntry('info', message, [], { component: 'cli' }), 'CLI_HEADER');
+  consoleOutput.log(`\n🚀 ${message}`);
+  consoleOutput.log('='.repeat(message.length + 3));
 }
 
 // Job-specific logging
 export function logJobExecution(jobName: string, message: string, ...args: any[]): void {
-  writeToLogFile('JOB_EXECUTION', `[${jobName}] ${message}`, ...args);
+  logJobExecutionAs(undefined, jobName, message, args);
+}
+
+function logJobExecutionAs(component: LogComponent | undefined, jobName: string, message: string, args: any[]): void {
+  const entry = createEntry('info', message, args, { component: component || logContextStorage.getStore()?.component || 'runner', jobName });
+  writeToLogFile(entry, 'JOB_EXECUTION');
   
   if (isCliMode) {
-    originalConsole.log(`🔧 [${jobName}] ${message}`, ...args);
+    consoleOutput.log(`🔧 [${jobName}] ${message}`, ...args);
+  } else if (consoleFormat === 'json') {
+    consoleOutput.log(JSON.stringify(entry));
   } else {
-    const timestamp = new Date().toISOString();
-    originalConsole.log(`[${timestamp}] [JOB] [${jobName}] ${message}`, ...args);
+    consoleOutput.log(`[${entry.time}] [JOB] [${jobName}] ${message}`, ...args);
   }
 }
 
+/**
+ * Logging functions that tag entries with a component
+ * Modules destructure it in place of the plain imports: `const { log, error } = createLogger('memory');`
+ */
+export function createLogger(component: LogComponent) {
+  return {
+    log: (message: string, ...args: any[]) => logWithLevel('info', consoleOutput.log, message, args, { component }),
+    error: (message: string, ...args: any[]) => logWithLevel('error', originalConsole.error, `${isCliMode ? 'Error: ' : ''}${message}`, args, { component }),
+    warn: (message: string, ...args: any[]) => logWithLevel('warn', originalConsole.warn, `${isCliMode ? 'Warning: ' : ''}${message}`, args, { component }),
+    debug: (message: string, ...args: any[]) => {
+      if (process.env.DEBUG === 'true') {
+        logWithLevel('debug', consoleOutput.debug, message, args, { component });
+      }
+    },
+    logEvent: (level: LogLevel, message: string, fields: Record<string, any>, context?: LogContext) => logEvent(level, message, fields, { component, ...context }),
+    logJobExecution: (jobName: string, message: string, ...args: any[]) => logJobExecutionAs(component, jobName, message, args)
+  };
+}
+
 // Utility functions for log management
 export function getLogDirectory(): string {
-  return LOG_DIR;
+  return getLogDir();
 }
 
 export function getTodayLogFilePath(): string {
@@ -146,19 +335,19 @@ export function getTodayLogFilePath(): string {
 export function cleanupOldLogs(daysToKeep: number = 30): void {
   try {
     ensureLogDirectory();
-    const files = fs.readdirSync(LOG_DIR);
+    const files = fs.readdirSync(getLogDir());
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
     
     files.forEach(file => {
-      if (file.endsWith('.log')) {
-        const datePart = file.replace('.log', '');
+      if (/^\d{4}-\d{2}-\d{2}\.(log|jsonl)$/.test(file)) {
+        const datePart = file.replace(/\.(log|jsonl)$/, '');
         const fileDate = new Date(datePart);
         
         if (fileDate < cutoffDate) {
-          const filePath = path.join(LOG_DIR, file);
+          const filePath = path.join(getLogDir(), file);
           fs.unlinkSync(filePath);
-          originalConsole.log(`Cleaned up old log file: ${file}`);
+          consoleOutput.log(`Cleaned up old log file: ${file}`);
         }
       }
     });
@@ -177,28 +366,28 @@ export function enableConsoleCapture(): void {
   
   // Intercept all console methods
   console.log = (...args: any[]) => {
-    writeToLogFile('CONSOLE_LOG', '', ...args);
-    originalConsole.log(...args);
+    writeToLogFile(createEntry('info', '', args, { component: 'console' }), 'CONSOLE_LOG');
+    consoleOutput.log(...args);
   };
   
   console.error = (...args: any[]) => {
-    writeToLogFile('CONSOLE_ERROR', '', ...args);
+    writeToLogFile(createEntry('error', '', args, { component: 'console' }), 'CONSOLE_ERROR');
     originalConsole.error(...args);
   };
   
   console.warn = (...args: any[]) => {
-    writeToLogFile('CONSOLE_WARN', '', ...args);
+    writeToLogFile(createEntry('warn', '', args, { component: 'console' }), 'CONSOLE_WARN');
     originalConsole.warn(...args);
   };
   
   console.debug = (...args: any[]) => {
-    writeToLogFile('CONSOLE_DEBUG', '', ...args);
-    originalConsole.debug(...args);
+    writeToLogFile(createEntry('debug', '', args, { component: 'console' }), 'CONSOLE_DEBUG');
+    consoleOutput.debug(...args);
   };
   
   console.info = (...args: any[]) => {
-    writeToLogFile('CONSOLE_INFO', '', ...args);
-    originalConsole.info(...args);
+    writeToLogFile(createEntry('info', '', args, { component: 'console' }), 'CONSOLE_INFO');
+    consoleOutput.info(...args);
   };
 }
 
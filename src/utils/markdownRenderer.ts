@@ -0,0 +1,165 @@
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Inline formatting: code spans, links, bold, italic and strikethrough
+ * The text is escaped first, so model output can never inject HTML.
+ */
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_match, code) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  html = html
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2" rel="noopener noreferrer">$1</a>')
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_match, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+    .replace(/(^|[^_\w])_([^_\s][^_]*)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~([^~]+)~~/g, '<del>$1</del>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_match, index) => codeSpans[parseInt(index, 10)]);
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Markdown Renderer
+ * Renders the markdown that jobs typically produce (headings, lists, code, tables, links)
+ * to HTML without external dependencies. Raw HTML in the input is shown as text.
+ */
+export class MarkdownRenderer {
+  static toHtml(markdown: string): string {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const html: string[] = [];
+    let paragraph: string[] = [];
+    const listStack: string[] = [];
+
+    const closeParagraph = () => {
+      if (paragraph.length > 0) {
+        html.push(`<p>${paragraph.map(renderInline).join('<br>\n')}</p>`);
+        paragraph = [];
+      }
+    };
+    const closeLists = (depth = 0) => {
+      while (listStack.length > depth) {
+        html.push(`</li></${listStack.pop()}>`);
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const fence = FENCE_PATTERN.exec(line);
+      if (fence) {
+        closeParagraph();
+        closeLists();
+        const code: string[] = [];
+        for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) {
+          code.push(lines[i]);
+        }
+        html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+        continue;
+      }
+
+      if (!line.trim()) {
+        closeParagraph();
+        closeLists();
+        continue;
+      }
+
+      const heading = HEADING_PATTERN.exec(line);
+      if (heading) {
+        closeParagraph();
+        closeLists();
+        html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+        continue;
+      }
+
+      if (RULE_PATTERN.test(line)) {
+        closeParagraph();
+        closeLists();
+        html.push('<hr>');
+        continue;
+      }
+
+      if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER_PATTERN.test(lines[i + 1])) {
+        closeParagraph();
+        closeLists();
+        const header = splitTableRow(line).map(cell => `<th>${renderInline(cell)}</th>`).join('');
+        const rows: string[] = [];
+        for (i += 2; i < lines.length && lines[i].includes('|') && lines[i].trim(); i++) {
+          rows.push(`<tr>${splitTableRow(lines[i]).map(cell => `<td>${renderInline(cell)}</td>`).join('')}</tr>`);
+        }
+        i--;
+        html.push(`<table><thead><tr>${header}</tr></thead><tbody>${rows.join('')}</tbody></table>`);
+        continue;
+      }
+
+      if (line.startsWith('>')) {
+        closeParagraph();
+        closeLists();
+        const quoted: string[] = [];
+        for (; i < lines.length && lines[i].startsWith('>'); i++) {
+          quoted.push(lines[i].replace(/^>\s?/, ''));
+        }
+        i--;
+        html.push(`<blockquote>${this.toHtml(quoted.join('\n'))}</blockquote>`);
+        continue;
+      }
+
+      const item = LIST_ITEM_PATTERN.exec(line);
+      if (item) {
+        closeParagraph();
+        const depth = Math.floor(item[1].replace(/\t/g, '  ').length / 2) + 1;
+        const tag = /\d/.test(item[2]) ? 'ol' : 'ul';
+        if (depth > listStack.length) {
+          while (listStack.length < depth) {
+            html.push(`<${tag}><li>`);
+            listStack.push(tag);
+          }
+        } else {
+          closeLists(depth);
+          if (listStack[depth - 1] !== tag) {
+            closeLists(depth - 1);
+            html.push(`<${tag}><li>`);
+            listStack.push(tag);
+          } else {
+            html.push('</li><li>');
+          }
+        }
+        html.push(renderInline(item[3]));
+        continue;
+      }
+
+      if (listStack.length > 0) {
+        // Lazy continuation of a list item
+        html.push(` ${renderInline(line.trim())}`);
+        continue;
+      }
+      paragraph.push(line.trim());
+    }
+
+    closeParagraph();
+    closeLists();
+    return html.join('\n');
+  }
+}
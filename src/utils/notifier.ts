@@ -0,0 +1,245 @@
+import * as http from 'http';
+import * as https from 'https';
+import { log, error, debug } from './logger';
+import { EnvConfigLoader } from './envConfigLoader';
+import { JobRunRecord } from './runHistory';
+
+/**
+ * Job events that can trigger a notification
+ */
+export type NotificationEvent = 'success' | 'failure' | 'timeout';
+
+/**
+ * Notification channel definition (config.json → notifications.channels)
+ */
+export interface NotificationChannelConfig {
+  type: 'opsgenie' | 'webhook' | 'slack';
+  url?: string; // Webhook / Slack incoming-webhook URL
+  baseUrl?: string; // Opsgenie API base URL, defaults to OPSGENIE_API_URL or https://api.opsgenie.com
+  apiKey?: string; // Opsgenie API key, defaults to OPSGENIE_API_KEY
+  priority?: 'P1' | 'P2' | 'P3' | 'P4' | 'P5'; // Opsgenie alert priority, defaults to P3
+  headers?: Record<string, string>; // Extra HTTP headers for webhook channels
+  retries?: number; // Retries after the first failed delivery, defaults to 2
+}
+
+/**
+ * Routing rule: which events of a job go to which channel
+ */
+export interface NotificationRule {
+  channel: string;
+  events: NotificationEvent[];
+}
+
+/**
+ * Global notification settings (config.json → notifications)
+ */
+export interface NotificationsConfig {
+  enabled?: boolean; // Defaults to GEMINI_NOTIFICATION_ENABLED
+  channels: Record<string, NotificationChannelConfig>;
+  defaultRules?: NotificationRule[]; // Used for jobs without their own notification rules
+}
+
+const NOTIFICATION_EVENTS: NotificationEvent[] = ['success', 'failure', 'timeout'];
+const DEFAULT_OPSGENIE_URL = 'https://api.opsgenie.com';
+const REQUEST_TIMEOUT_MS = 10_000;
+const RESULT_PREVIEW_LENGTH = 500;
+
+/**
+ * Send a JSON POST request, resolving on any 2xx response
+ */
+function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+    const payload = JSON.stringify(body);
+
+    const request = client.request(target, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(payload),
+        ...headers
+      },
+      timeout: REQUEST_TIMEOUT_MS
+    }, (response) => {
+      let responseBody = '';
+      response.on('data', (chunk) => { responseBody += chunk; });
+      response.on('end', () => {
+        const statusCode = response.statusCode || 0;
+        if (statusCode >= 200 && statusCode < 300) {
+          resolve();
+        } else {
+          reject(new Error(`HTTP ${statusCode}: ${responseBody.substring(0, 200)}`));
+        }
+      });
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`Request timed out after ${REQUEST_TIMEOUT_MS}ms`)));
+    request.on('error', reject);
+    request.end(payload);
+  });
+}
+
+/**
+ * Notifier
+ * Delivers job success / failure / timeout events to Opsgenie, generic webhooks and Slack
+ */
+export class Notifier {
+  private static pending = new Set<Promise<void>>();
+
+  /**
+   * Start notifying in the background, so slow or failing channels never hold up the run
+   * Use waitForPending() before the process exits.
+   */
+  static dispatchRun(record: JobRunRecord, jobRules: NotificationRule[] | undefined, config: NotificationsConfig | undefined, jobResult?: string): void {
+    const delivery = this.notifyRun(record, jobRules, config, jobResult)
+      .catch((err: any) => error(`Notifications for job ${record.jobName} failed:`, err.message))
+      .finally(() => this.pending.delete(delivery));
+    this.pending.add(delivery);
+  }
+
+  /**
+   * Wait until background notifications are delivered (or have given up)
+   */
+  static async waitForPending(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Notify all channels whose rules match the run's outcome, in parallel
+   * Delivery failures are retried and logged, but never thrown
+   */
+  static async notifyRun(record: JobRunRecord, jobRules: NotificationRule[] | undefined, config: NotificationsConfig | undefined, jobResult?: string): Promise<void> {
+    if (!config || !this.isEnabled(config)) {
+      return;
+    }
+
+    if (!NOTIFICATION_EVENTS.includes(record.status as NotificationEvent)) {
+      return;
+    }
+
+    const event = record.status as NotificationEvent;
+    const rules = jobRules || config.defaultRules || [];
+    const channelNames = rules
+      .filter(rule => rule.events.includes(event))
+      .map(rule => rule.channel);
+
+    await Promise.all(Array.from(new Set(channelNames)).map(async channelName => {
+      const channel = config.channels[channelName];
+      if (!channel) {
+        error(`Notification channel not configured: ${channelName}`);
+        return;
+      }
+      await this.deliverWithRetry(channelName, channel, event, record, jobResult);
+    }));
+  }
+
+  private static isEnabled(config: NotificationsConfig): boolean {
+    if (config.enabled !== undefined) {
+      return config.enabled;
+    }
+    try {
+      return EnvConfigLoader.loadEnvConfig().notificationEnabled;
+    } catch {
+      return false;
+    }
+  }
+
+  private static async deliverWithRetry(channelName: string, channel: NotificationChannelConfig, event: NotificationEvent, record: JobRunRecord, jobResult?: string): Promise<void> {
+    const maxAttempts = (channel.retries ?? 2) + 1;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await this.deliver(channel, event, record, jobResult);
+        log(`Sent ${event} notification for job ${record.jobName} to ${channelName}`);
+        return;
+      } catch (err: any) {
+        error(`Notification to ${channelName} failed (attempt ${attempt}/${maxAttempts}):`, err.message);
+        if (attempt < maxAttempts) {
+          await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+        }
+      }
+    }
+  }
+
+  private static async deliver(channel: NotificationChannelConfig, event: NotificationEvent, record: JobRunRecord, jobResult?: string): Promise<void> {
+    const summary = this.buildSummary(event, record);
+    const resultPreview = jobResult && jobResult.length > RESULT_PREVIEW_LENGTH
+      ? jobResult.substring(0, RESULT_PREVIEW_LENGTH) + '...'
+      : jobResult;
+
+    switch (channel.type) {
+      case 'opsgenie':
+        return this.sendOpsgenie(channel, event, record, summary);
+      case 'slack':
+        if (!channel.url) {
+          throw new Error('Slack channel requires a url');
+        }
+        debug(`Posting Slack notification to ${channel.url}`);
+        return postJson(channel.url, {
+          text: resultPreview ? `${summary}\n\`\`\`${resultPreview}\`\`\`` : summary
+        }, channel.headers);
+      case 'webhook':
+        if (!channel.url) {
+          throw new Error('Webhook channel requires a url');
+        }
+        debug(`Posting webhook notification to ${channel.url}`);
+        return postJson(channel.url, { event, summary, ...record, resultPreview }, channel.headers);
+      default:
+        throw new Error(`Unknown notification channel type: ${(channel as NotificationChannelConfig).type}`);
+    }
+  }
+
+  /**
+   * Open an alert on failure/timeout, close it again on success
+   */
+  private static async sendOpsgenie(channel: NotificationChannelConfig, event: NotificationEvent, record: JobRunRecord, summary: string): Promise<void> {
+    const envConfig = EnvConfigLoader.loadEnvConfig();
+    const apiKey = channel.apiKey || envConfig.opsgenieApiKey;
+    if (!apiKey) {
+      throw new Error('Opsgenie channel requires an apiKey or OPSGENIE_API_KEY');
+    }
+
+    const baseUrl = (channel.baseUrl || envConfig.opsgenieApiUrl || DEFAULT_OPSGENIE_URL).replace(/\/+$/, '');
+    const alias = `gjob-${record.jobName}`;
+    const headers = { Authorization: `GenieKey ${apiKey}` };
+
+    if (event === 'success') {
+      debug(`Closing Opsgenie alert ${alias}`);
+      return postJson(`${baseUrl}/v2/alerts/${encodeURIComponent(alias)}/close?identifierType=alias`, {
+        source: 'gemini-cli-job',
+        note: summary
+      }, headers);
+    }
+
+    debug(`Creating Opsgenie alert ${alias}`);
+    return postJson(`${baseUrl}/v2/alerts`, {
+      message: summary.substring(0, 130),
+      alias,
+      description: record.error || summary,
+      priority: channel.priority || 'P3',
+      source: 'gemini-cli-job',
+      tags: ['gemini-cli-job', event],
+      details: {
+        runId: record.runId,
+        trigger: record.trigger,
+        startTime: record.startTime,
+        durationMs: String(record.durationMs)
+      }
+    }, headers);
+  }
+
+  private static buildSummary(event: NotificationEvent, record: JobRunRecord): string {
+    const duration = `${(record.durationMs / 1000).toFixed(1)}s`;
+    switch (event) {
+      case 'success':
+        return `✅ Job ${record.jobName} succeeded in ${duration} (run ${record.runId})`;
+      case 'timeout':
+        return `⏱️ Job ${record.jobName} timed out after ${duration} (run ${record.runId})`;
+      default:
+        return `❌ Job ${record.jobName} failed after ${duration} (run ${record.runId}): ${(record.error || 'unknown error').split('\n')[0]}`;
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { spawn } from 'child_process';
+import { log, error, debug } from './logger';
+
+/**
+ * Output captured from a prompt process
+ */
+export interface ProcessOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Why a prompt process failed
+ * - timeout:   it did not finish within timeoutMs
+ * - cancelled: the caller aborted it
+ * - exit:      it exited with a non-zero code
+ * - spawn:     it could not be started
+ */
+export type ProcessFailureClass = 'timeout' | 'cancelled' | 'exit' | 'spawn';
+
+/**
+ * Error from a prompt process; callers classify failures by `failureClass`, never by the message,
+ * which can contain the process's stderr
+ */
+export class ProcessError extends Error {
+  constructor(message: string, readonly failureClass: ProcessFailureClass) {
+    super(message);
+    this.name = 'ProcessError';
+  }
+}
+
+/**
+ * Options for running a process that reads the prompt from stdin
+ */
+export interface PromptProcessOptions {
+  command: string;
+  args?: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  timeoutMs: number;
+  signal?: AbortSignal; // Kills the process tree when aborted
+  label: string; // Human-readable name used in logs and error messages, e.g. "Gemini CLI"
+  spawnErrorHint?: (err: Error) => string | undefined; // Extra help appended to spawn errors
+}
+
+/**
+ * Spawn a process, write the prompt to its stdin and collect its output
+ * Rejects with a ProcessError on non-zero exit, spawn errors, timeout or cancellation
+ */
+export function runPromptProcess(prompt: string, options: PromptProcessOptions): Promise<ProcessOutput> {
+  const { label, timeoutMs, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProcessError(`${label} execution cancelled`, 'cancelled'));
+      return;
+    }
+
+    const childProcess = spawn(options.command, options.args || [], {
+      stdio: 'pipe',
+      shell: process.platform === 'win32',
+      cwd: options.cwd,
+      env: options.env || process.env,
+      detached: process.platform !== 'win32'
+    });
+
+    let settled = false;
+    let timeout: NodeJS.Timeout | undefined;
+    let forceKillTimeout: NodeJS.Timeout | undefined;
+
+    const clearTimers = () => {
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = undefined;
+      }
+      if (forceKillTimeout) {
+        clearTimeout(forceKillTimeout);
+        forceKillTimeout = undefined;
+      }
+    };
+
+    const cleanup = () => {
+      clearTimers();
+      signal?.removeEventListener('abort', onAbort);
+      childProcess.stdout?.removeAllListeners();
+      childProcess.stderr?.removeAllListeners();
+      childProcess.removeAllListeners();
+      childProcess.stdin?.destroy();
+    };
+
+    const killProcessTree = (killSignal: NodeJS.Signals) => {
+      if (!childProcess.pid) {
+        return;
+      }
+
+      try {
+        if (process.platform !== 'win32') {
+          process.kill(-childProcess.pid, killSignal);
+        } else {
+          childProcess.kill(killSignal);
+        }
+      } catch (killError) {
+        debug(`Failed to send ${killSignal} to ${label} process: ${String(killError)}`);
+      }
+    };
+
+    // Allow the caller (e.g. the scheduler) to cancel the run
+    const onAbort = () => {
+      debug(`${label} execution cancelled, killing process`);
+      killProcessTree('SIGTERM');
+
+      if (!settled) {
+        settled = true;
+        cleanup();
+        reject(new ProcessError(`${label} execution cancelled`, 'cancelled'));
+      }
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    // Add timeout to prevent hanging
+    timeout = setTimeout(() => {
+      debug(`${label} timeout after ${timeoutMs}ms, killing process`);
+      killProcessTree('SIGTERM');
+
+      forceKillTimeout = setTimeout(() => {
+        debug(`${label} still running after SIGTERM, sending SIGKILL`);
+        killProcessTree('SIGKILL');
+      }, 5_000);
+
+      if (!settled) {
+        settled = true;
+        cleanup();
+        reject(new ProcessError(`${label} execution timed out after ${timeoutMs}ms`, 'timeout'));
+      }
+    }, timeoutMs);
+
+    let stdout = '';
+    let stderr = '';
+
+    childProcess.stdout?.on('data', (data: Buffer) => {
+      const chunk = data.toString();
+      debug(`[STDOUT] ${chunk.substring(0, 200)}${chunk.length > 200 ? '...' : ''}`);
+      stdout += chunk;
+    });
+
+    childProcess.stderr?.on('data', (data: Buffer) => {
+      const chunk = data.toString();
+      debug(`[STDERR] ${chunk.substring(0, 200)}${chunk.length > 200 ? '...' : ''}`);
+      stderr += chunk;
+    });
+
+    childProcess.on('close', (code: number | null) => {
+      // Best-effort cleanup of any lingering child processes.
+      killProcessTree('SIGTERM');
+      cleanup();
+      debug(`${label} process closed with code: ${code}`);
+
+      // Debug: Log the raw response
+      debug(`=== RAW ${label.toUpperCase()} RESPONSE ===`);
+      debug(`STDOUT (${stdout.length} chars):`);
+      debug(stdout);
+      debug(`STDERR (${stderr.length} chars):`);
+      debug(stderr);
+      debug('=== END RAW RESPONSE ===');
+
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+
+      if (code === 0) {
+        log(`✅ ${label} execution completed successfully`);
+        resolve({ stdout: stdout.trim(), stderr: stderr.trim() });
+      } else {
+        const errorMessage = `${label} failed with exit code ${code}: ${stderr}`;
+        error(errorMessage);
+        reject(new ProcessError(errorMessage, 'exit'));
+      }
+    });
+
+    childProcess.on('error', (err: Error) => {
+      cleanup();
+      let errorMessage = `Failed to execute ${label}: ${err.message}`;
+
+      const hint = options.spawnErrorHint?.(err);
+      if (hint) {
+        errorMessage += `\n\n${hint}`;
+      }
+
+      error(errorMessage);
+      if (!settled) {
+        settled = true;
+        reject(new ProcessError(errorMessage, 'spawn'));
+      }
+    });
+
+    debug(`${label} process started, waiting for response...`);
+
+    // Send the prompt to stdin; commands that exit without reading it close the pipe early
+    debug(`Sending prompt (${prompt.length} characters)...`);
+    childProcess.stdin?.on('error', (err: NodeJS.ErrnoException) => {
+      if (err.code !== 'EPIPE') {
+        error(`${label} stdin error: ${err.message}`);
+      }
+    });
+    childProcess.stdin?.write(prompt);
+    childProcess.stdin?.end();
+  });
+}
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PromptTemplate, TemplateContext, formatDate } from './promptTemplate';
+
+const NOW = new Date(2026, 2, 5, 9, 7, 3, 45);
+
+const CONTEXT: TemplateContext = {
+  jobName: 'weekly',
+  runId: 'run-1',
+  now: NOW,
+  memory: { count: 3, tags: [], last: '2026-03-01T10:00:00Z', nested: { name: 'Ada' }, empty: '' },
+  env: { TEAM: 'platform' },
+  vars: { enabled: true, owner: 'ops' }
+};
+
+function render(template: string, escape?: (value: string) => string): string {
+  return PromptTemplate.render(template, CONTEXT, 'test.md', escape);
+}
+
+describe('PromptTemplate', () => {
+  describe('values', () => {
+    it('renders built-ins, memory, env and vars', () => {
+      assert.equal(render('{{jobName}} {{runId}} {{date}} {{time}} {{timestamp}}'), `weekly run-1 2026-03-05 09:07:03 ${NOW.getTime()}`);
+      assert.equal(render('{{memory.count}} {{memory.nested.name}} {{env.TEAM}} {{vars.owner}}'), '3 Ada platform ops');
+      assert.equal(render('{{ now }}'), NOW.toISOString());
+    });
+
+    it('renders objects as JSON', () => {
+      assert.equal(render('{{memory.nested}}'), '{"name":"Ada"}');
+    });
+
+    it('applies filters in order', () => {
+      assert.equal(render('{{memory.last | date:"YYYY-MM-DD"}}'), formatDate(new Date('2026-03-01T10:00:00Z'), 'YYYY-MM-DD'));
+      assert.equal(render('{{now | date:"ddd DD MMM YY HH:mm:ss.SSS"}}'), 'Thu 05 Mar 26 09:07:03.045');
+      assert.equal(render('{{env.TEAM | upper}} {{vars.owner | upper | lower}}'), 'PLATFORM ops');
+      assert.equal(render('{{memory.nested.name | json}}'), '"Ada"');
+      assert.equal(render('{{memory.missing | date:"YYYY" | default:"never"}}'), 'never');
+      assert.equal(render('{{memory.empty | default:"none"}}'), 'none');
+      assert.equal(render('{{memory.missing | default:"say \\"hi\\""}}'), 'say "hi"');
+    });
+
+    it('applies escape to values but not to the template text', () => {
+      assert.equal(render(`echo '{{vars.owner}}'`, value => `<${value}>`), `echo '<ops>'`);
+    });
+
+    it('renders \\{{ as a literal {{', () => {
+      assert.equal(render('\\{{jobName}} {{jobName}}'), '{{jobName}} weekly');
+    });
+  });
+
+  describe('conditionals', () => {
+    it('renders #if and #unless with else', () => {
+      assert.equal(render('{{#if vars.enabled}}on{{else}}off{{/if}}'), 'on');
+      assert.equal(render('{{#if memory.missing}}on{{else}}off{{/if}}'), 'off');
+      assert.equal(render('{{#unless env.CI}}local{{/unless}}'), 'local');
+      assert.equal(render('{{#if memory.tags}}tags{{else}}no tags{{/if}}'), 'no tags');
+    });
+
+    it('nests blocks', () => {
+      const template = '{{#if vars.enabled}}A{{#unless memory.count}}B{{else}}C{{#if memory.nested.name}}{{memory.nested.name}}{{/if}}{{/unless}}{{/if}}';
+      assert.equal(render(template), 'ACAda');
+    });
+  });
+
+  describe('errors', () => {
+    it('rejects undefined values with the source and line', () => {
+      assert.throws(() => render('first\n{{memory.missing}}'), {
+        message: 'Template error in test.md (line 2): undefined variable "memory.missing" (add | default:"..." to allow it to be missing)'
+      });
+      assert.throws(() => render('{{env.HOME}}'), /undefined variable "env.HOME"/);
+      assert.throws(() => render('{{jobName.length}}'), /undefined variable "jobName.length"/);
+    });
+
+    it('rejects invalid dates', () => {
+      assert.throws(() => render('{{vars.owner | date}}'), /"vars.owner" is not a valid date \("ops"\)/);
+    });
+
+    it('reports syntax errors without rendering', () => {
+      assert.throws(() => PromptTemplate.validate('{{#if vars.a}}x', 'a.md'), /a\.md \(line 1\): unclosed \{\{#if vars.a\}\}/);
+      assert.throws(() => PromptTemplate.validate('{{#if vars.a}}x{{/unless}}'), /unexpected \{\{\/unless\}\}/);
+      assert.throws(() => PromptTemplate.validate('{{else}}'), /unexpected \{\{else\}\}/);
+      assert.throws(() => PromptTemplate.validate('{{#if vars.a}}{{else}}{{else}}{{/if}}'), /unexpected \{\{else\}\}/);
+      assert.throws(() => PromptTemplate.validate('\n\n{{ foo bar }}'), /line 3\): invalid variable name "foo bar"/);
+      assert.throws(() => PromptTemplate.validate('{{vars.a | trim}}'), /unknown filter "trim" \(available: date, default, upper, lower, json\)/);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Prompt Template
+ * Interpolates {{...}} expressions in context files and custom prompts.
+ *
+ * Syntax:
+ *   {{jobName}} {{runId}} {{now}} {{date}} {{time}} {{timestamp}}   built-ins
+ *   {{memory.key}} {{env.NAME}} {{vars.name}}                       memory, environment, job variables
+ *   {{now | date:"YYYY-MM-DD HH:mm"}} {{memory.x | default:"never"}} filters: date, default, upper, lower, json
+ *   {{#if memory.x}}...{{else}}...{{/if}} {{#unless env.X}}...{{/unless}}
+ *   \{{ renders a literal "{{"
+ *
+ * Undefined values are an error unless a `default` filter is given; inside #if/#unless
+ * they simply count as false.
+ */
+
+/**
+ * Values available to a template
+ */
+export interface TemplateContext {
+  jobName: string;
+  runId: string;
+  now: Date;
+  memory: Record<string, any>;
+  env: Record<string, string | undefined>;
+  vars: Record<string, any>;
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; expression: string; line: number }
+  | { kind: 'if'; expression: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; line: number };
+
+interface Filter {
+  name: string;
+  arg?: string;
+}
+
+const TAG_PATTERN = /\\\{\{|\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_][\w-]*(\.[\w-]+)*$/;
+const FILTERS = ['date', 'default', 'upper', 'lower', 'json'];
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Format a date (local time) with YYYY, YY, MMM, MM, DD, ddd, HH, mm, ss and SSS tokens, or "iso"
+ */
+export function formatDate(date: Date, format: string): string {
+  if (format === 'iso') {
+    return date.toISOString();
+  }
+  return format.replace(/YYYY|YY|MMM|MM|DD|ddd|HH|mm|ss|SSS/g, token => {
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return pad(date.getFullYear() % 100);
+      case 'MMM': return MONTH_NAMES[date.getMonth()];
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'ddd': return DAY_NAMES[date.getDay()];
+      case 'HH': return pad(date.getHours());
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      default: return pad(date.getMilliseconds(), 3);
+    }
+  });
+}
+
+export class PromptTemplate {
+  /**
+   * Render a template, throwing on syntax errors and undefined values
+   * `source` names the file or setting in error messages; `escape` is applied to every
+   * interpolated value (not to the template text), e.g. to quote values for a shell.
+   */
+  static render(template: string, context: TemplateContext, source = 'template', escape?: (value: string) => string): string {
+    const nodes = this.parse(template, source);
+    return this.renderNodes(nodes, context, source, escape);
+  }
+
+  /**
+   * Check template syntax without rendering
+   */
+  static validate(template: string, source = 'template'): void {
+    this.parse(template, source);
+  }
+
+  private static parse(template: string, source: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Stack of open blocks; `target` is the list new nodes are appended to
+    const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' }>; target: TemplateNode[]; sawElse: boolean }> = [];
+    let target = root;
+    let lastIndex = 0;
+    const lineAt = (offset: number) => template.slice(0, offset).split('\n').length;
+    const fail = (message: string, offset: number): never => {
+      throw new Error(`Template error in ${source} (line ${lineAt(offset)}): ${message}`);
+    };
+
+    for (const match of template.matchAll(TAG_PATTERN)) {
+      const offset = match.index!;
+      if (offset > lastIndex) {
+        target.push({ kind: 'text', text: template.slice(lastIndex, offset) });
+      }
+      lastIndex = offset + match[0].length;
+
+      if (match[0] === '\\{{') {
+        target.push({ kind: 'text', text: '{{' });
+        continue;
+      }
+
+      const tag = match[1];
+      const line = lineAt(offset);
+      const block = /^#(if|unless)\s+(.+)$/.exec(tag);
+
+      if (block) {
+        this.parseExpression(block[2], source, line);
+        const node: Extract<TemplateNode, { kind: 'if' }> = {
+          kind: 'if',
+          expression: block[2],
+          negate: block[1] === 'unless',
+          then: [],
+          otherwise: [],
+          line
+        };
+        target.push(node);
+        stack.push({ node, target, sawElse: false });
+        target = node.then;
+      } else if (tag === 'else') {
+        const open = stack[stack.length - 1];
+        if (!open || open.sawElse) {
+          fail('unexpected {{else}}', offset);
+        }
+        open.sawElse = true;
+        target = open.node.otherwise;
+      } else if (/^\/(if|unless)$/.test(tag)) {
+        const open = stack.pop();
+        const expected = open?.node.negate ? '/unless' : '/if';
+        if (!open || tag !== expected) {
+          fail(`unexpected {{${tag}}}`, offset);
+        }
+        target = open!.target;
+      } else {
+        this.parseExpression(tag, source, line);
+        target.push({ kind: 'value', expression: tag, line });
+      }
+    }
+
+    if (stack.length > 0) {
+      const open = stack[stack.length - 1].node;
+      throw new Error(`Template error in ${source} (line ${open.line}): unclosed {{#${open.negate ? 'unless' : 'if'} ${open.expression}}}`);
+    }
+
+    if (lastIndex < template.length) {
+      target.push({ kind: 'text', text: template.slice(lastIndex) });
+    }
+    return root;
+  }
+
+  private static parseExpression(expression: string, source: string, line: number): { path: string; filters: Filter[] } {
+    const [pathPart, ...filterParts] = expression.split('|').map(part => part.trim());
+    const fail = (message: string): never => {
+      throw new Error(`Template error in ${source} (line ${line}): ${message} in {{${expression}}}`);
+    };
+
+    if (!PATH_PATTERN.test(pathPart)) {
+      fail(`invalid variable name "${pathPart}"`);
+    }
+
+    const filters = filterParts.map(part => {
+      const filterMatch = /^(\w+)(?::\s*"((?:[^"\\]|\\.)*)")?$/.exec(part);
+      if (!filterMatch || !FILTERS.includes(filterMatch[1])) {
+        return fail(`unknown filter "${part}" (available: ${FILTERS.join(', ')})`);
+      }
+      return { name: filterMatch[1], arg: filterMatch[2]?.replace(/\\(.)/g, '$1') };
+    });
+
+    return { path: pathPart, filters };
+  }
+
+  private static renderNodes(nodes: TemplateNode[], context: TemplateContext, source: string, escape?: (value: string) => string): string {
+    return nodes.map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+        case 'if': {
+          const { path } = this.parseExpression(node.expression, source, node.line);
+          const value = this.lookup(path, context);
+          const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+          return this.renderNodes(truthy !== node.negate ? node.then : node.otherwise, context, source, escape);
+        }
+        case 'value': {
+          const value = this.renderValue(node.expression, node.line, context, source);
+          return escape ? escape(value) : value;
+        }
+      }
+    }).join('');
+  }
+
+  private static renderValue(expression: string, line: number, context: TemplateContext, source: string): string {
+    const { path, filters } = this.parseExpression(expression, source, line);
+    let value = this.lookup(path, context);
+
+    for (const filter of filters) {
+      if (filter.name === 'default') {
+        if (value === undefined || value === null || value === '') {
+          value = filter.arg ?? '';
+        }
+        continue;
+      }
+      if (value === undefined || value === null) {
+        continue; // Leave missing values for a later default filter
+      }
+      switch (filter.name) {
+        case 'date': {
+          const date = value instanceof Date ? value : new Date(value);
+          if (isNaN(date.getTime())) {
+            throw new Error(`Template error in ${source} (line ${line}): "${path}" is not a valid date (${JSON.stringify(value)})`);
+          }
+          value = formatDate(date, filter.arg || DEFAULT_DATE_FORMAT);
+          break;
+        }
+        case 'upper':
+          value = this.stringify(value).toUpperCase();
+          break;
+        case 'lower':
+          value = this.stringify(value).toLowerCase();
+          break;
+        case 'json':
+          value = JSON.stringify(value instanceof Date ? value.toISOString() : value);
+          break;
+      }
+    }
+
+    if (value === undefined || value === null) {
+      throw new Error(`Template error in ${source} (line ${line}): undefined variable "${path}" (add | default:"..." to allow it to be missing)`);
+    }
+    return this.stringify(value);
+  }
+
+  private static lookup(path: string, context: TemplateContext): any {
+    const [head, ...rest] = path.split('.');
+    let value: any;
+
+    switch (head) {
+      case 'memory':
+        value = context.memory;
+        break;
+      case 'env':
+        value = context.env;
+        break;
+      case 'vars':
+        value = context.vars;
+        break;
+      case 'jobName':
+        return rest.length === 0 ? context.jobName : undefined;
+      case 'runId':
+        return rest.length === 0 ? context.runId : undefined;
+      case 'now':
+        return rest.length === 0 ? context.now : undefined;
+      case 'date':
+        return rest.length === 0 ? formatDate(context.now, 'YYYY-MM-DD') : undefined;
+      case 'time':
+        return rest.length === 0 ? formatDate(context.now, 'HH:mm:ss') : undefined;
+      case 'timestamp':
+        return rest.length === 0 ? context.now.getTime() : undefined;
+      default:
+        return undefined;
+    }
+
+    if (rest.length === 0) {
+      return undefined;
+    }
+    for (const key of rest) {
+      if (value === undefined || value === null || typeof value !== 'object') {
+        return undefined;
+      }
+      value = Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+    }
+    return value;
+  }
+
+  private static stringify(value: any): string {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ResponseParser } from './responseParser';
+
+describe('ResponseParser', () => {
+  it('parses output that is only the JSON object', () => {
+    const result = ResponseParser.parse('{"jobResult": "done", "jobMemory": {"count": 2}}');
+    assert.deepEqual(result.value, { jobResult: 'done', jobMemory: { count: 2 } });
+    assert.equal(result.candidates, 1);
+  });
+
+  it('does not accept a whole-output object without jobResult', () => {
+    const result = ResponseParser.parse('{"summary": "done"}');
+    assert.equal(result.value, null);
+    assert.match(result.failureReason!, /none has a jobResult field/);
+  });
+
+  it('keeps braces and quotes inside strings', () => {
+    const output = 'Here you go: {"jobResult": "use {{name}} and \\"}\\" in templates", "jobMemory": {"last": "}{"}}';
+    const result = ResponseParser.parse(output);
+    assert.deepEqual(result.value, { jobResult: 'use {{name}} and "}" in templates', jobMemory: { last: '}{' } });
+  });
+
+  it('skips leading prose and CLI noise', () => {
+    const output = [
+      'Loaded cached credentials.',
+      'I reviewed the commits from the last week. Note: the {release} label was missing on two PRs.',
+      '',
+      '{"jobResult": "## Release notes\\n- Fixed login", "jobMemory": {"lastTag": "v1.4.0"}}'
+    ].join('\n');
+    const result = ResponseParser.parse(output);
+    assert.equal(result.value.jobResult, '## Release notes\n- Fixed login');
+    assert.deepEqual(result.value.jobMemory, { lastTag: 'v1.4.0' });
+  });
+
+  it('extracts a fenced json block surrounded by markdown', () => {
+    const output = [
+      'Sure! Here is the weekly summary:',
+      '',
+      '```json',
+      '{',
+      '  "jobResult": {"highlights": ["A", "B"]},',
+      '  "jobMemory": {"week": 12}',
+      '}',
+      '```',
+      '',
+      'Let me know if you need anything else.'
+    ].join('\n');
+    const result = ResponseParser.parse(output);
+    assert.deepEqual(result.value, { jobResult: { highlights: ['A', 'B'] }, jobMemory: { week: 12 } });
+    assert.equal(result.fenced, true);
+  });
+
+  it('prefers the object with jobResult over other JSON in the output', () => {
+    const output = [
+      'The config I looked at was {"model": "gemini-2.5-pro", "timeout": 300}.',
+      'An example response looks like {"jobResult": ""}.',
+      '```json',
+      '{"jobResult": "real answer", "jobMemory": {}}',
+      '```'
+    ].join('\n');
+    const result = ResponseParser.parse(output);
+    assert.equal(result.value.jobResult, 'real answer');
+    assert.equal(result.candidates, 3);
+  });
+
+  it('prefers the later of two equally good answers', () => {
+    const output = 'Draft: {"jobResult": "first"}\nFinal: {"jobResult": "second"}';
+    assert.equal(ResponseParser.parse(output).value.jobResult, 'second');
+  });
+
+  it('repairs trailing commas', () => {
+    const result = ResponseParser.parse('```json\n{"jobResult": ["a", "b",], "jobMemory": {"x": 1,},}\n```');
+    assert.deepEqual(result.value, { jobResult: ['a', 'b'], jobMemory: { x: 1 } });
+    assert.equal(result.repaired, true);
+  });
+
+  it('reports truncated output', () => {
+    const result = ResponseParser.parse('Working on it...\n{"jobResult": "The report covers three areas: {perf');
+    assert.equal(result.value, null);
+    assert.match(result.failureReason!, /unterminated JSON object starting at line 2/);
+  });
+
+  it('finds a complete answer after a truncated one', () => {
+    const result = ResponseParser.parse('{"jobResult": "cut off\n\nRetrying:\n{"jobResult": "complete"}');
+    assert.equal(result.value.jobResult, 'complete');
+  });
+
+  it('reports invalid JSON in the response object', () => {
+    const result = ResponseParser.parse("{\"jobResult\": 'single quoted'}");
+    assert.equal(result.value, null);
+    assert.match(result.failureReason!, /invalid JSON in object starting at line 1/);
+  });
+
+  it('reports output without JSON', () => {
+    assert.equal(ResponseParser.parse('I could not complete the task.').failureReason, 'no JSON object found in the output');
+    assert.equal(ResponseParser.parse('   ').failureReason, 'empty output');
+  });
+
+  it('scans long unbalanced output in linear time', () => {
+    const output = '{'.repeat(50_000) + '{"jobResult": "ok"}';
+    const started = Date.now();
+    const result = ResponseParser.parse(output);
+    assert.equal(result.value.jobResult, 'ok');
+    assert.ok(Date.now() - started < 2000, `took ${Date.now() - started}ms`);
+  });
+});
@@ -0,0 +1,228 @@
+import { debug } from './logger';
+
+/**
+ * Outcome of extracting the JSON response from raw model output
+ */
+export interface ResponseParseResult {
+  value: any | null; // Best JSON object found, null when none could be used
+  failureReason?: string; // Why no usable object was found
+  candidates: number; // Number of JSON objects found in the output
+  fenced?: boolean; // The chosen object came from a ```json fenced block
+  repaired?: boolean; // The chosen object needed trailing commas removed
+}
+
+interface Candidate {
+  value: any;
+  start: number;
+  end: number;
+  fenced: boolean;
+  repaired: boolean;
+}
+
+const MAX_SCAN_LENGTH = 2_000_000;
+const FENCE_PATTERN = /```[ \t]*(?:json5?|jsonc)?[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*```/gi;
+
+function lineOf(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Find the end of the balanced JSON object starting at `start` (a "{"), honouring strings and escapes
+ * The end of every object opened inside it is recorded in `ends` as well (-1 when it is never
+ * closed or closed by "]"), so unbalanced output is scanned once instead of once per "{".
+ */
+function findObjectEnds(text: string, start: number, ends: Map<number, number>): void {
+  const open: Array<{ offset: number; char: string }> = [];
+  const record = (offset: number, end: number) => {
+    if (!ends.has(offset)) {
+      ends.set(offset, end);
+    }
+  };
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      open.push({ offset: i, char });
+    } else if (char === '}' || char === ']') {
+      const opened = open.pop()!;
+      if (opened.char === '{') {
+        record(opened.offset, char === '}' ? i : -1);
+      }
+      if (open.length === 0) {
+        return;
+      }
+    }
+  }
+  // Never closed: the output was truncated or a brace is missing
+  open.filter(opened => opened.char === '{').forEach(opened => record(opened.offset, -1));
+}
+
+/**
+ * Remove trailing commas before } or ], outside strings
+ */
+function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(json.slice(i + 1))) {
+      continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Rank candidates: a jobResult field matters most, then the expected shape, a fenced block,
+ * no repairs needed, size, and finally position (later wins, since models tend to echo
+ * examples before answering)
+ */
+function score(candidate: Candidate): number[] {
+  const value = candidate.value;
+  const hasJobResult = value.jobResult !== undefined && value.jobResult !== null && value.jobResult !== '';
+  const expectedKeysOnly = Object.keys(value).every(key => key === 'jobResult' || key === 'jobMemory');
+  return [
+    hasJobResult ? 1 : 0,
+    expectedKeysOnly ? 1 : 0,
+    candidate.fenced ? 1 : 0,
+    candidate.repaired ? 0 : 1,
+    candidate.end - candidate.start,
+    candidate.start
+  ];
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Response Parser
+ * Extracts the {"jobResult": ..., "jobMemory": ...} object from model output that may also contain
+ * logs, prose, markdown fences or several JSON snippets
+ */
+export class ResponseParser {
+  /**
+   * Parse model output, returning the best candidate object or the reason none was usable
+   */
+  static parse(output: string): ResponseParseResult {
+    const text = output.replace(/^\uFEFF/, '').trim();
+    if (!text) {
+      return { value: null, candidates: 0, failureReason: 'empty output' };
+    }
+
+    // Fast path: the whole output is the JSON object
+    try {
+      const whole = JSON.parse(text);
+      if (isPlainObject(whole) && whole.jobResult !== undefined) {
+        debug('Parsed entire output as JSON');
+        return { value: whole, candidates: 1 };
+      }
+    } catch {
+      // Fall through to scanning
+    }
+
+    const scanText = text.length > MAX_SCAN_LENGTH ? text.slice(0, MAX_SCAN_LENGTH) : text;
+    const fences = Array.from(scanText.matchAll(FENCE_PATTERN)).map(match => {
+      const contentStart = match.index! + match[0].indexOf(match[1]);
+      return { start: contentStart, end: contentStart + match[1].length };
+    });
+
+    const candidates: Candidate[] = [];
+    const ends = new Map<number, number>();
+    const lastJobResult = scanText.lastIndexOf('"jobResult"');
+    let failureReason: string | undefined;
+    let failureOffset = -1;
+
+    for (let start = scanText.indexOf('{'); start !== -1; start = scanText.indexOf('{', start + 1)) {
+      if (!ends.has(start)) {
+        findObjectEnds(scanText, start, ends);
+      }
+      const end = ends.get(start)!;
+
+      if (end === -1) {
+        if (lastJobResult > start && failureOffset === -1) {
+          failureOffset = start;
+          failureReason = `unterminated JSON object starting at line ${lineOf(scanText, start)} (output truncated or missing closing brace?)`;
+        }
+        continue;
+      }
+
+      const slice = scanText.slice(start, end + 1);
+      const mentionsJobResult = slice.includes('"jobResult"');
+      let value: any;
+      let repaired = false;
+      try {
+        value = JSON.parse(slice);
+      } catch (parseError: any) {
+        try {
+          value = JSON.parse(removeTrailingCommas(slice));
+          repaired = true;
+        } catch {
+          if (mentionsJobResult && failureOffset === -1) {
+            failureOffset = start;
+            failureReason = `invalid JSON in object starting at line ${lineOf(scanText, start)}: ${parseError.message}`;
+          }
+          continue;
+        }
+      }
+
+      if (isPlainObject(value)) {
+        const fenced = fences.some(fence => start >= fence.start && end < fence.end);
+        candidates.push({ value, start, end, fenced, repaired });
+        // Nested objects are part of this candidate, so continue after it
+        start = end;
+      }
+    }
+
+    const usable = candidates.filter(candidate => candidate.value.jobResult !== undefined);
+    if (usable.length === 0) {
+      if (!failureReason) {
+        failureReason = candidates.length > 0
+          ? `found ${candidates.length} JSON object(s) but none has a jobResult field`
+          : 'no JSON object found in the output';
+      }
+      debug(`No usable JSON response: ${failureReason}`);
+      return { value: null, candidates: candidates.length, failureReason };
+    }
+
+    const best = usable.reduce((a, b) => (compareScores(score(b), score(a)) >= 0 ? b : a));
+    debug(`Selected JSON object at line ${lineOf(scanText, best.start)} of ${candidates.length} candidate(s)${best.fenced ? ' (fenced)' : ''}${best.repaired ? ' (repaired)' : ''}`);
+    return { value: best.value, candidates: candidates.length, fenced: best.fenced, repaired: best.repaired };
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { classifyExecutionError, resolveRetryPolicy, computeRetryDelay } from './retryPolicy';
+import { ProcessError, runPromptProcess } from './processRunner';
+
+describe('classifyExecutionError', () => {
+  it('maps process failure classes to retry classes', () => {
+    assert.equal(classifyExecutionError(new ProcessError('Gemini CLI execution timed out after 10ms', 'timeout')), 'timeout');
+    assert.equal(classifyExecutionError(new ProcessError('Gemini CLI failed with exit code 1: ', 'exit')), 'exit_code');
+    assert.equal(classifyExecutionError(new ProcessError('Failed to execute Gemini CLI: ENOENT', 'spawn')), 'spawn_error');
+    assert.equal(classifyExecutionError(new ProcessError('Gemini CLI execution cancelled', 'cancelled')), undefined);
+  });
+
+  it('ignores the wording of the message', () => {
+    assert.equal(classifyExecutionError(new ProcessError('Gemini CLI failed with exit code 1: request cancelled, timed out', 'exit')), 'exit_code');
+    assert.equal(classifyExecutionError(new Error('Memory lock for job x timed out')), undefined);
+  });
+
+  it('classifies a process that exits with an error mentioning a timeout by its exit code', async () => {
+    const script = 'process.stderr.write("upstream request timed out"); process.exit(3)';
+    await assert.rejects(
+      runPromptProcess('', { command: process.execPath, args: ['-e', script], timeoutMs: 10_000, label: 'Test process' }),
+      (err: Error) => {
+        assert.ok(err instanceof ProcessError);
+        assert.match(err.message, /timed out/);
+        assert.equal(classifyExecutionError(err), 'exit_code');
+        return true;
+      }
+    );
+  });
+
+  it('classifies a process that runs too long as a timeout', async () => {
+    const script = 'setTimeout(() => {}, 10_000)';
+    await assert.rejects(
+      runPromptProcess('', { command: process.execPath, args: ['-e', script], timeoutMs: 200, label: 'Test process' }),
+      (err: Error) => classifyExecutionError(err) === 'timeout'
+    );
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('lets the job policy override the global one', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 3, retryOn: ['timeout'] }, { maxAttempts: 0 });
+    assert.equal(policy.maxAttempts, 1);
+    assert.deepEqual(policy.retryOn, ['timeout']);
+  });
+
+  it('backs off exponentially up to maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 1000, maxDelayMs: 3000, jitter: 0 });
+    assert.deepEqual([1, 2, 3].map(attempt => computeRetryDelay(policy, attempt)), [1000, 2000, 3000]);
+  });
+});
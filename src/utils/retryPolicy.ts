@@ -0,0 +1,110 @@
+import { ProcessError } from './processRunner';
+
+/**
+ * Retry policy for failed Gemini executions
+ */
+
+/**
+ * Classes of failures that can be retried
+ * - timeout:      the Gemini CLI did not finish within timeoutMs
+ * - empty_output: the Gemini CLI exited successfully but printed nothing
+ * - exit_code:    the Gemini CLI exited with a non-zero code
+ * - spawn_error:  the Gemini CLI could not be started
+ * - parse_error:  the output did not contain a valid JSON response
+ * - schema_error: the jobResult did not match the job's resultSchema (recorded only; handled by
+ *                 re-prompting with resultSchemaRetries rather than retryOn)
+ */
+export type RetryFailureClass = 'timeout' | 'empty_output' | 'exit_code' | 'spawn_error' | 'parse_error' | 'schema_error';
+
+/**
+ * Retry configuration (config.json → retry, or per job)
+ */
+export interface RetryPolicy {
+  maxAttempts?: number; // Total attempts including the first one, defaults to 1 (no retry)
+  initialDelayMs?: number; // Delay before the first retry, defaults to 5000
+  maxDelayMs?: number; // Upper bound for a single delay, defaults to 300000
+  backoffMultiplier?: number; // Delay growth per attempt, defaults to 2
+  jitter?: number; // Random +/- fraction applied to each delay (0-1), defaults to 0.2
+  retryOn?: RetryFailureClass[]; // Defaults to ["timeout", "empty_output", "exit_code"]
+}
+
+/**
+ * Outcome of a single execution attempt
+ */
+export interface RetryAttempt {
+  attempt: number;
+  startTime: string;
+  durationMs: number;
+  failureClass?: RetryFailureClass;
+  error?: string;
+}
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 1,
+  initialDelayMs: 5_000,
+  maxDelayMs: 300_000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  retryOn: ['timeout', 'empty_output', 'exit_code']
+};
+
+/**
+ * Merge the global and job retry policies over the defaults (job wins)
+ */
+export function resolveRetryPolicy(globalPolicy?: RetryPolicy, jobPolicy?: RetryPolicy): Required<RetryPolicy> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...globalPolicy, ...jobPolicy };
+  return {
+    ...policy,
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts)),
+    jitter: Math.min(Math.max(policy.jitter, 0), 1)
+  };
+}
+
+/**
+ * Map an execution error to its retry failure class
+ * Returns undefined for errors that must never be retried (cancellation, or errors that didn't
+ * come from running the model)
+ */
+export function classifyExecutionError(err: Error): RetryFailureClass | undefined {
+  if (!(err instanceof ProcessError)) {
+    return undefined;
+  }
+  switch (err.failureClass) {
+    case 'timeout':
+      return 'timeout';
+    case 'exit':
+      return 'exit_code';
+    case 'spawn':
+      return 'spawn_error';
+    case 'cancelled':
+      return undefined;
+  }
+}
+
+/**
+ * Delay before the next attempt: exponential backoff capped at maxDelayMs, with jitter
+ */
+export function computeRetryDelay(policy: Required<RetryPolicy>, failedAttempt: number): number {
+  const baseDelay = Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, failedAttempt - 1),
+    policy.maxDelayMs
+  );
+  const jitterRange = baseDelay * policy.jitter;
+  const delay = baseDelay - jitterRange + Math.random() * jitterRange * 2;
+  return Math.max(0, Math.round(delay));
+}
+
+/**
+ * Wait for the given time, resolving early if the signal is aborted
+ */
+export function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, delayMs);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
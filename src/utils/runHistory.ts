@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { error, debug } from './logger';
+import { Workspace } from './workspace';
+
+/**
+ * What caused a job run to start
+ */
+export type RunTrigger = 'manual' | 'cron' | 'pipeline' | 'api' | 'catch-up';
+
+/**
+ * Final outcome of a job run
+ */
+export type RunStatus = 'success' | 'failure' | 'timeout' | 'cancelled' | 'skipped';
+
+/**
+ * Structured record of a single job execution
+ */
+export interface JobRunRecord {
+  runId: string;
+  jobName: string;
+  trigger: RunTrigger;
+  schedule?: string; // Cron expression that fired the run (cron and catch-up triggers)
+  scheduledFor?: string; // Missed occurrence a catch-up run stands in for (ISO timestamp)
+  upstreamJob?: string; // Job whose success triggered this run (pipeline trigger only)
+  upstreamRunId?: string;
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp
+  durationMs: number;
+  queuedMs?: number; // Time spent waiting for a previous run or a free scheduler slot
+  provider?: string; // LLM provider type, omitted for the default Gemini CLI
+  model?: string;
+  attempts?: number; // Number of Gemini executions, including retries
+  status: RunStatus;
+  responseType?: 'json' | 'plain_text' | 'parse_error';
+  error?: string;
+  outputLength?: number; // Size of the job result in characters
+}
+
+/**
+ * Filter options for querying run history
+ */
+export interface RunHistoryFilter {
+  jobName?: string;
+  status?: RunStatus;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+const MAX_STORED_RESULTS = 50;
+
+/**
+ * Run History
+ * Persists one JSON line per job execution so past runs can be listed and filtered,
+ * plus the full job result of recent successful runs
+ */
+export class RunHistory {
+  private static get historyDir(): string {
+    return Workspace.getPaths().historyDir;
+  }
+
+  /**
+   * Initialize history directory if it doesn't exist
+   */
+  private static ensureHistoryDir(): void {
+    if (!fs.existsSync(this.historyDir)) {
+      fs.mkdirSync(this.historyDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Get the history file path for a specific job
+   */
+  private static getHistoryFilePath(jobName: string): string {
+    // Sanitize job name for filename
+    const sanitizedJobName = jobName.replace(/[^a-zA-Z0-9-_]/g, '_');
+    return path.join(this.historyDir, `${sanitizedJobName}.runs.jsonl`);
+  }
+
+  /**
+   * Generate a short, sortable run identifier
+   */
+  static generateRunId(): string {
+    return `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  /**
+   * Append a run record to the job's history file
+   * Failures are logged but never thrown, so history can't break a job run
+   */
+  static recordRun(record: JobRunRecord): void {
+    try {
+      this.ensureHistoryDir();
+      fs.appendFileSync(this.getHistoryFilePath(record.jobName), JSON.stringify(record) + '\n', 'utf8');
+      debug(`Recorded run ${record.runId} for job ${record.jobName} (${record.status})`);
+    } catch (err: any) {
+      error(`Failed to record run history for job ${record.jobName}:`, err.message);
+    }
+  }
+
+  /**
+   * Get the directory holding stored job results for a specific job
+   */
+  private static getResultsDir(jobName: string): string {
+    const sanitizedJobName = jobName.replace(/[^a-zA-Z0-9-_]/g, '_');
+    return path.join(this.historyDir, 'results', sanitizedJobName);
+  }
+
+  /**
+   * Store the full job result of a run, keeping the most recent MAX_STORED_RESULTS per job
+   */
+  static saveRunResult(jobName: string, runId: string, jobResult: string): void {
+    try {
+      const resultsDir = this.getResultsDir(jobName);
+      fs.mkdirSync(resultsDir, { recursive: true });
+      fs.writeFileSync(path.join(resultsDir, `${runId}.md`), jobResult, 'utf8');
+
+      // Run IDs start with a base36 timestamp, so name order is chronological
+      const storedResults = fs.readdirSync(resultsDir).filter(file => file.endsWith('.md')).sort();
+      storedResults.slice(0, Math.max(0, storedResults.length - MAX_STORED_RESULTS)).forEach(file => {
+        fs.unlinkSync(path.join(resultsDir, file));
+      });
+    } catch (err: any) {
+      error(`Failed to store result for job ${jobName}:`, err.message);
+    }
+  }
+
+  /**
+   * Load the stored job result of a run, or of the job's latest run when runId is omitted
+   */
+  static loadRunResult(jobName: string, runId?: string): string | undefined {
+    const resultsDir = this.getResultsDir(jobName);
+    if (!fs.existsSync(resultsDir)) {
+      return undefined;
+    }
+
+    const fileName = runId
+      ? `${runId}.md`
+      : fs.readdirSync(resultsDir).filter(file => file.endsWith('.md')).sort().pop();
+    if (!fileName || !fs.existsSync(path.join(resultsDir, fileName))) {
+      return undefined;
+    }
+    return fs.readFileSync(path.join(resultsDir, fileName), 'utf8');
+  }
+
+  /**
+   * Load run records matching the filter, newest first
+   */
+  static loadRuns(filter: RunHistoryFilter = {}): JobRunRecord[] {
+    if (!fs.existsSync(this.historyDir)) {
+      return [];
+    }
+
+    // Job names match regardless of case, like everywhere else in the CLI
+    const jobFile = filter.jobName && path.basename(this.getHistoryFilePath(filter.jobName)).toLowerCase();
+    const files = fs.readdirSync(this.historyDir)
+      .filter(file => file.endsWith('.runs.jsonl') && (!jobFile || file.toLowerCase() === jobFile))
+      .map(file => path.join(this.historyDir, file));
+
+    const runs: JobRunRecord[] = [];
+    for (const file of files) {
+      if (!fs.existsSync(file)) {
+        continue;
+      }
+
+      const lines = fs.readFileSync(file, 'utf8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          runs.push(JSON.parse(line));
+        } catch {
+          debug(`Skipping malformed run history line in ${file}`);
+        }
+      }
+    }
+
+    const filtered = runs
+      .filter(run => !filter.jobName || run.jobName.toLowerCase() === filter.jobName.toLowerCase())
+      .filter(run => !filter.status || run.status === filter.status)
+      .filter(run => !filter.since || new Date(run.startTime) >= filter.since)
+      .filter(run => !filter.until || new Date(run.startTime) <= filter.until)
+      .sort((a, b) => b.startTime.localeCompare(a.startTime));
+
+    return filter.limit !== undefined ? filtered.slice(0, filter.limit) : filtered;
+  }
+
+  /**
+   * Find a single run by its ID
+   */
+  static findRun(runId: string): JobRunRecord | undefined {
+    return this.loadRuns().find(run => run.runId === runId);
+  }
+
+  /**
+   * Throw when a job's run history can't be moved to a new name because that name already has history
+   */
+  static assertCanRenameJob(oldName: string, newName: string): void {
+    if (this.getHistoryFilePath(oldName) === this.getHistoryFilePath(newName)) {
+      return;
+    }
+    if (fs.existsSync(this.getHistoryFilePath(newName)) || fs.existsSync(this.getResultsDir(newName))) {
+      throw new Error(`Job ${newName} already has run history in ${this.historyDir}; move it away before renaming ${oldName}`);
+    }
+  }
+
+  /**
+   * Move a job's run records and stored results to a new job name, for renamed jobs
+   * Returns false when the job has no history; throws when the new name already has history.
+   */
+  static renameJob(oldName: string, newName: string): boolean {
+    this.assertCanRenameJob(oldName, newName);
+    const oldFile = this.getHistoryFilePath(oldName);
+    const newFile = this.getHistoryFilePath(newName);
+    const oldResultsDir = this.getResultsDir(oldName);
+    const newResultsDir = this.getResultsDir(newName);
+    if (!fs.existsSync(oldFile) && !fs.existsSync(oldResultsDir)) {
+      return false;
+    }
+
+    if (fs.existsSync(oldFile)) {
+      // Rewrite the records, since runs are matched by the jobName they carry
+      const lines = fs.readFileSync(oldFile, 'utf8').split('\n').map(line => {
+        try {
+          return line.trim() ? JSON.stringify({ ...JSON.parse(line), jobName: newName }) : line;
+        } catch {
+          return line;
+        }
+      });
+      const tempPath = `${newFile}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, lines.join('\n'), 'utf8');
+      fs.renameSync(tempPath, newFile);
+      if (oldFile !== newFile) {
+        fs.unlinkSync(oldFile);
+      }
+    }
+    if (oldResultsDir !== newResultsDir && fs.existsSync(oldResultsDir)) {
+      fs.renameSync(oldResultsDir, newResultsDir);
+    }
+    debug(`Moved run history of job ${oldName} to ${newName}`);
+    return true;
+  }
+
+  /**
+   * Get history directory path
+   */
+  static getHistoryDirectory(): string {
+    return this.historyDir;
+  }
+}
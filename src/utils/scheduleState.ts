@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { error } from './logger';
+import { Workspace } from './workspace';
+
+/**
+ * Last fire time per job and cron expression (ISO timestamps)
+ */
+type ScheduleStateData = Record<string, Record<string, string>>;
+
+/**
+ * Schedule State
+ * Persists when each schedule last fired, so occurrences missed while the scheduler
+ * was not running can be detected on the next start
+ */
+export class ScheduleState {
+  private static get stateFile(): string {
+    return path.join(Workspace.getPaths().historyDir, 'schedule-state.json');
+  }
+
+  /**
+   * Read the state file; a missing or unreadable file means no schedule has fired yet
+   */
+  static load(): ScheduleStateData {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+      return typeof data === 'object' && data !== null && !Array.isArray(data) ? data : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Last fire time of a job's schedule, undefined when it was never recorded
+   */
+  static getLastFireTime(jobName: string, schedule: string): Date | undefined {
+    const value = this.load()[jobName]?.[schedule];
+    const date = value ? new Date(value) : undefined;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+  }
+
+  /**
+   * Record fire times for several schedules at once
+   * Failures are logged but never thrown, so state tracking can't break scheduling
+   */
+  static recordFireTimes(entries: Array<{ jobName: string; schedule: string; time: Date }>): void {
+    if (entries.length === 0) {
+      return;
+    }
+    try {
+      const data = this.load();
+      for (const { jobName, schedule, time } of entries) {
+        data[jobName] = { ...data[jobName], [schedule]: time.toISOString() };
+      }
+      this.save(data);
+    } catch (err: any) {
+      error('Failed to record schedule fire times:', err.message);
+    }
+  }
+
+  /**
+   * Move a job's fire times to a new job name, for renamed jobs
+   */
+  static renameJob(oldName: string, newName: string): void {
+    const data = this.load();
+    if (!data[oldName] || oldName === newName) {
+      return;
+    }
+    data[newName] = data[oldName];
+    delete data[oldName];
+    this.save(data);
+  }
+
+  /**
+   * Write the state file; temp file + rename, so a crash never leaves a truncated state file
+   */
+  private static save(data: ScheduleStateData): void {
+    fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+    const tempPath = `${this.stateFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.stateFile);
+  }
+
+  /**
+   * Record that a job's schedule fired
+   */
+  static recordFireTime(jobName: string, schedule: string, time: Date = new Date()): void {
+    this.recordFireTimes([{ jobName, schedule, time }]);
+  }
+}
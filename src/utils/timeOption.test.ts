@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseTimeOption } from './timeOption';
+
+describe('parseTimeOption', () => {
+  it('reads a date as the start of the local day for since', () => {
+    assert.equal(parseTimeOption('2025-09-01', 'since')?.getTime(), new Date(2025, 8, 1).getTime());
+  });
+
+  it('reads a date as the end of the local day for until', () => {
+    const until = parseTimeOption('2025-09-01', 'until')!;
+    assert.equal(until.getTime(), new Date(2025, 8, 1, 23, 59, 59, 999).getTime());
+    assert.ok(new Date(2025, 8, 1, 18, 30) <= until);
+    assert.ok(new Date(2025, 8, 2) > until);
+  });
+
+  it('reads date-times without an offset as local time', () => {
+    assert.equal(parseTimeOption('2025-09-01T10:00', 'until')?.getTime(), new Date(2025, 8, 1, 10, 0).getTime());
+    assert.equal(parseTimeOption('2025-09-01T10:00:00Z', 'since')?.toISOString(), '2025-09-01T10:00:00.000Z');
+  });
+
+  it('reads relative times as time ago', () => {
+    const now = new Date('2025-09-01T12:00:00Z');
+    assert.equal(parseTimeOption('30m', 'since', now)?.toISOString(), '2025-09-01T11:30:00.000Z');
+    assert.equal(parseTimeOption('7d', 'until', now)?.toISOString(), '2025-08-25T12:00:00.000Z');
+  });
+
+  it('rejects invalid values', () => {
+    assert.equal(parseTimeOption('yesterday', 'since'), undefined);
+    assert.equal(parseTimeOption('2025-02-30', 'until'), undefined);
+    assert.equal(parseTimeOption('5w', 'since'), undefined);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * --since / --until values of the history and logs commands
+ */
+
+const RELATIVE_TIME_PATTERN = /^(\d+)(s|m|h|d)$/;
+const RELATIVE_TIME_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse "2025-09-01", "2025-09-01T10:00" or a relative time such as "30m", "2h" or "7d" (ago)
+ * Dates and date-times without an offset are local time. A date alone is the start of that
+ * day, or for `until` its end, so `--until 2025-09-01` includes the whole day.
+ */
+export function parseTimeOption(value: string, bound: 'since' | 'until', now = new Date()): Date | undefined {
+  const trimmed = value.trim();
+  const relative = RELATIVE_TIME_PATTERN.exec(trimmed);
+  if (relative) {
+    return new Date(now.getTime() - parseInt(relative[1], 10) * RELATIVE_TIME_UNITS[relative[2]]);
+  }
+
+  const dateOnly = DATE_ONLY_PATTERN.exec(trimmed);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(part => parseInt(part, 10));
+    const start = new Date(year, month - 1, day);
+    // Reject dates like 2025-02-30 instead of rolling them over
+    if (start.getMonth() !== month - 1 || start.getDate() !== day) {
+      return undefined;
+    }
+    return bound === 'until' ? new Date(year, month - 1, day + 1, 0, 0, 0, -1) : start;
+  }
+
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? undefined : date;
+}
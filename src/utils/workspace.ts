@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Storage locations (config.json → workspace)
+ * Relative paths are resolved against the config directory; "~/" expands to the home directory.
+ */
+export interface WorkspaceConfig {
+  dir?: string; // Workspace root, defaults to the config directory
+  memoryDir?: string; // Job memory and its revisions, defaults to <dir>/memory
+  logDir?: string; // Daily log files, defaults to <dir>/logs
+  historyDir?: string; // Run records and stored results, defaults to <dir>/history
+  contextDir?: string; // Default context template directory, defaults to <dir>/context
+}
+
+/**
+ * Fully resolved workspace locations
+ */
+export interface WorkspacePaths {
+  configFile: string;
+  configDir: string;
+  root: string;
+  memoryDir: string;
+  logDir: string;
+  historyDir: string;
+  contextDir: string;
+}
+
+export const DEFAULT_CONFIG_DIR = path.join(os.homedir(), '.gemini-cli-job');
+
+function resolveFrom(baseDir: string, target: string): string {
+  if (target === '~' || target.startsWith('~/')) {
+    return path.join(os.homedir(), target.slice(1));
+  }
+  return path.resolve(baseDir, target);
+}
+
+/**
+ * Workspace
+ * Roots memory, logs, run history and context under the active config directory, so
+ * separate configs on one machine don't share state
+ */
+export class Workspace {
+  private static paths: WorkspacePaths = Workspace.resolve(path.join(DEFAULT_CONFIG_DIR, 'config.json'));
+
+  /**
+   * Resolve the locations for a config file and its workspace settings
+   */
+  static resolve(configFile: string, config: WorkspaceConfig = {}): WorkspacePaths {
+    const configDir = path.dirname(configFile);
+    const root = config.dir ? resolveFrom(configDir, config.dir) : configDir;
+    return {
+      configFile,
+      configDir,
+      root,
+      memoryDir: config.memoryDir ? resolveFrom(configDir, config.memoryDir) : path.join(root, 'memory'),
+      logDir: config.logDir ? resolveFrom(configDir, config.logDir) : path.join(root, 'logs'),
+      historyDir: config.historyDir ? resolveFrom(configDir, config.historyDir) : path.join(root, 'history'),
+      contextDir: config.contextDir ? resolveFrom(configDir, config.contextDir) : path.join(root, 'context')
+    };
+  }
+
+  /**
+   * Locations used before state moved into each config's workspace: ~/.gemini-cli-job for every config
+   */
+  static getLegacyPaths(): WorkspacePaths {
+    return this.resolve(path.join(DEFAULT_CONFIG_DIR, 'config.json'));
+  }
+
+  /**
+   * Make the workspace of a config file the active one
+   */
+  static configure(configFile: string, config?: WorkspaceConfig): WorkspacePaths {
+    this.paths = this.resolve(configFile, config);
+    return this.paths;
+  }
+
+  /**
+   * Locations of the active workspace
+   */
+  static getPaths(): WorkspacePaths {
+    return this.paths;
+  }
+
+  /**
+   * Read the workspace section of a config file without validating the rest
+   * Returns undefined when the file is missing or unreadable, so defaults apply.
+   */
+  static readWorkspaceConfig(configFile: string): WorkspaceConfig | undefined {
+    try {
+      const workspace = JSON.parse(fs.readFileSync(configFile, 'utf8')).workspace;
+      return typeof workspace === 'object' && workspace !== null && !Array.isArray(workspace) ? workspace : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}